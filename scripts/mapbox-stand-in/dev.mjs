@@ -0,0 +1,34 @@
+/**
+ * Offline Development
+ *
+ * Starts the Mapbox stand-in server and runs `next dev` against it, so the
+ * app works without a Mapbox server token or network access to the Mapbox
+ * APIs. The map's base style still loads from Mapbox when a public token and
+ * network are available.
+ *
+ * Usage: npm run dev:offline
+ */
+
+import { spawn } from 'node:child_process';
+import { startStandInServer } from './server.mjs';
+
+const port = Number(process.env.MAPBOX_STAND_IN_PORT || 4010);
+const standIn = await startStandInServer({ port });
+console.log(`Mapbox stand-in listening on ${standIn.url}`);
+
+const next = spawn('next', ['dev', ...process.argv.slice(2)], {
+  stdio: 'inherit',
+  env: {
+    ...process.env,
+    MAPBOX_API_BASE_URL: standIn.url,
+    // The stand-in accepts any token
+    MAPBOX_SERVER_TOKEN: process.env.MAPBOX_SERVER_TOKEN || 'stand-in'
+  }
+});
+
+// Stop the stand-in together with Next.js
+next.on('exit', async code => {
+  await standIn.close();
+  process.exit(code ?? 0);
+});
+['SIGINT', 'SIGTERM'].forEach(signal => process.on(signal, () => next.kill(signal)));
@@ -0,0 +1,713 @@
+/**
+ * Mapbox Stand-in Server
+ *
+ * Local HTTP server that answers the Mapbox API requests made by the API
+ * routes from recorded fixtures, so the app can be developed, demoed and
+ * tested without a Mapbox token or network access. Point the app at it by
+ * setting MAPBOX_API_BASE_URL (see dev.mjs, which does this for you).
+ *
+ * Served endpoints:
+ * - GET /ev/v1/locations                             EV Charge Finder search
+ * - GET /ev/v1/locations/{location_id}               EV Charge Finder details
+ * - GET /directions/v5/mapbox/{profile}/{coordinates} Directions, with EV routing
+ * - GET /search/searchbox/v1/suggest                 Search Box suggestions
+ * - GET /search/searchbox/v1/retrieve/{mapbox_id}    Search Box retrieve
+ * - GET /v4/{tileset}/tilequery/{lon},{lat}.json     Tilequery, on a time zone tileset
+ *
+ * Fixtures live in ./fixtures. Directions requests that match a recorded
+ * request are answered with the recording; other requests get a
+ * deterministic straight-line route with charging stops taken from the
+ * fixture stations, and at the stations requested with the
+ * waypoints.charging_station_* parameters. Directions accept depart_at,
+ * arrive_by and exclude but ignore traffic, and straight lines have no tolls,
+ * ferries or motorways to avoid. Time zones are approximated from the longitude, for the
+ * contiguous United States.
+ *
+ * Usage: node scripts/mapbox-stand-in/server.mjs [--port 4010]
+ */
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const DEFAULT_PORT = 4010;
+
+// Values of the Directions exclude parameter that are not points
+const DIRECTIONS_EXCLUSIONS = ['motorway', 'toll', 'ferry', 'unpaved', 'cash_only_tolls'];
+
+const DEFAULT_SEARCH_DISTANCE_KM = 10;
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+const MAX_SEARCH_DISTANCE_KM = 100;
+
+const RECORDING_TOLERANCE_M = 1000; // How close request coordinates must be to a recording's
+const ROUTE_DETOUR_FACTOR = 1.25; // Road distance relative to the straight line
+const ROUTE_SPEED_MS = 25; // Average driving speed of synthetic routes (90 km/h)
+const ROUTE_SAMPLE_M = 2000; // Spacing of synthetic route geometry points
+const ROUTE_CHARGE_TARGET = 0.8; // Fraction of the battery synthetic routes charge to
+
+// Variants of a synthetic route returned as alternatives: a longer road, and the main road with longer charging stops
+const ROUTE_ALTERNATIVES = [
+  { detourFactor: 1.35, chargeTarget: ROUTE_CHARGE_TARGET },
+  { detourFactor: ROUTE_DETOUR_FACTOR, chargeTarget: 0.95 }
+];
+const DEFAULT_CONSUMPTION_WH_PER_KM = 150;
+
+// Contiguous US time zones by the longitude of their western edge, from east to west
+const TIME_ZONE_BANDS = [
+  { west: -87.5, tzid: 'America/New_York' },
+  { west: -101.5, tzid: 'America/Chicago' },
+  { west: -114.5, tzid: 'America/Denver' },
+  { west: -180, tzid: 'America/Los_Angeles' }
+];
+
+// Directions EV connector types and the OCPI standards they charge from
+const EV_CONNECTOR_STANDARDS = {
+  ccs_combo_type1: ['IEC_62196_T1_COMBO'],
+  ccs_combo_type2: ['IEC_62196_T2_COMBO'],
+  chademo: ['CHADEMO'],
+  tesla: ['TESLA_S', 'TESLA_R']
+};
+
+/**
+ * Reads a JSON fixture from the fixtures directory
+ */
+function loadFixture(name) {
+  return JSON.parse(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+}
+
+const evLocations = loadFixture('ev-locations.json');
+const directionsRecordings = loadFixture('directions-ev.json');
+const searchPlaces = loadFixture('searchbox-places.json');
+
+// Great-circle distance between two [longitude, latitude] points in meters (Haversine formula)
+function distanceMeters(from, to) {
+  const R = 6371000; // Radius of the Earth in meters
+  const dLat = (to[1] - from[1]) * Math.PI / 180;
+  const dLng = (to[0] - from[0]) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(from[1] * Math.PI / 180) * Math.cos(to[1] * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Initial compass bearing from one [longitude, latitude] point to another in degrees
+function bearing(from, to) {
+  const lat1 = from[1] * Math.PI / 180;
+  const lat2 = to[1] * Math.PI / 180;
+  const dLng = (to[0] - from[0]) * Math.PI / 180;
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return Math.round((Math.atan2(y, x) * 180 / Math.PI + 360) % 360);
+}
+
+/**
+ * Encodes [longitude, latitude] coordinates as an encoded polyline
+ *
+ * @param coordinates - The coordinates to encode
+ * @param precision - Number of decimal places (5 for polyline, 6 for polyline6)
+ * @returns string - The encoded polyline
+ */
+function encodePolyline(coordinates, precision) {
+  const factor = Math.pow(10, precision);
+  let lastLat = 0;
+  let lastLng = 0;
+  let result = '';
+
+  const encodeValue = value => {
+    let v = value < 0 ? ~(value << 1) : value << 1;
+    let chunk = '';
+    while (v >= 0x20) {
+      chunk += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+      v >>= 5;
+    }
+    return chunk + String.fromCharCode(v + 63);
+  };
+
+  coordinates.forEach(([lng, lat]) => {
+    const latValue = Math.round(lat * factor);
+    const lngValue = Math.round(lng * factor);
+    result += encodeValue(latValue - lastLat) + encodeValue(lngValue - lastLng);
+    lastLat = latValue;
+    lastLng = lngValue;
+  });
+
+  return result;
+}
+
+/**
+ * Formats a LineString in the geometry format a Directions request asked for
+ */
+function formatGeometry(coordinates, geometries) {
+  if (geometries === 'geojson') {
+    return { type: 'LineString', coordinates };
+  }
+  return encodePolyline(coordinates, geometries === 'polyline6' ? 6 : 5);
+}
+
+/**
+ * Splits a comma-separated query parameter into a list
+ */
+function parseList(value) {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+function getLocationPosition(location) {
+  return [Number(location.coordinates.longitude), Number(location.coordinates.latitude)];
+}
+
+function getConnectors(location) {
+  return (location.evses || []).flatMap(evse => evse.connectors || []);
+}
+
+/**
+ * GET /ev/v1/locations
+ */
+function searchLocations(params) {
+  const latitude = Number(params.get('latitude'));
+  const longitude = Number(params.get('longitude'));
+  if (!params.get('latitude') || !params.get('longitude') || isNaN(latitude) || isNaN(longitude)) {
+    return [422, { message: 'latitude and longitude are required and must be numbers' }];
+  }
+
+  const distance = Number(params.get('distance') || DEFAULT_SEARCH_DISTANCE_KM);
+  const limit = Number(params.get('limit') || DEFAULT_SEARCH_LIMIT);
+  if (isNaN(distance) || distance <= 0 || distance > MAX_SEARCH_DISTANCE_KM) {
+    return [422, { message: `distance must be between 0 and ${MAX_SEARCH_DISTANCE_KM}` }];
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+    return [422, { message: `limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}` }];
+  }
+
+  const connectorTypes = parseList(params.get('connector_types'));
+  const operators = parseList(params.get('operators')).map(name => name.toLowerCase());
+  const excludeOperators = parseList(params.get('exclude_operators')).map(name => name.toLowerCase());
+  const minPower = params.get('min_charging_power') ? Number(params.get('min_charging_power')) : null;
+  const maxPower = params.get('max_charging_power') ? Number(params.get('max_charging_power')) : null;
+  const availability = params.get('availability');
+
+  const features = evLocations.features
+    .map(feature => {
+      const location = feature.properties.location;
+      const distanceKm = distanceMeters([longitude, latitude], getLocationPosition(location)) / 1000;
+      return { feature, location, distanceKm };
+    })
+    .filter(({ location, distanceKm }) => {
+      if (distanceKm > distance) return false;
+
+      const operator = (location.operator?.name || '').toLowerCase();
+      if (operators.length > 0 && !operators.includes(operator)) return false;
+      if (excludeOperators.includes(operator)) return false;
+
+      const connectors = getConnectors(location);
+      if (connectorTypes.length > 0 && !connectors.some(connector => connectorTypes.includes(connector.standard))) {
+        return false;
+      }
+      if (minPower !== null || maxPower !== null) {
+        const low = minPower ?? 0;
+        const high = maxPower ?? 500000;
+        if (!connectors.some(connector => connector.max_electric_power >= low && connector.max_electric_power <= high)) {
+          return false;
+        }
+      }
+      if (availability && !(location.evses || []).some(evse => evse.status === availability)) {
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, limit)
+    .map(({ feature, location, distanceKm }) => ({
+      type: 'Feature',
+      geometry: feature.geometry,
+      properties: {
+        location,
+        proximity: { latitude, longitude, distance: Number(distanceKm.toFixed(3)) }
+      }
+    }));
+
+  return [200, { type: 'FeatureCollection', features }];
+}
+
+/**
+ * GET /ev/v1/locations/{location_id}
+ */
+function getLocationDetails(locationId) {
+  const feature = evLocations.features.find(item => item.properties.location.id === locationId);
+  if (!feature) {
+    return [404, { message: 'Not Found' }];
+  }
+  return [200, feature];
+}
+
+/**
+ * Parses a Directions API curve parameter ("x,y;x,y;...") into sorted points
+ */
+function parseCurve(value) {
+  if (!value) return [];
+  return value
+    .split(';')
+    .map(pair => pair.split(',').map(Number))
+    .filter(pair => pair.length === 2 && !pair.some(isNaN))
+    .sort((a, b) => a[0] - b[0]);
+}
+
+// Linear interpolation on a sorted curve, clamped to its ends
+function interpolateCurve(curve, x) {
+  if (curve.length === 0) return null;
+  if (x <= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    if (x <= curve[i][0]) {
+      const [x0, y0] = curve[i - 1];
+      const [x1, y1] = curve[i];
+      return y0 + (y1 - y0) * (x - x0) / (x1 - x0);
+    }
+  }
+  return curve[curve.length - 1][1];
+}
+
+/**
+ * Returns the recorded Directions response for a request, if one matches
+ */
+function findRecording(coordinates) {
+  return directionsRecordings.find(recording =>
+    recording.coordinates.length === coordinates.length &&
+    recording.coordinates.every((point, index) => distanceMeters(point, coordinates[index]) <= RECORDING_TOLERANCE_M)
+  );
+}
+
+/**
+ * Finds the fixture station to charge at between two points
+ *
+ * Picks, among stations with a compatible DC connector within reach, the one
+ * that gets closest to the target.
+ *
+ * @returns The station location and its fastest compatible connector, or null
+ */
+function findChargingStation(from, to, reachMeters, connectorTypes, detourFactor) {
+  const standards = connectorTypes.flatMap(type => EV_CONNECTOR_STANDARDS[type] || []);
+  const remaining = distanceMeters(from, to);
+  let best = null;
+
+  evLocations.features.forEach(feature => {
+    const location = feature.properties.location;
+    const position = getLocationPosition(location);
+    const connector = getConnectors(location)
+      .filter(item => item.power_type === 'DC' && standards.includes(item.standard))
+      .sort((a, b) => b.max_electric_power - a.max_electric_power)[0];
+    if (!connector) return;
+
+    const leftToGo = distanceMeters(position, to);
+    // Only stations in reach that bring the car meaningfully closer
+    if (distanceMeters(from, position) * detourFactor > reachMeters || leftToGo >= remaining - 1000) return;
+    if (!best || leftToGo < best.leftToGo) {
+      best = { location, position, connector, leftToGo };
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Returns the Directions EV connector type for an OCPI connector standard
+ */
+function toEvConnectorType(standard) {
+  const entry = Object.entries(EV_CONNECTOR_STANDARDS).find(([, standards]) => standards.includes(standard));
+  return entry ? entry[0] : standard.toLowerCase();
+}
+
+/**
+ * Builds a deterministic Directions response along straight lines between the coordinates
+ *
+ * With engine=electric, charging stops are inserted at fixture stations
+ * whenever the charge would fall below the requested reserves. The variant
+ * sets the road distance relative to the straight line and the fraction of
+ * the battery to charge to.
+ */
+function buildSyntheticRoute(coordinates, params, variant = {}) {
+  const { detourFactor = ROUTE_DETOUR_FACTOR, chargeTarget = ROUTE_CHARGE_TARGET } = variant;
+  const isElectric = params.get('engine') === 'electric';
+  const geometries = params.get('geometries') || 'polyline';
+  const consumptionCurve = parseCurve(params.get('energy_consumption_curve'));
+  const chargingCurve = parseCurve(params.get('ev_charging_curve'));
+  const maxCharge = Number(params.get('ev_max_charge') || 60000);
+  const initialCharge = Number(params.get('ev_initial_charge') || maxCharge);
+  const minAtStation = Number(params.get('ev_min_charge_at_charging_station') || 0);
+  const minAtDestination = Number(params.get('ev_min_charge_at_destination') || 0);
+  const connectorTypes = parseList(params.get('ev_connector_types'));
+  const whPerMeter = (interpolateCurve(consumptionCurve, ROUTE_SPEED_MS * 3.6) ?? DEFAULT_CONSUMPTION_WH_PER_KM) / 1000;
+  // Charging stations requested for the coordinates, one ;-separated entry per coordinate
+  const pinnedIds = (params.get('waypoints.charging_station_id') || '').split(';');
+  const pinnedPowers = (params.get('waypoints.charging_station_power') || '').split(';');
+  const pinnedCurrentTypes = (params.get('waypoints.charging_station_current_type') || '').split(';');
+
+  // Charges to the target fraction at the lower of the station's power and the car's curve at half-way
+  const chargeFrom = (arrival, stationPower) => {
+    const chargeTo = Math.max(arrival, Math.round(maxCharge * chargeTarget));
+    const carPower = interpolateCurve(chargingCurve, (arrival + chargeTo) / 2) ?? stationPower;
+    const power = Math.min(stationPower, carPower);
+    return { chargeTo, chargeTime: Math.round((chargeTo - arrival) / power * 3600) };
+  };
+
+  // Plan the stops: the requested coordinates plus any charging stations
+  const stops = [{ location: coordinates[0] }];
+  let charge = initialCharge;
+  for (let index = 1; index < coordinates.length; index++) {
+    const target = coordinates[index];
+    const reserve = index === coordinates.length - 1 ? minAtDestination : minAtStation;
+
+    for (;;) {
+      const from = stops[stops.length - 1].location;
+      const needed = distanceMeters(from, target) * detourFactor * whPerMeter;
+      if (!isElectric || charge - needed >= reserve) {
+        charge -= needed;
+        const pinnedId = index < coordinates.length - 1 ? pinnedIds[index] : '';
+        if (!isElectric || !pinnedId) {
+          stops.push({ location: target, chargeAtArrival: charge });
+          break;
+        }
+
+        // Charge at the requested station, described from the fixtures when it is one of them
+        const location = evLocations.features.find(feature => feature.properties.location.id === pinnedId)?.properties.location;
+        const powerKw = Number(pinnedPowers[index]) || 50;
+        const { chargeTo, chargeTime } = chargeFrom(charge, powerKw * 1000);
+        const standard = location && getConnectors(location).find(item => connectorTypes.includes(toEvConnectorType(item.standard)))?.standard;
+        stops.push({
+          location: target,
+          chargeAtArrival: charge,
+          metadata: {
+            type: 'user-provided-charging-station',
+            name: location?.name ?? pinnedId,
+            charge_time: chargeTime,
+            charge_to: chargeTo,
+            charge_at_arrival: Math.round(charge),
+            plug_type: standard ? toEvConnectorType(standard) : connectorTypes[0] || 'ccs_combo_type1',
+            current_type: pinnedCurrentTypes[index] || 'dc',
+            power_kw: powerKw,
+            station_id: pinnedId,
+            ...(location ? { provider_names: [location.operator.name] } : {})
+          }
+        });
+        charge = chargeTo;
+        break;
+      }
+
+      const reach = Math.max(0, charge - minAtStation) / whPerMeter;
+      const station = findChargingStation(from, target, reach, connectorTypes.length > 0 ? connectorTypes : ['ccs_combo_type1', 'ccs_combo_type2'], detourFactor);
+      if (!station) {
+        return null;
+      }
+
+      const arrival = charge - distanceMeters(from, station.position) * detourFactor * whPerMeter;
+      const { chargeTo, chargeTime } = chargeFrom(arrival, station.connector.max_electric_power);
+
+      stops.push({
+        location: station.position,
+        chargeAtArrival: arrival,
+        metadata: {
+          type: 'charging-station',
+          name: station.location.name,
+          charge_time: chargeTime,
+          charge_to: chargeTo,
+          charge_at_arrival: Math.round(arrival),
+          plug_type: toEvConnectorType(station.connector.standard),
+          current_type: 'dc',
+          power_kw: Math.round(station.connector.max_electric_power / 1000),
+          station_id: station.location.id,
+          provider_names: [station.location.operator.name]
+        }
+      });
+      charge = chargeTo;
+    }
+  }
+
+  // Build one leg per pair of stops
+  let routeCharge = initialCharge;
+  let chargingDuration = 0;
+  const routeCoordinates = [];
+  const legs = stops.slice(1).map((stop, index) => {
+    const from = stops[index].location;
+    const to = stop.location;
+    const straight = distanceMeters(from, to);
+    const samples = Math.max(1, Math.ceil(straight / ROUTE_SAMPLE_M));
+    const points = Array.from({ length: samples + 1 }, (_, i) => [
+      Number((from[0] + (to[0] - from[0]) * i / samples).toFixed(6)),
+      Number((from[1] + (to[1] - from[1]) * i / samples).toFixed(6))
+    ]);
+
+    const annotation = { distance: [], duration: [], speed: [], state_of_charge: [] };
+    for (let i = 1; i < points.length; i++) {
+      const segment = distanceMeters(points[i - 1], points[i]) * detourFactor;
+      routeCharge -= segment * whPerMeter;
+      annotation.distance.push(Number(segment.toFixed(1)));
+      annotation.duration.push(Number((segment / ROUTE_SPEED_MS).toFixed(1)));
+      annotation.speed.push(ROUTE_SPEED_MS);
+      annotation.state_of_charge.push(Math.round(routeCharge / maxCharge * 100));
+    }
+    if (stop.metadata) {
+      routeCharge = stop.metadata.charge_to;
+      chargingDuration += stop.metadata.charge_time;
+    }
+
+    const distance = straight * detourFactor;
+    const duration = distance / ROUTE_SPEED_MS;
+    const heading = bearing(from, to);
+    routeCoordinates.push(...(routeCoordinates.length > 0 ? points.slice(1) : points));
+
+    return {
+      distance: Number(distance.toFixed(1)),
+      duration: Number(duration.toFixed(1)),
+      weight: Number(duration.toFixed(1)),
+      summary: '',
+      steps: [
+        {
+          distance: Number(distance.toFixed(1)),
+          duration: Number(duration.toFixed(1)),
+          weight: Number(duration.toFixed(1)),
+          name: '',
+          mode: 'driving',
+          driving_side: 'right',
+          geometry: formatGeometry(points, geometries),
+          maneuver: {
+            type: 'depart',
+            instruction: 'Drive toward your destination.',
+            bearing_before: 0,
+            bearing_after: heading,
+            location: from
+          },
+          intersections: [{ location: from, bearings: [heading], entry: [true], out: 0 }]
+        },
+        {
+          distance: 0,
+          duration: 0,
+          weight: 0,
+          name: '',
+          mode: 'driving',
+          driving_side: 'right',
+          geometry: formatGeometry([to, to], geometries),
+          maneuver: {
+            type: 'arrive',
+            instruction: stop.metadata ? `You have arrived at ${stop.metadata.name}.` : 'You have arrived at your destination.',
+            bearing_before: heading,
+            bearing_after: 0,
+            location: to
+          },
+          intersections: [{ location: to, bearings: [(heading + 180) % 360], entry: [true], in: 0 }]
+        }
+      ],
+      annotation
+    };
+  });
+
+  const distance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  const duration = legs.reduce((sum, leg) => sum + leg.duration, 0) + chargingDuration;
+
+  return {
+    routes: [{
+      weight_name: 'auto',
+      weight: Number(duration.toFixed(1)),
+      duration: Number(duration.toFixed(1)),
+      distance: Number(distance.toFixed(1)),
+      legs,
+      geometry: formatGeometry(routeCoordinates, geometries)
+    }],
+    waypoints: stops.map(stop => ({
+      name: '',
+      location: stop.location,
+      distance: 0,
+      ...(stop.metadata ? { metadata: stop.metadata } : {})
+    })),
+    code: 'Ok',
+    uuid: 'stand-in-synthetic'
+  };
+}
+
+/**
+ * GET /directions/v5/mapbox/{profile}/{coordinates}
+ */
+function getDirections(coordinateList, params) {
+  const coordinates = decodeURIComponent(coordinateList)
+    .split(';')
+    .map(pair => pair.split(',').map(Number));
+  if (coordinates.length < 2 || coordinates.some(pair => pair.length !== 2 || pair.some(isNaN))) {
+    return [422, { code: 'InvalidInput', message: 'Coordinates must be longitude,latitude pairs separated by ;' }];
+  }
+  const exclude = params.get('exclude');
+  if (exclude && exclude.split(',').some(value => !DIRECTIONS_EXCLUSIONS.includes(value))) {
+    return [422, { code: 'InvalidInput', message: `exclude must be a comma-separated list of ${DIRECTIONS_EXCLUSIONS.join(', ')}` }];
+  }
+
+  const recording = findRecording(coordinates);
+  if (recording) {
+    return [200, recording.response];
+  }
+
+  const response = buildSyntheticRoute(coordinates, params);
+  if (!response) {
+    return [200, { code: 'NoRoute', message: 'No route with charging stops found in the stand-in fixtures', routes: [] }];
+  }
+
+  // Like Mapbox, only offer alternatives between two coordinates
+  if (params.get('alternatives') === 'true' && coordinates.length === 2) {
+    ROUTE_ALTERNATIVES
+      .map(variant => buildSyntheticRoute(coordinates, params, variant))
+      .filter(alternative => alternative !== null)
+      .forEach(alternative => {
+        alternative.routes[0].waypoints = alternative.waypoints;
+        response.routes.push(alternative.routes[0]);
+      });
+  }
+
+  // With waypoints_per_route each route carries its own waypoints, which include its charging stops
+  if (params.get('waypoints_per_route') === 'true') {
+    response.routes[0].waypoints = response.waypoints;
+    delete response.waypoints;
+  } else {
+    response.routes.forEach(route => delete route.waypoints);
+  }
+  return [200, response];
+}
+
+/**
+ * GET /search/searchbox/v1/suggest
+ */
+function suggest(params) {
+  const query = (params.get('q') || '').trim().toLowerCase();
+  if (!query) {
+    return [400, { message: 'q is required' }];
+  }
+  if (!params.get('session_token')) {
+    return [400, { message: 'session_token is required' }];
+  }
+  const limit = Math.min(10, Number(params.get('limit') || 5));
+
+  const suggestions = searchPlaces.features
+    .filter(feature =>
+      feature.properties.name.toLowerCase().includes(query) ||
+      feature.properties.full_address.toLowerCase().includes(query)
+    )
+    .slice(0, limit)
+    .map(feature => {
+      // Suggestions carry no coordinates; they are returned by retrieve
+      const suggestion = { ...feature.properties };
+      delete suggestion.coordinates;
+      return suggestion;
+    });
+
+  return [200, { suggestions, attribution: '© Mapbox stand-in fixtures', response_id: 'stand-in' }];
+}
+
+/**
+ * GET /search/searchbox/v1/retrieve/{mapbox_id}
+ */
+function retrieve(mapboxId, params) {
+  if (!params.get('session_token')) {
+    return [400, { message: 'session_token is required' }];
+  }
+  const feature = searchPlaces.features.find(item => item.properties.mapbox_id === mapboxId);
+  if (!feature) {
+    return [404, { message: 'Not Found' }];
+  }
+  return [200, { type: 'FeatureCollection', features: [feature], attribution: '© Mapbox stand-in fixtures' }];
+}
+
+/**
+ * GET /v4/{tileset}/tilequery/{lon},{lat}.json
+ */
+function tilequeryTimeZone(position) {
+  const [longitude, latitude] = position.split(',').map(Number);
+  if (isNaN(longitude) || isNaN(latitude)) {
+    return [422, { message: 'Invalid query point' }];
+  }
+  const band = TIME_ZONE_BANDS.find(item => longitude >= item.west);
+  return [200, {
+    type: 'FeatureCollection',
+    features: [{
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [longitude, latitude] },
+      properties: { TZID: band.tzid, tilequery: { distance: 0, geometry: 'polygon', layer: 'timezones' } }
+    }]
+  }];
+}
+
+/**
+ * Routes a request to its handler
+ *
+ * @returns [status, body] - The response status and JSON body
+ */
+function handleRequest(method, url) {
+  if (method !== 'GET') {
+    return [405, { message: 'Method Not Allowed' }];
+  }
+
+  const path = url.pathname;
+  const params = url.searchParams;
+  let match;
+
+  if (path === '/ev/v1/locations') {
+    return searchLocations(params);
+  }
+  if ((match = path.match(/^\/ev\/v1\/locations\/([^/]+)$/))) {
+    return getLocationDetails(decodeURIComponent(match[1]));
+  }
+  if ((match = path.match(/^\/directions\/v5\/mapbox\/[^/]+\/([^/]+)$/))) {
+    return getDirections(match[1], params);
+  }
+  if (path === '/search/searchbox/v1/suggest') {
+    return suggest(params);
+  }
+  if ((match = path.match(/^\/search\/searchbox\/v1\/retrieve\/([^/]+)$/))) {
+    return retrieve(decodeURIComponent(match[1]), params);
+  }
+  if ((match = path.match(/^\/v4\/[^/]+\/tilequery\/([^/]+)\.json$/))) {
+    return tilequeryTimeZone(decodeURIComponent(match[1]));
+  }
+  return [404, { message: 'Not Found' }];
+}
+
+/**
+ * Starts the stand-in server
+ *
+ * @param options - port (0 picks a free port) and host to listen on
+ * @returns Promise<{ url: string, close: () => Promise<void> }> - The server's base URL and a function that stops it
+ */
+export function startStandInServer({ port = DEFAULT_PORT, host = '127.0.0.1', quiet = false } = {}) {
+  const server = createServer((request, response) => {
+    const url = new URL(request.url || '/', `http://${request.headers.host || host}`);
+    let status;
+    let body;
+    try {
+      [status, body] = handleRequest(request.method, url);
+    } catch (error) {
+      console.error('Stand-in request failed:', error);
+      [status, body] = [500, { message: 'Internal Server Error' }];
+    }
+    if (!quiet) {
+      console.log(`[mapbox stand-in] ${request.method} ${url.pathname} ${status}`);
+    }
+    response.writeHead(status, { 'content-type': 'application/json; charset=utf-8' });
+    response.end(JSON.stringify(body));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      const address = server.address();
+      resolve({
+        url: `http://${host}:${address.port}`,
+        close: () => new Promise(done => server.close(() => done()))
+      });
+    });
+  });
+}
+
+// Start the server when run directly
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const portFlag = process.argv.indexOf('--port');
+  const port = Number(portFlag >= 0 ? process.argv[portFlag + 1] : process.env.MAPBOX_STAND_IN_PORT || DEFAULT_PORT);
+  startStandInServer({ port }).then(({ url }) => {
+    console.log(`Mapbox stand-in listening on ${url}`);
+    console.log(`Start the app with MAPBOX_API_BASE_URL=${url}`);
+  });
+}
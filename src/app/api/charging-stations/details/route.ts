@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// This should be stored in .env.local and accessed via process.env
-const MAPBOX_SERVER_TOKEN = process.env.MAPBOX_SERVER_TOKEN || new Error('MAPBOX_SERVER_TOKEN undefined');
+import { mapboxEvDetailsResponseSchema } from '@/services/mapbox/schemas';
+import { mapboxGet, badRequest, handleRouteError } from '@/services/mapbox/server/mapboxClient';
+import { parseUpstream } from '@/services/mapbox/server/validation';
+import { toChargingStationDetails } from '@/services/mapbox/transforms';
 
 /**
  * GET handler for /api/charging-stations/details
  * 
  * This is a server-side API route that proxies requests to the Mapbox EV Charge Point details API
- * to keep the access token secure on the server side.
+ * to keep the access token secure on the server side. The response is normalized to the
+ * ChargingStationDetails shape, including tariffs, opening hours and owner.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -17,53 +19,16 @@ export async function GET(request: NextRequest) {
     
     // Validate required parameters
     if (!locationId) {
-      return NextResponse.json(
-        { error: 'Missing required parameter: id (location_id) is required' },
-        { status: 400 }
-      );
-    }
-    
-    // Build the Mapbox API URL
-    const mapboxUrl = `https://api.mapbox.com/ev/v1/locations/${encodeURIComponent(locationId)}?access_token=${MAPBOX_SERVER_TOKEN}`;
-    
-    // Make the request to Mapbox API with all required headers
-    const response = await fetch(mapboxUrl, {
-      headers: {
-        'accept': '*/*',
-        'accept-language': 'en-US,en;q=0.9',
-        'cache-control': 'no-cache',
-        'origin': 'https://docs.mapbox.com',
-        'pragma': 'no-cache',
-        'referer': 'https://docs.mapbox.com/',
-        'sec-ch-ua': '"Not A(Brand";v="8", "Chromium";v="132", "Google Chrome";v="132"',
-        'sec-ch-ua-mobile': '?0',
-        'sec-ch-ua-platform': '"macOS"',
-        'sec-fetch-dest': 'empty',
-        'sec-fetch-mode': 'cors',
-        'sec-fetch-site': 'same-site',
-        'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/132.0.0.0 Safari/537.36'
-      }
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Mapbox API error:', errorText);
-      return NextResponse.json(
-        { error: `Mapbox API error: ${response.status} ${response.statusText}` },
-        { status: response.status }
-      );
+      return badRequest('Missing required parameter: id (location_id) is required');
     }
     
-    // Get the data from the response
-    const data = await response.json();
+    // Request the location details from the Mapbox API
+    const raw = await mapboxGet<unknown>(`/ev/v1/locations/${encodeURIComponent(locationId)}`);
+    const data = parseUpstream(mapboxEvDetailsResponseSchema, raw, 'EV location details response');
     
-    // Return the data
-    return NextResponse.json(data);
+    // Transform the data to match our ChargingStationDetails interface
+    return NextResponse.json(toChargingStationDetails(data));
   } catch (error) {
-    console.error('Error in charging station details API route:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleRouteError(error, 'charging station details API route');
   }
 }
@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// This should be stored in .env.local and accessed via process.env
-const MAPBOX_SERVER_TOKEN = process.env.MAPBOX_SERVER_TOKEN || new Error('MAPBOX_SERVER_TOKEN undefined');
+import { mapboxEvResponseSchema } from '@/services/mapbox/schemas';
+import { toChargingStation } from '@/services/mapbox/transforms';
+import { mapboxGet, badRequest, handleRouteError } from '@/services/mapbox/server/mapboxClient';
+import { parseUpstreamCollection } from '@/services/mapbox/server/validation';
+import {
+  StationLookupParams,
+  getCachedStations,
+  narrowStationLookup,
+  quantizeStationLookup
+} from '@/services/mapbox/server/stationCache';
+import { STATION_RESULT_LIMIT } from '@/services/mapbox/stationTiles';
 
 /**
  * GET handler for /api/charging-stations
@@ -19,95 +27,72 @@ export async function GET(request: NextRequest) {
     
     // Validate required parameters
     if (!latitude || !longitude) {
-      return NextResponse.json(
-        { error: 'Missing required parameters: latitude and longitude are required' },
-        { status: 400 }
-      );
+      return badRequest('Missing required parameters: latitude and longitude are required');
+    }
+    if (isNaN(Number(latitude)) || isNaN(Number(longitude)) || isNaN(Number(distance))) {
+      return badRequest('Invalid parameters: latitude, longitude and distance must be numbers');
     }
     
-    // Optional parameters
-    const limit = searchParams.get('limit');
-    const connectorTypes = searchParams.get('connector_types');
-    const operators = searchParams.get('operators');
-    const excludeOperators = searchParams.get('exclude_operators');
-    const minChargingPower = searchParams.get('min_charging_power');
-    const maxChargingPower = searchParams.get('max_charging_power');
-    const availability = searchParams.get('availability');
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? Number(limitParam) : undefined;
+    if (limit !== undefined && !(Number.isInteger(limit) && limit >= 1 && limit <= STATION_RESULT_LIMIT)) {
+      return badRequest(`Invalid parameter: limit must be an integer between 1 and ${STATION_RESULT_LIMIT}`);
+    }
     
-    // Build the Mapbox API URL
-    let mapboxUrl = `https://api.mapbox.com/ev/v1/locations?access_token=${MAPBOX_SERVER_TOKEN}&latitude=${latitude}&longitude=${longitude}&distance=${distance}`;
+    const requested: StationLookupParams = {
+      latitude: Number(latitude),
+      longitude: Number(longitude),
+      distance: Number(distance),
+      filters: {
+        connector_types: searchParams.get('connector_types'),
+        operators: searchParams.get('operators'),
+        exclude_operators: searchParams.get('exclude_operators'),
+        min_charging_power: searchParams.get('min_charging_power'),
+        max_charging_power: searchParams.get('max_charging_power'),
+        availability: searchParams.get('availability')
+      }
+    };
     
-    // Add optional parameters if provided
-    if (limit) mapboxUrl += `&limit=${limit}`;
-    if (connectorTypes) mapboxUrl += `&connector_types=${connectorTypes}`;
-    if (operators) mapboxUrl += `&operators=${operators}`;
-    if (excludeOperators) mapboxUrl += `&exclude_operators=${excludeOperators}`;
-    if (minChargingPower) mapboxUrl += `&min_charging_power=${minChargingPower}`;
-    if (maxChargingPower) mapboxUrl += `&max_charging_power=${maxChargingPower}`;
-    if (availability) mapboxUrl += `&availability=${availability}`;
+    // Request charging stations from the Mapbox API, passing through optional parameters
+    const loadStations = async (lookup: StationLookupParams, resultLimit: number) => {
+      const raw = await mapboxGet<unknown>('/ev/v1/locations', {
+        query: {
+          latitude: lookup.latitude,
+          longitude: lookup.longitude,
+          distance: lookup.distance,
+          limit: resultLimit,
+          ...lookup.filters
+        }
+      });
+      
+      // Drop locations that do not match the schema instead of failing the whole search
+      const data = parseUpstreamCollection(mapboxEvResponseSchema, 'features', raw, 'EV locations response', 'EV location');
+      
+      // Transform the data to match our ChargingStation interface
+      return data.features.map(toChargingStation);
+    };
     
-    // Make the request to Mapbox API with all required headers
-    const response = await fetch(mapboxUrl, {
-      headers: {
-        'accept': '*/*',
-        'accept-language': 'en-US,en;q=0.9',
-        'cache-control': 'no-cache',
-        'origin': 'https://docs.mapbox.com',
-        'pragma': 'no-cache',
-        'referer': 'https://docs.mapbox.com/',
-        'sec-ch-ua': '"Not A(Brand";v="8", "Chromium";v="132", "Google Chrome";v="132"',
-        'sec-ch-ua-mobile': '?0',
-        'sec-ch-ua-platform': '"macOS"',
-        'sec-fetch-dest': 'empty',
-        'sec-fetch-mode': 'cors',
-        'sec-fetch-site': 'same-site',
-        'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/132.0.0.0 Safari/537.36'
-      }
-    });
+    // Snap the search to its cache tile; the snapped search is sent upstream for as many results as the API returns,
+    // so the requested limit can be applied to the stations nearest the requested center
+    const lookup = quantizeStationLookup(requested);
+    const { value: cached, hit, ageSeconds } = await getCachedStations(lookup, () => loadStations(lookup, STATION_RESULT_LIMIT));
     
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Mapbox API error:', errorText);
-      return NextResponse.json(
-        { error: `Mapbox API error: ${response.status} ${response.statusText}` },
-        { status: response.status }
-      );
+    let transformedData = narrowStationLookup(cached, lookup, requested, limit);
+    const fromCache = hit && transformedData !== null;
+    if (!transformedData) {
+      // The snapped search was cut off before it covered the requested one, so send the search as requested
+      const stations = await loadStations(requested, limit ?? STATION_RESULT_LIMIT);
+      transformedData = narrowStationLookup(stations, requested, requested, limit) ?? stations;
     }
     
-    // Get the data from the response
-    const data = await response.json();
-    
-    // Transform the data to match our ChargingStation interface
-    const transformedData = data.features.map((feature: any) => {
-      const location = feature.properties.location;
-      const evse = location.evses[0]; // Use the first EVSE for simplicity
-      const connector = evse?.connectors[0]; // Use the first connector for simplicity
-      
-      return {
-        id: location.id,
-        lat: parseFloat(location.coordinates.latitude),
-        lng: parseFloat(location.coordinates.longitude),
-        name: location.name,
-        chargerType: evse?.connectors.map((c: any) => c.standard) || [],
-        powerLevel: connector?.max_electric_power || 0,
-        network: location.operator.name,
-        available: evse?.status === 'AVAILABLE',
-        address: location.address,
-        city: location.city,
-        state: location.state,
-        postalCode: location.postal_code,
-        country: location.country,
-        distance: feature.properties.proximity.distance
-      };
+    // Return the transformed data, reporting whether it came from the cache and how old it is
+    return NextResponse.json(transformedData, {
+      headers: {
+        'X-Cache': fromCache ? 'HIT' : 'MISS',
+        'Age': String(fromCache ? ageSeconds : 0)
+      }
     });
-    
-    // Return the transformed data
-    return NextResponse.json(transformedData);
   } catch (error) {
-    console.error('Error in charging stations API route:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleRouteError(error, 'charging stations API route');
   }
 }
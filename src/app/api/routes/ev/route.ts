@@ -8,21 +8,50 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { mapboxDirectionsResponseSchema } from '@/services/mapbox/schemas';
+import { mapboxGet, badRequest, handleRouteError } from '@/services/mapbox/server/mapboxClient';
+import { parseUpstreamCollection } from '@/services/mapbox/server/validation';
+import { lookupTimeZone } from '@/services/mapbox/server/timeZones';
+import { MAX_ROUTE_ALTERNATIVES, MAX_ROUTE_WAYPOINTS, ROUTE_EXCLUSIONS } from '@/services/mapbox/evRouting';
+import { isValidLocalTime } from '@/services/mapbox/routeSchedule';
+import { ChargeLevels, RouteExclusion } from '@/services/mapbox/types';
+import {
+  DEFAULT_CHARGE_LEVELS,
+  DEFAULT_VEHICLE_PROFILE,
+  getVehicleProfile,
+  toDirectionsEvParams,
+  withRange
+} from '@/services/mapbox/vehicleProfiles';
 
-// This should be stored in .env.local and accessed via process.env
-const MAPBOX_SERVER_TOKEN = process.env.MAPBOX_SERVER_TOKEN || new Error('MAPBOX_SERVER_TOKEN undefined');
+// A longitude,latitude pair as used in Directions API paths
+const COORDINATE_PATTERN = /^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/;
+
+// A charging station to charge at: station ID, power in kW and current type
+const CHARGING_STATION_PATTERN = /^([^,;]+),(\d+(\.\d+)?),(ac|dc)$/;
+
+// Fixed EV routing parameters for the Mapbox Directions API; vehicle-specific ones come from the vehicle profile
+const EV_ROUTING_PARAMS = {
+  alternatives: true,
+  waypoints_per_route: true, // Each alternative has its own charging stops
+  annotations: 'state_of_charge,distance,duration,speed',
+  geometries: 'geojson',
+  language: 'en',
+  overview: 'full',
+  steps: true,
+  engine: 'electric',
+  auxiliary_consumption: 1500
+};
+
+// Charge level query parameters, in percent, and the ChargeLevels field each one sets
+const CHARGE_LEVEL_PARAMS: Array<[string, keyof ChargeLevels]> = [
+  ['initial_charge', 'initialCharge'],
+  ['min_charge', 'minChargeAtDestination'],
+  ['min_charge_at_station', 'minChargeAtStation'],
+  ['max_charge', 'maxCharge']
+];
 
 export async function GET(request: NextRequest) {
   try {
-    // Ensure Mapbox server token is available
-    if (!MAPBOX_SERVER_TOKEN) {
-      console.error('Mapbox server token is not configured');
-      return NextResponse.json(
-        { error: 'Mapbox server token is not configured' },
-        { status: 500 }
-      );
-    }
-
     // Get query parameters
     const searchParams = request.nextUrl.searchParams;
     const start = searchParams.get('start');
@@ -46,15 +75,90 @@ export async function GET(request: NextRequest) {
 
     // Validate required parameters
     if (!start || !end) {
-      return NextResponse.json(
-        { error: 'Missing required parameters: start and end coordinates are required' },
-        { status: 400 }
-      );
+      return badRequest('Missing required parameters: start and end coordinates are required');
+    }
+    if (!COORDINATE_PATTERN.test(start) || !COORDINATE_PATTERN.test(end)) {
+      return badRequest('Invalid coordinates: start and end must be in the format longitude,latitude');
     }
 
-    // Build Mapbox Directions API URL with EV routing parameters
-    // Note: Mapbox expects coordinates in the format longitude,latitude
-    let mapboxUrl = `https://api.mapbox.com/directions/v5/mapbox/driving/${start};${end}?alternatives=false&annotations=state_of_charge%2Cduration&geometries=geojson&language=en&overview=full&steps=true&engine=electric&ev_initial_charge=56000&ev_max_charge=70000&energy_consumption_curve=10%2C300%3B20%2C130%3B40%2C100%3B60%2C110%3B80%2C120%3B100%2C140%3B120%2C160%3B140%2C180&ev_charging_curve=7000%2C250000%3B14000%2C220000%3B21000%2C180000%3B28000%2C140000%3B35000%2C100000%3B42000%2C80000%3B49000%2C60000%3B63000%2C40000&ev_max_ac_charging_power=11500&ev_min_charge_at_destination=10500&ev_min_charge_at_charging_station=10500&auxiliary_consumption=1500&access_token=${MAPBOX_SERVER_TOKEN}`;
+    // Intermediate destinations, visited in order between start and end
+    const waypointsParam = searchParams.get('waypoints');
+    const waypoints = waypointsParam ? waypointsParam.split(';') : [];
+    if (waypoints.some(waypoint => !COORDINATE_PATTERN.test(waypoint))) {
+      return badRequest('Invalid waypoints: waypoints must be longitude,latitude pairs separated by ;');
+    }
+    if (waypoints.length > MAX_ROUTE_WAYPOINTS) {
+      return badRequest(`Too many waypoints: at most ${MAX_ROUTE_WAYPOINTS} are supported`);
+    }
+
+    // Charging stations to charge at, one entry per waypoint; empty entries are waypoints to pass through
+    const chargingStationsParam = searchParams.get('charging_stations');
+    const chargingStations = chargingStationsParam !== null
+      ? chargingStationsParam.split(';').map(entry => entry ? CHARGING_STATION_PATTERN.exec(entry) : undefined)
+      : [];
+    if (chargingStationsParam !== null && chargingStations.length !== waypoints.length) {
+      return badRequest('Invalid charging_stations: expected one entry per waypoint, separated by ;');
+    }
+    if (chargingStations.some(station => station === null)) {
+      return badRequest('Invalid charging_stations: entries must be station_id,power_kw,ac|dc or empty');
+    }
+
+    // Look up the vehicle; no vehicle or 'other' uses the generic profile
+    const vehicle = searchParams.get('vehicle');
+    const profile = getVehicleProfile(vehicle);
+    if (!profile) {
+      return badRequest(`Unknown vehicle: ${vehicle}`);
+    }
+
+    // A custom range only applies to the generic profile; other vehicles have their own consumption curve
+    const range = searchParams.get('range');
+    if (range && !(Number(range) > 0)) {
+      return badRequest('Invalid parameter: range must be a positive number of meters');
+    }
+    const routingProfile = range && profile === DEFAULT_VEHICLE_PROFILE ? withRange(profile, Number(range)) : profile;
+
+    // Read the charge levels in percent of the battery capacity, with defaults for missing ones
+    const chargeLevels: ChargeLevels = { ...DEFAULT_CHARGE_LEVELS };
+    for (const [param, field] of CHARGE_LEVEL_PARAMS) {
+      const value = searchParams.get(param);
+      if (!value) continue;
+      const percent = Number(value);
+      if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+        return badRequest(`Invalid parameter: ${param} must be a percentage between 0 and 100`);
+      }
+      chargeLevels[field] = percent;
+    }
+    if (chargeLevels.initialCharge > chargeLevels.maxCharge) {
+      return badRequest('Invalid parameters: initial_charge cannot be above max_charge');
+    }
+    if (chargeLevels.minChargeAtDestination >= chargeLevels.maxCharge || chargeLevels.minChargeAtStation >= chargeLevels.maxCharge) {
+      return badRequest('Invalid parameters: min_charge and min_charge_at_station must be below max_charge');
+    }
+
+    // Departure or arrival time, in local time at the start or the destination respectively
+    const departAt = searchParams.get('depart_at');
+    const arriveBy = searchParams.get('arrive_by');
+    if (departAt && arriveBy) {
+      return badRequest('Invalid parameters: depart_at and arrive_by cannot be combined');
+    }
+    if ((departAt && !isValidLocalTime(departAt)) || (arriveBy && !isValidLocalTime(arriveBy))) {
+      return badRequest('Invalid parameter: depart_at and arrive_by must be local times in the format YYYY-MM-DDThh:mm');
+    }
+    // Road features to avoid, comma-separated
+    const excludeParam = searchParams.get('exclude');
+    const exclude = excludeParam
+      ? excludeParam.split(',').filter((value, index, self) => self.indexOf(value) === index) // Remove duplicates
+      : [];
+    const exclusions = ROUTE_EXCLUSIONS.map(({ exclusion }) => exclusion);
+    if (exclude.some(value => !exclusions.includes(value as RouteExclusion))) {
+      return badRequest(`Invalid parameter: exclude must be a comma-separated list of ${exclusions.join(', ')}`);
+    }
+
+    // A departure time plans for the traffic expected then; Mapbox only accepts arrive_by on the driving profile
+    const directionsProfile = departAt ? 'driving-traffic' : 'driving';
+
+    // Default to the vehicle's native connector types if none provided
+    let evConnectorTypes = profile.connectorTypes;
     
     const connectorTypes = searchParams.get('connector_types') || searchParams.get('connectorTypes');
     if (connectorTypes) {
@@ -80,73 +184,49 @@ export async function GET(request: NextRequest) {
         .filter((value, index, self) => self.indexOf(value) === index); // Remove duplicates
       
       if (validConnectorTypes.length > 0) {
-        mapboxUrl += `&ev_connector_types=${validConnectorTypes.join(',')}`;
+        evConnectorTypes = validConnectorTypes;
       }
-    } else {
-      // Default to common connector types if none provided
-      mapboxUrl += '&ev_connector_types=ccs_combo_type2,ccs_combo_type1';
     }
 
-    // Log the URL for debugging
-    console.log('Mapbox API URL:', mapboxUrl);
-
-    // Make request to Mapbox Directions API with all required headers
-    const response = await fetch(mapboxUrl, {
-      headers: {
-        'accept': '*/*',
-        'accept-language': 'en-US,en;q=0.9',
-        'cache-control': 'no-cache',
-        'origin': 'https://docs.mapbox.com',
-        'pragma': 'no-cache',
-        'referer': 'https://docs.mapbox.com/',
-        'sec-ch-ua': '"Not A(Brand";v="8", "Chromium";v="132", "Google Chrome";v="132"',
-        'sec-ch-ua-mobile': '?0',
-        'sec-ch-ua-platform': '"macOS"',
-        'sec-fetch-dest': 'empty',
-        'sec-fetch-mode': 'cors',
-        'sec-fetch-site': 'same-site',
-        'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/132.0.0.0 Safari/537.36'
-      }
-    });
-
-    if (!response.ok) {
-      let errorMessage = `Mapbox API error: ${response.status} ${response.statusText}`;
-      try {
-        const errorText = await response.text();
-        console.error('Mapbox API error response:', errorText);
-        
-        // Try to parse the error as JSON
-        try {
-          const errorJson = JSON.parse(errorText);
-          if (errorJson.message) {
-            errorMessage = `Mapbox API error: ${errorJson.message}`;
-          }
-        } catch (parseError) {
-          // If it's not valid JSON, use the text as is
-          errorMessage = `Mapbox API error: ${errorText}`;
-        }
-      } catch (textError) {
-        console.error('Failed to get error text:', textError);
-      }
-      
-      return NextResponse.json(
-        { error: errorMessage },
-        { status: response.status }
-      );
-    }
-
-    // Return the Mapbox API response
-    const data = await response.json();
+    // Request the route from the Mapbox Directions API
+    // Note: Mapbox expects coordinates in the format longitude,latitude
+    // Time zones of the route ends are looked up alongside, to show route times in local time
+    const coordinates = [start, ...waypoints, end].join(';');
+    // Waypoint parameters have one entry per coordinate; the start and end are never charging stations
+    const toWaypointParam = (group: number) => chargingStations.some(Boolean)
+      ? ['', ...chargingStations.map(station => station?.[group] ?? ''), ''].join(';')
+      : undefined;
+    const [raw, originTimeZone, destinationTimeZone] = await Promise.all([
+      mapboxGet<unknown>(`/directions/v5/mapbox/${directionsProfile}/${coordinates}`, {
+        query: {
+          ...EV_ROUTING_PARAMS,
+          ...toDirectionsEvParams(routingProfile, chargeLevels),
+          ev_connector_types: evConnectorTypes,
+          depart_at: departAt,
+          arrive_by: arriveBy,
+          exclude,
+          'waypoints.charging_station_id': toWaypointParam(1),
+          'waypoints.charging_station_power': toWaypointParam(2),
+          'waypoints.charging_station_current_type': toWaypointParam(4)
+        },
+        timeoutMs: 20000 // EV routing can take longer than other requests
+      }),
+      lookupTimeZone(start),
+      lookupTimeZone(end)
+    ]);
+    
+    // Drop routes that do not match the schema; top-level waypoints, if any, are shared by all routes and must be valid
+    const data = parseUpstreamCollection(mapboxDirectionsResponseSchema, 'routes', raw, 'directions response', 'route');
     
     // Log the response for debugging
-    console.log('Mapbox API response waypoints:', data.waypoints);
+    console.log('Mapbox API response waypoints:', data.waypoints ?? data.routes?.map(route => route.waypoints));
     
-    return NextResponse.json(data);
+    return NextResponse.json({
+      ...data,
+      routes: data.routes?.slice(0, MAX_ROUTE_ALTERNATIVES),
+      time_zones: { origin: originTimeZone, destination: destinationTimeZone }
+    });
   } catch (error) {
-    console.error('Error in EV routing API:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleRouteError(error, 'EV routing API');
   }
 }
@@ -0,0 +1,77 @@
+/**
+ * Route Export API Route
+ *
+ * Serializes a planned route to GPX 1.1, KML or GeoJSON so other navigation
+ * tools and fleet systems can load it. The route is posted as returned by
+ * calculateEvRoutes, so the export matches the route that was planned
+ * without requesting it from Mapbox again.
+ *
+ * Request body: { format: 'gpx' | 'kml' | 'geojson', route: EvRoute, name?: string, pointNames?: string[] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { geoJsonLineStringSchema } from '@/services/mapbox/schemas';
+import { badRequest, handleRouteError } from '@/services/mapbox/server/mapboxClient';
+import { exportRoute } from '@/services/mapbox/routeExport';
+
+const positionSchema = z.tuple([z.number(), z.number()]);
+
+// The parts of an EvRoute that are exported
+const exportRequestSchema = z.object({
+  format: z.enum(['gpx', 'kml', 'geojson']),
+  name: z.string().max(200).optional(),
+  pointNames: z.array(z.string()).optional(),
+  route: z.object({
+    distance: z.number(),
+    duration: z.number(),
+    geometry: geoJsonLineStringSchema,
+    waypoints: z.array(z.object({
+      name: z.string(),
+      location: positionSchema,
+      metadata: z.object({ type: z.string() }).optional()
+    })),
+    chargingWaypoints: z.array(z.object({
+      type: z.string(),
+      name: z.string(),
+      chargeTime: z.number(),
+      chargeTo: z.number(),
+      chargeAtArrival: z.number(),
+      plugType: z.string(),
+      currentType: z.string(),
+      powerKw: z.number(),
+      stationId: z.string(),
+      providerNames: z.array(z.string()).optional(),
+      location: positionSchema
+    }))
+  })
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return badRequest('Invalid request body: expected JSON');
+    }
+
+    const result = exportRequestSchema.safeParse(body);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      return badRequest(`Invalid request body: ${issue.path.join('.') || 'body'}: ${issue.message}`);
+    }
+
+    const { format, name, pointNames, route } = result.data;
+    const { content, filename, mimeType } = exportRoute(route, format, { name, pointNames });
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': `${mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+  } catch (error) {
+    return handleRouteError(error, 'route export API');
+  }
+}
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { v4 as uuidv4 } from 'uuid';
-
-// This should be stored in .env.local and accessed via process.env
-const MAPBOX_SERVER_TOKEN = process.env.MAPBOX_SERVER_TOKEN || new Error('MAPBOX_SERVER_TOKEN undefined');
+import { searchSuggestResponseSchema } from '@/services/mapbox/schemas';
+import { mapboxGet, badRequest, handleRouteError } from '@/services/mapbox/server/mapboxClient';
+import { parseUpstreamCollection } from '@/services/mapbox/server/validation';
 
 /**
  * GET handler for /api/search
@@ -18,71 +18,30 @@ export async function GET(request: NextRequest) {
     
     // Validate required parameters
     if (!query) {
-      return NextResponse.json(
-        { error: 'Missing required parameter: q (search query) is required' },
-        { status: 400 }
-      );
+      return badRequest('Missing required parameter: q (search query) is required');
     }
     
-    // Optional parameters
-    const language = searchParams.get('language') || 'en';
-    const limit = searchParams.get('limit') || '5';
-    const country = searchParams.get('country') || 'US';
-    const proximity = searchParams.get('proximity') || 'ip'; // Default to IP-based proximity
-    const types = searchParams.get('types') || 'address,place,poi';
-    
     // Generate a session token if not provided
     // This groups a series of requests together for billing purposes
     const sessionToken = searchParams.get('session_token') || uuidv4();
     
-    // Build the Mapbox API URL
-    let mapboxUrl = `https://api.mapbox.com/search/searchbox/v1/suggest?access_token=${MAPBOX_SERVER_TOKEN}&q=${encodeURIComponent(query)}&session_token=${sessionToken}`;
-    
-    // Add optional parameters if provided
-    if (language) mapboxUrl += `&language=${language}`;
-    if (limit) mapboxUrl += `&limit=${limit}`;
-    if (country) mapboxUrl += `&country=${country}`;
-    if (proximity) mapboxUrl += `&proximity=${proximity}`;
-    if (types) mapboxUrl += `&types=${types}`;
-    
-    // Make the request to Mapbox API with all required headers
-    const response = await fetch(mapboxUrl, {
-      headers: {
-        'accept': '*/*',
-        'accept-language': 'en-US,en;q=0.9',
-        'cache-control': 'no-cache',
-        'origin': 'https://docs.mapbox.com',
-        'pragma': 'no-cache',
-        'referer': 'https://docs.mapbox.com/',
-        'sec-ch-ua': '"Not A(Brand";v="8", "Chromium";v="132", "Google Chrome";v="132"',
-        'sec-ch-ua-mobile': '?0',
-        'sec-ch-ua-platform': '"macOS"',
-        'sec-fetch-dest': 'empty',
-        'sec-fetch-mode': 'cors',
-        'sec-fetch-site': 'same-site',
-        'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/132.0.0.0 Safari/537.36'
+    // Request suggestions from the Mapbox API, with defaults for optional parameters
+    const raw = await mapboxGet<unknown>('/search/searchbox/v1/suggest', {
+      query: {
+        q: query,
+        session_token: sessionToken,
+        language: searchParams.get('language') || 'en',
+        limit: searchParams.get('limit') || '5',
+        country: searchParams.get('country') || 'US',
+        proximity: searchParams.get('proximity') || 'ip', // Default to IP-based proximity
+        types: searchParams.get('types') || 'address,place,poi'
       }
     });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Mapbox API error:', errorText);
-      return NextResponse.json(
-        { error: `Mapbox API error: ${response.status} ${response.statusText}` },
-        { status: response.status }
-      );
-    }
-    
-    // Get the data from the response
-    const data = await response.json();
+    const data = parseUpstreamCollection(searchSuggestResponseSchema, 'suggestions', raw, 'search suggest response', 'suggestion');
     
     // Return the data
     return NextResponse.json(data);
   } catch (error) {
-    console.error('Error in search API route:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return handleRouteError(error, 'search API route');
   }
 }
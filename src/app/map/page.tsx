@@ -1,6 +1,16 @@
-import React from 'react';
+"use client";
+
+import React, { useState } from 'react';
 import MapWrapper from '@/components/MapWrapper';
-import { ChargingStation } from '@/services/mapboxService';
+import { 
+  ChargingStation, 
+  StationFilters,
+  CHARGER_TYPE_FILTERS,
+  POWER_LEVEL_FILTERS,
+  NETWORK_FILTERS,
+  AVAILABILITY_FILTERS,
+  DEFAULT_STATION_FILTERS
+} from '@/services/mapbox';
 
 // Sample data for demonstration
 const sampleChargingStations: ChargingStation[] = [
@@ -10,9 +20,17 @@ const sampleChargingStations: ChargingStation[] = [
     lng: -74.0060,
     name: 'NYC Downtown Charging Hub',
     chargerType: ['CCS', 'CHAdeMO'],
-    powerLevel: 150, // 150 kW DC Fast Charging
+    powerLevel: 150000, // 150 kW DC Fast Charging
     network: 'Electrify America',
     available: true,
+    evseCount: 4,
+    availableEvseCount: 2,
+    status: 'AVAILABLE',
+    powerTypes: [{ powerType: 'DC', evseCount: 4, availableEvseCount: 2, maxPower: 150000 }],
+    connectorTypes: [
+      { standard: 'CCS', powerType: 'DC', maxPower: 150000 },
+      { standard: 'CHAdeMO', powerType: 'DC', maxPower: 50000 }
+    ],
     address: '123 Broadway, New York, NY 10007',
     city: 'New York',
     state: 'NY',
@@ -26,9 +44,14 @@ const sampleChargingStations: ChargingStation[] = [
     lng: -118.2437,
     name: 'LA Central Station',
     chargerType: ['Tesla Supercharger'],
-    powerLevel: 250, // 250 kW Supercharger
+    powerLevel: 250000, // 250 kW Supercharger
     network: 'Tesla',
     available: true,
+    evseCount: 8,
+    availableEvseCount: 8,
+    status: 'AVAILABLE',
+    powerTypes: [{ powerType: 'DC', evseCount: 8, availableEvseCount: 8, maxPower: 250000 }],
+    connectorTypes: [{ standard: 'Tesla Supercharger', powerType: 'DC', maxPower: 250000 }],
     address: '456 Grand Ave, Los Angeles, CA 90012',
     city: 'Los Angeles',
     state: 'CA',
@@ -42,9 +65,14 @@ const sampleChargingStations: ChargingStation[] = [
     lng: -87.6298,
     name: 'Chicago Loop Chargers',
     chargerType: ['J1772', 'CCS'],
-    powerLevel: 7.2, // 7.2 kW Level 2
+    powerLevel: 7200, // 7.2 kW Level 2
     network: 'ChargePoint',
     available: false,
+    evseCount: 2,
+    availableEvseCount: 0,
+    status: 'CHARGING',
+    powerTypes: [{ powerType: 'AC_1_PHASE', evseCount: 2, availableEvseCount: 0, maxPower: 7200 }],
+    connectorTypes: [{ standard: 'J1772', powerType: 'AC_1_PHASE', maxPower: 7200 }],
     address: '789 Michigan Ave, Chicago, IL 60601',
     city: 'Chicago',
     state: 'IL',
@@ -55,6 +83,19 @@ const sampleChargingStations: ChargingStation[] = [
 ];
 
 export default function MapPage() {
+  // Selected filter options, shared with the map so it can refetch and filter stations
+  const [filters, setFilters] = useState<StationFilters>(DEFAULT_STATION_FILTERS);
+
+  // Handle a filter checkbox change
+  const handleFilterChange = (group: 'chargerTypes' | 'powerLevels' | 'networks', key: string, checked: boolean) => {
+    setFilters(prev => ({
+      ...prev,
+      [group]: checked
+        ? [...prev[group], key]
+        : prev[group].filter(value => value !== key)
+    }));
+  };
+
   return (
     <div className="flex flex-col items-center py-8">
       <h1 className="text-4xl font-bold mb-6">Browse EV Charging Stations</h1>
@@ -76,79 +117,82 @@ export default function MapPage() {
           zoom={15}
           centerLat={38.9072} // Washington DC
           centerLng={-77.0369} // Washington DC
-          searchRadius={50} // 50km radius
           useRealData={true} // Use real data from the API
+          filters={filters}
         />
       </div>
 
-      <div className="w-full max-w-6xl grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+      <div className="w-full max-w-6xl grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <div className="bg-gray-100 dark:bg-gray-800 p-4 rounded-lg shadow-md">
+          <h3 className="text-xl font-semibold mb-3">Filter by Availability</h3>
+          <div className="space-y-2">
+            {AVAILABILITY_FILTERS.map(option => (
+              <div key={option.key} className="flex items-center">
+                <input 
+                  type="radio" 
+                  name="availability" 
+                  id={`availability-${option.key}`} 
+                  className="mr-2" 
+                  checked={filters.availability === option.key}
+                  onChange={() => setFilters(prev => ({ ...prev, availability: option.key }))}
+                />
+                <label htmlFor={`availability-${option.key}`}>{option.label}</label>
+              </div>
+            ))}
+          </div>
+        </div>
+
         <div className="bg-gray-100 dark:bg-gray-800 p-4 rounded-lg shadow-md">
           <h3 className="text-xl font-semibold mb-3">Filter by Charger Type</h3>
           <div className="space-y-2">
-            <div className="flex items-center">
-              <input type="checkbox" id="ccs" className="mr-2" />
-              <label htmlFor="ccs">CCS (Combined Charging System)</label>
-            </div>
-            <div className="flex items-center">
-              <input type="checkbox" id="chademo" className="mr-2" />
-              <label htmlFor="chademo">CHAdeMO</label>
-            </div>
-            <div className="flex items-center">
-              <input type="checkbox" id="j1772" className="mr-2" />
-              <label htmlFor="j1772">J1772</label>
-            </div>
-            <div className="flex items-center">
-              <input type="checkbox" id="tesla" className="mr-2" />
-              <label htmlFor="tesla">Tesla Supercharger</label>
-            </div>
-            <div className="flex items-center">
-              <input type="checkbox" id="nacs" className="mr-2" />
-              <label htmlFor="nacs">NACS</label>
-            </div>
+            {CHARGER_TYPE_FILTERS.map(option => (
+              <div key={option.key} className="flex items-center">
+                <input 
+                  type="checkbox" 
+                  id={`charger-${option.key}`} 
+                  className="mr-2" 
+                  checked={filters.chargerTypes.includes(option.key)}
+                  onChange={(e) => handleFilterChange('chargerTypes', option.key, e.target.checked)}
+                />
+                <label htmlFor={`charger-${option.key}`}>{option.label}</label>
+              </div>
+            ))}
           </div>
         </div>
 
         <div className="bg-gray-100 dark:bg-gray-800 p-4 rounded-lg shadow-md">
           <h3 className="text-xl font-semibold mb-3">Filter by Power Level</h3>
           <div className="space-y-2">
-            <div className="flex items-center">
-              <input type="checkbox" id="level1" className="mr-2" />
-              <label htmlFor="level1">Level 1 (120V)</label>
-            </div>
-            <div className="flex items-center">
-              <input type="checkbox" id="level2" className="mr-2" />
-              <label htmlFor="level2">Level 2 (240V)</label>
-            </div>
-            <div className="flex items-center">
-              <input type="checkbox" id="dcfc" className="mr-2" />
-              <label htmlFor="dcfc">DC Fast Charging</label>
-            </div>
+            {POWER_LEVEL_FILTERS.map(option => (
+              <div key={option.key} className="flex items-center">
+                <input 
+                  type="checkbox" 
+                  id={`power-${option.key}`} 
+                  className="mr-2" 
+                  checked={filters.powerLevels.includes(option.key)}
+                  onChange={(e) => handleFilterChange('powerLevels', option.key, e.target.checked)}
+                />
+                <label htmlFor={`power-${option.key}`}>{option.label}</label>
+              </div>
+            ))}
           </div>
         </div>
 
         <div className="bg-gray-100 dark:bg-gray-800 p-4 rounded-lg shadow-md">
           <h3 className="text-xl font-semibold mb-3">Filter by Network</h3>
           <div className="space-y-2">
-            <div className="flex items-center">
-              <input type="checkbox" id="electrifyAmerica" className="mr-2" />
-              <label htmlFor="electrifyAmerica">Electrify America</label>
-            </div>
-            <div className="flex items-center">
-              <input type="checkbox" id="chargepoint" className="mr-2" />
-              <label htmlFor="chargepoint">ChargePoint</label>
-            </div>
-            <div className="flex items-center">
-              <input type="checkbox" id="evgo" className="mr-2" />
-              <label htmlFor="evgo">EVgo</label>
-            </div>
-            <div className="flex items-center">
-              <input type="checkbox" id="tesla" className="mr-2" />
-              <label htmlFor="tesla">Tesla</label>
-            </div>
-            <div className="flex items-center">
-              <input type="checkbox" id="other" className="mr-2" />
-              <label htmlFor="other">Other</label>
-            </div>
+            {NETWORK_FILTERS.map(option => (
+              <div key={option.key} className="flex items-center">
+                <input 
+                  type="checkbox" 
+                  id={`network-${option.key}`} 
+                  className="mr-2" 
+                  checked={filters.networks.includes(option.key)}
+                  onChange={(e) => handleFilterChange('networks', option.key, e.target.checked)}
+                />
+                <label htmlFor={`network-${option.key}`}>{option.label}</label>
+              </div>
+            ))}
           </div>
         </div>
       </div>
@@ -156,8 +200,10 @@ export default function MapPage() {
       <div className="bg-gray-100 dark:bg-gray-800 p-6 rounded-lg shadow-md w-full max-w-6xl">
         <h2 className="text-2xl font-semibold mb-4">About This Map</h2>
         <p className="mb-4">
-          This map displays electric vehicle charging stations across the country. You can filter by charger type, 
-          power level, and network to find the stations that are compatible with your vehicle.
+          This map displays electric vehicle charging stations across the country. You can filter by availability, 
+          charger type, power level, and network to find the stations that are compatible with your vehicle. 
+          Markers are colored by the current status of their chargers, so a busy or out-of-service station 
+          can be told apart from an area without chargers.
         </p>
         <p>
           The data is regularly updated to ensure accuracy. In the future, we plan to add real-time availability 
@@ -1,16 +1,64 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import MapWrapper from '@/components/MapWrapper';
 import LocationSearch from '@/components/LocationSearch';
+import ChargeProfileChart from '@/components/ChargeProfileChart';
+import RouteItinerary from '@/components/RouteItinerary';
+import RouteExportMenu from '@/components/RouteExportMenu';
+import ChargingStopAlternatives from '@/components/ChargingStopAlternatives';
 import { 
   ChargingStation, 
-  calculateEvRoute, 
+  calculateEvRoutes, 
   formatDistance, 
   formatDuration,
+  formatEnergy,
   calculateTotalChargingTime,
+  calculateDrivingTime,
+  getArrivalCharge,
+  getTripLegs,
+  getItinerary,
+  getFerryCrossings,
+  getChargeProfile,
+  getChargingStopEnergy,
+  getPointAlongLine,
+  getRouteSchedule,
+  formatClockTime,
+  estimateChargingCost,
+  getTripChargingCost,
+  formatChargingCost,
+  formatTripChargingCost,
+  fetchStationTariffs,
+  getSwapRequest,
+  toPinnedChargingStation,
+  formatDurationChange,
+  parseTrack,
+  snapTrackToWaypoints,
+  toLocalTime,
+  DEPARTURE_MODES,
+  MAX_ROUTE_WAYPOINTS,
+  ROUTE_STYLES,
+  ROUTE_EXCLUSIONS,
   EvRoute,
-  EvVehicleParams
+  EvRouteRequest,
+  EvVehicleParams,
+  ChargingCost,
+  ChargingTariff,
+  ChargingWaypoint,
+  DepartureMode,
+  ImportedTrack,
+  RouteColorMode,
+  RouteExclusion,
+  RouteStep,
+  RouteTiming,
+  ChargeLevels,
+  CUSTOM_VEHICLE_ID,
+  DEFAULT_CHARGE_LEVELS,
+  DEFAULT_VEHICLE_PROFILE,
+  VEHICLE_PROFILES,
+  VEHICLE_CONNECTOR_OPTIONS,
+  getVehicleProfile,
+  getDefaultConnectorKeys
 } from '@/services/mapbox';
 import { LocationDetail } from '@/services/searchService';
 
@@ -18,6 +66,12 @@ export default function RoutesPage() {
   // State for selected locations
   const [startLocation, setStartLocation] = useState<LocationDetail | null>(null);
   const [endLocation, setEndLocation] = useState<LocationDetail | null>(null);
+  // Intermediate stops in visiting order; the ID keeps each search box in place when stops are removed
+  const [stops, setStops] = useState<Array<{ id: number; location: LocationDetail | null }>>([]);
+  const nextStopIdRef = useRef(0);
+  // Track imported from a GPX or GeoJSON file, planned along instead of the locations above
+  const [importedTrack, setImportedTrack] = useState<ImportedTrack | null>(null);
+  const [trackError, setTrackError] = useState<string | null>(null);
   
   // Default map center (will be updated when locations are selected)
   const [mapCenter, setMapCenter] = useState({
@@ -28,21 +82,53 @@ export default function RoutesPage() {
   const [mapZoom, setMapZoom] = useState(15);
   
 
-  // State for route data
-  const [route, setRoute] = useState<EvRoute | null>(null);
+  // State for route data: the routes to choose from and the index of the active one
+  const [routes, setRoutes] = useState<EvRoute[]>([]);
+  const [activeRouteIndex, setActiveRouteIndex] = useState(0);
+  const route = routes[activeRouteIndex] ?? null;
+  // Parameters the routes were calculated with, reused when a charging stop is swapped
+  const [routeRequest, setRouteRequest] = useState<EvRouteRequest | null>(null);
+  // Battery capacity and charge levels the routes were calculated with, for the charge chart
+  const [routeBatteryCapacity, setRouteBatteryCapacity] = useState<number>(DEFAULT_VEHICLE_PROFILE.batteryCapacity);
+  const [routeChargeLevels, setRouteChargeLevels] = useState<ChargeLevels>(DEFAULT_CHARGE_LEVELS);
+  // Distance along the active route hovered on the charge chart, in meters
+  const [hoverDistance, setHoverDistance] = useState<number | null>(null);
+  // What the route is colored by, kept here because the map is remounted when it moves to a step
+  const [routeColorMode, setRouteColorMode] = useState<RouteColorMode>('charge');
+  // Location of the itinerary step the map was last zoomed to
+  const [selectedStepLocation, setSelectedStepLocation] = useState<[number, number] | undefined>(undefined);
+  // Timing of the calculated route, and when it was calculated for routes that leave now
+  const [routeTiming, setRouteTiming] = useState<RouteTiming | undefined>(undefined);
+  const [routeCalculatedAt, setRouteCalculatedAt] = useState<Date>(() => new Date());
+  // Tariffs of the charging stops of the calculated routes by station ID, for the cost estimates
+  const [stationTariffs, setStationTariffs] = useState<Record<string, ChargingTariff[]>>({});
+  // Stations whose tariffs could not be fetched; they are left out of stationTariffs to be fetched again with the next route
+  const [failedTariffIds, setFailedTariffIds] = useState<string[]>([]);
+  // Connector types the routes were calculated with, for finding stations to charge at instead
+  const [routeConnectorTypes, setRouteConnectorTypes] = useState<string[]>([]);
+  // Change in total time from the last swap of a charging stop, in seconds; null if the route has no swap
+  const [swapTimeChange, setSwapTimeChange] = useState<number | null>(null);
+  // Names of the start, stops and destination of the calculated route, used to label its legs
+  const [routePointNames, setRoutePointNames] = useState<string[]>([]);
   const [isCalculatingRoute, setIsCalculatingRoute] = useState(false);
   const [routeError, setRouteError] = useState<string | null>(null);
   
   // State for vehicle parameters
   const [vehicleType, setVehicleType] = useState<string>('');
   const [vehicleRange, setVehicleRange] = useState<number>(150); // Lower default range to encourage charging stops
-  const [selectedConnectors, setSelectedConnectors] = useState<{[key: string]: boolean}>({
-    ccs: true,
-    chademo: false,
-    j1772: true,
-    tesla: false,
-    nacs: false
-  });
+  // Charge levels in percent of the battery capacity
+  const [initialCharge, setInitialCharge] = useState<number>(DEFAULT_CHARGE_LEVELS.initialCharge);
+  const [arrivalReserve, setArrivalReserve] = useState<number>(DEFAULT_CHARGE_LEVELS.minChargeAtDestination);
+  const [chargerReserve, setChargerReserve] = useState<number>(DEFAULT_CHARGE_LEVELS.minChargeAtStation);
+  // When to drive: now, or departing or arriving at a local time
+  const [departureMode, setDepartureMode] = useState<DepartureMode>('now');
+  const [departureTime, setDepartureTime] = useState<string>('');
+  // Keys of the checked options in VEHICLE_CONNECTOR_OPTIONS, defaulting to the vehicle's native connectors
+  const [selectedConnectors, setSelectedConnectors] = useState<string[]>(
+    getDefaultConnectorKeys(DEFAULT_VEHICLE_PROFILE)
+  );
+  // Road features to avoid, from ROUTE_EXCLUSIONS
+  const [exclusions, setExclusions] = useState<RouteExclusion[]>([]);
 
   // Handle location selection
   const handleStartLocationSelect = (location: LocationDetail) => {
@@ -55,6 +141,88 @@ export default function RoutesPage() {
     updateMapView(startLocation, location);
   };
   
+  // Stops with a selected location, in visiting order
+  const selectedStops = stops
+    .map(stop => stop.location)
+    .filter((location): location is LocationDetail => location !== null);
+  
+  // Start, intermediate destinations and end to plan the route through, as [longitude, latitude],
+  // with their names; an imported track takes the place of the locations entered above
+  const getRoutePoints = () => {
+    if (importedTrack) {
+      const { start, waypoints, end } = snapTrackToWaypoints(importedTrack);
+      const trackName = importedTrack.name || 'Imported track';
+      return {
+        start,
+        waypoints,
+        end,
+        names: [`${trackName} start`, ...waypoints.map((_point, index) => `${trackName} point ${index + 1}`), `${trackName} end`]
+      };
+    }
+    if (!startLocation || !endLocation) {
+      return null;
+    }
+    return {
+      start: [startLocation.coordinates.longitude, startLocation.coordinates.latitude] as [number, number],
+      waypoints: selectedStops.map((location): [number, number] => [location.coordinates.longitude, location.coordinates.latitude]),
+      end: [endLocation.coordinates.longitude, endLocation.coordinates.latitude] as [number, number],
+      names: [startLocation.name, ...selectedStops.map(location => location.name), endLocation.name]
+    };
+  };
+  const routePoints = getRoutePoints();
+  
+  // Trip legs of the calculated route, between the start, stops and destination
+  const tripLegs = route ? getTripLegs(route) : [];
+  // Ferry crossings of the calculated route
+  const ferryCrossings = route ? getFerryCrossings(route) : [];
+  
+  // Battery charge along the active route, and the map position of the distance hovered on its chart
+  const chargeProfile = route ? getChargeProfile(route, routeBatteryCapacity, routeChargeLevels.initialCharge) : [];
+  const highlightPosition = route && hoverDistance !== null && route.distance > 0
+    ? getPointAlongLine(route.geometry, hoverDistance / route.distance)
+    : selectedStepLocation;
+  
+  // Estimated times of the active route; stops and arrival are shown in the destination's time zone
+  const schedule = route ? getRouteSchedule(route, routeTiming, routeCalculatedAt) : undefined;
+  // Estimated cost of each charging stop of the active route: undefined while its tariffs load, null when
+  // unknown because the station has no tariff or its tariffs could not be fetched
+  const stopCosts = route
+    ? route.chargingWaypoints.map(stop => {
+      if (stop.stationId in stationTariffs) {
+        return estimateChargingCost(stop, stationTariffs[stop.stationId]);
+      }
+      return failedTariffIds.includes(stop.stationId) ? null : undefined;
+    })
+    : [];
+  const tripCost = stopCosts.includes(undefined) ? undefined : getTripChargingCost(stopCosts as Array<ChargingCost | null>);
+  
+  // Make another route active; the selected step belonged to the previous one
+  const handleRouteSelect = (index: number) => {
+    setActiveRouteIndex(index);
+    setSelectedStepLocation(undefined);
+  };
+  
+  // Zoom the map to a step of the itinerary
+  const handleStepClick = (step: RouteStep) => {
+    const [lng, lat] = step.maneuver.location;
+    setMapCenter({ lat, lng });
+    setMapZoom(15);
+    setSelectedStepLocation(step.maneuver.location);
+  };
+  
+  // Add an empty stop before the destination
+  const handleAddStop = () => {
+    setStops(prev => [...prev, { id: nextStopIdRef.current++, location: null }]);
+  };
+  
+  const handleRemoveStop = (id: number) => {
+    setStops(prev => prev.filter(stop => stop.id !== id));
+  };
+  
+  const handleStopSelect = (id: number, location: LocationDetail) => {
+    setStops(prev => prev.map(stop => stop.id === id ? { ...stop, location } : stop));
+  };
+  
   // Calculate distance between two points in kilometers using the Haversine formula
   const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
     const R = 6371; // Radius of the Earth in km
@@ -129,56 +297,167 @@ export default function RoutesPage() {
     }
   };
   
+  // Switch between leaving now and a chosen time, starting from the current time
+  const handleDepartureModeChange = (mode: DepartureMode) => {
+    setDepartureMode(mode);
+    if (mode !== 'now' && !departureTime) {
+      setDepartureTime(toLocalTime(new Date()));
+    }
+  };
+  
+  // Handle vehicle selection, checking the connectors the vehicle can use natively
+  const handleVehicleChange = (id: string) => {
+    setVehicleType(id);
+    const profile = getVehicleProfile(id);
+    if (profile) {
+      setSelectedConnectors(getDefaultConnectorKeys(profile));
+    }
+  };
+  
   // Handle connector type selection
-  const handleConnectorChange = (connectorType: string, checked: boolean) => {
-    setSelectedConnectors(prev => ({
-      ...prev,
-      [connectorType]: checked
-    }));
+  const handleConnectorChange = (key: string, checked: boolean) => {
+    setSelectedConnectors(prev => checked
+      ? [...prev, key]
+      : prev.filter(value => value !== key)
+    );
+  };
+  
+  // Handle avoidance option selection
+  const handleExclusionChange = (exclusion: RouteExclusion, checked: boolean) => {
+    setExclusions(prev => checked
+      ? [...prev, exclusion]
+      : prev.filter(value => value !== exclusion)
+    );
   };
   
-  // Calculate route when both locations are selected
+  // Load a GPX or GeoJSON track and frame it on the map
+  const handleTrackFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow the same file to be chosen again
+    if (!file) {
+      return;
+    }
+    
+    try {
+      const track = parseTrack(await file.text());
+      setImportedTrack(track);
+      setTrackError(null);
+      
+      // Center the map on the bounding box of the track
+      const longitudes = track.geometry.coordinates.map(([lng]) => lng);
+      const latitudes = track.geometry.coordinates.map(([, lat]) => lat);
+      const [minLng, maxLng] = [Math.min(...longitudes), Math.max(...longitudes)];
+      const [minLat, maxLat] = [Math.min(...latitudes), Math.max(...latitudes)];
+      setMapCenter({ lat: (minLat + maxLat) / 2, lng: (minLng + maxLng) / 2 });
+      setMapZoom(calculateZoomLevel(calculateDistance(minLat, minLng, maxLat, maxLng)));
+    } catch (error) {
+      setTrackError(error instanceof Error ? error.message : 'Could not read the track');
+    }
+  };
+  
+  // Calculate route when both locations are selected, or a track is imported
   const calculateRoute = async () => {
-    if (!startLocation || !endLocation) {
-      alert('Please select both a starting point and destination');
+    if (!routePoints) {
+      alert('Please select both a starting point and destination, or import a track');
+      return;
+    }
+    if (!importedTrack && stops.some(stop => !stop.location)) {
+      alert('Please select a location for every stop, or remove the empty ones');
       return;
     }
+    if (departureMode !== 'now' && !departureTime) {
+      alert('Please choose a departure or arrival time');
+      return;
+    }
+    
+    // Prepare vehicle parameters with valid Mapbox connector types
+    const connectorTypes = Array.from(new Set(
+      VEHICLE_CONNECTOR_OPTIONS
+        .filter(option => selectedConnectors.includes(option.key))
+        .map(option => option.connectorType)
+    ));
     
+    const vehicleParams: EvVehicleParams = {
+      vehicleType: vehicleType || undefined,
+      range: vehicleRange * 1609.34, // Convert miles to meters; only used for the custom vehicle
+      initialCharge, // Charge at departure (percentage units)
+      minCharge: arrivalReserve, // Don't arrive at the destination below this charge (percentage units)
+      minChargeAtStation: chargerReserve, // Don't arrive at a charger below this charge (percentage units)
+      maxCharge: DEFAULT_CHARGE_LEVELS.maxCharge, // Maximum charge capacity (percentage units)
+      connectorTypes: connectorTypes.length > 0 ? connectorTypes : undefined
+    };
+    
+    await requestRoutes({
+      start: routePoints.start,
+      end: routePoints.end,
+      waypoints: routePoints.waypoints,
+      vehicleParams,
+      timing: departureMode === 'now' ? undefined : { mode: departureMode, time: departureTime },
+      exclude: exclusions
+    }, { names: routePoints.names });
+  };
+  
+  // Calculate the routes of a request and show them; a swap passes the duration of the
+  // route it replaces to record the change in total time, and keeps the point names
+  const requestRoutes = async (request: EvRouteRequest, options: { names?: string[]; previousDuration?: number }) => {
     setIsCalculatingRoute(true);
     setRouteError(null);
     
     try {
-      
-      // Prepare vehicle parameters with valid Mapbox connector types
-      const connectorTypes: string[] = [];
-      if (selectedConnectors.ccs) connectorTypes.push('ccs_combo_type2');
-      if (selectedConnectors.chademo) connectorTypes.push('chademo');
-      if (selectedConnectors.j1772) connectorTypes.push('ccs_combo_type1');
-      if (selectedConnectors.tesla) connectorTypes.push('tesla');
-      // NACS is not directly supported by Mapbox API, map to Tesla
-      if (selectedConnectors.nacs) connectorTypes.push('tesla');
-      
-      const vehicleParams: EvVehicleParams = {
-        vehicleType: vehicleType || undefined,
-        range: vehicleRange * 1609.34, // Convert miles to meters
-        initialCharge: 10, // Start with 10% charge to encourage charging stops (percentage units)
-        minCharge: 10, // Don't go below 10% charge (percentage units)
-        maxCharge: 100, // Maximum charge capacity (percentage units)
-        connectorTypes: connectorTypes.length > 0 ? connectorTypes : undefined
-      };
-      
-      
       // Call the EV routing API
-      const routeResult = await calculateEvRoute(
-        startLocation.coordinates.latitude,
-        startLocation.coordinates.longitude,
-        endLocation.coordinates.latitude,
-        endLocation.coordinates.longitude,
-        vehicleParams
+      const routeResults = await calculateEvRoutes(
+        request.start[1],
+        request.start[0],
+        request.end[1],
+        request.end[0],
+        request.vehicleParams,
+        request.waypoints,
+        request.timing,
+        request.exclude
       );
       
-      if (routeResult) {
-        setRoute(routeResult);
+      if (routeResults.length > 0) {
+        const { vehicleParams } = request;
+        const profile = getVehicleProfile(vehicleParams.vehicleType) ?? DEFAULT_VEHICLE_PROFILE;
+        setRoutes(routeResults);
+        handleRouteSelect(0);
+        setRouteRequest(request);
+        setRouteBatteryCapacity(profile.batteryCapacity);
+        setRouteChargeLevels({
+          initialCharge: vehicleParams.initialCharge ?? DEFAULT_CHARGE_LEVELS.initialCharge,
+          minChargeAtDestination: vehicleParams.minCharge ?? DEFAULT_CHARGE_LEVELS.minChargeAtDestination,
+          minChargeAtStation: vehicleParams.minChargeAtStation ?? DEFAULT_CHARGE_LEVELS.minChargeAtStation,
+          maxCharge: vehicleParams.maxCharge ?? DEFAULT_CHARGE_LEVELS.maxCharge
+        });
+        if (options.names) {
+          setRoutePointNames(options.names);
+        }
+        setRouteTiming(request.timing);
+        setRouteCalculatedAt(new Date());
+        // Without connector types the route used the vehicle's native connectors
+        setRouteConnectorTypes(vehicleParams.connectorTypes ?? profile.connectorTypes);
+        setSwapTimeChange(options.previousDuration !== undefined ? routeResults[0].duration - options.previousDuration : null);
+        
+        // Tariffs of the charging stops, fetched without holding up the route
+        const stationIds = routeResults
+          .flatMap(item => item.chargingWaypoints.map(stop => stop.stationId))
+          .filter(id => !(id in stationTariffs));
+        if (stationIds.length > 0) {
+          setFailedTariffIds(prev => prev.filter(id => !stationIds.includes(id)));
+          fetchStationTariffs(stationIds).then(tariffs => {
+            const fetched: Record<string, ChargingTariff[]> = {};
+            const failed: string[] = [];
+            Object.entries(tariffs).forEach(([id, items]) => {
+              if (items) {
+                fetched[id] = items;
+              } else {
+                failed.push(id);
+              }
+            });
+            setStationTariffs(prev => ({ ...prev, ...fetched }));
+            setFailedTariffIds(prev => [...prev, ...failed]);
+          });
+        }
       } else {
         setRouteError('Could not calculate a route with the given parameters. Try adjusting your vehicle range or connector types.');
       }
@@ -190,6 +469,18 @@ export default function RoutesPage() {
     }
   };
   
+  // Recalculate the active route charging at another station instead of one of its stops,
+  // with the parameters it was calculated with rather than the current form
+  const handleStationSwap = (stop: ChargingWaypoint, station: ChargingStation) => {
+    if (!route || !routeRequest) {
+      return;
+    }
+    requestRoutes(
+      getSwapRequest(routeRequest, route, stop, toPinnedChargingStation(station, routeConnectorTypes)),
+      { previousDuration: route.duration }
+    );
+  };
+  
   return (
     <div className="flex flex-col items-center py-8">
       <h1 className="text-4xl font-bold mb-6">Plan Your EV Route</h1>
@@ -214,110 +505,230 @@ export default function RoutesPage() {
               onLocationSelect={handleStartLocationSelect}
             />
             
+            {stops.map((stop, index) => (
+              <div key={stop.id} className="flex items-end gap-2">
+                <div className="flex-1">
+                  <LocationSearch
+                    label={`Stop ${index + 1}`}
+                    placeholder="Enter a stop along the way"
+                    onLocationSelect={(location) => handleStopSelect(stop.id, location)}
+                  />
+                </div>
+                <button 
+                  type="button"
+                  className="p-2 text-sm text-red-600 dark:text-red-400 hover:underline"
+                  onClick={() => handleRemoveStop(stop.id)}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            
+            {stops.length < MAX_ROUTE_WAYPOINTS && (
+              <button 
+                type="button"
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                onClick={handleAddStop}
+              >
+                + Add a stop
+              </button>
+            )}
+            
             <LocationSearch
               label="Destination"
               placeholder="Enter destination address or city"
               onLocationSelect={handleEndLocationSelect}
             />
 
+            <div>
+              <label htmlFor="trackFile" className="block mb-1 font-medium">Or Import a Track</label>
+              <input
+                id="trackFile"
+                type="file"
+                accept=".gpx,.geojson,.json"
+                className="w-full text-sm"
+                onChange={handleTrackFileChange}
+              />
+              {importedTrack ? (
+                <div className="mt-2 flex items-center gap-2 text-sm">
+                  <span className="inline-block w-4 h-1 rounded bg-purple-600" aria-hidden="true" />
+                  <span className="flex-1 truncate">
+                    {importedTrack.name || 'Imported track'} ({importedTrack.geometry.coordinates.length} points)
+                  </span>
+                  <button
+                    type="button"
+                    className="text-red-600 dark:text-red-400 hover:underline"
+                    onClick={() => setImportedTrack(null)}
+                  >
+                    Clear
+                  </button>
+                </div>
+              ) : (
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  A GPX track or GeoJSON LineString. The route follows it through up to {MAX_ROUTE_WAYPOINTS} points along the way, in place of the locations above.
+                </div>
+              )}
+              {trackError && (
+                <div className="mt-1 text-xs text-red-600 dark:text-red-400">{trackError}</div>
+              )}
+            </div>
+
             <div>
               <label htmlFor="vehicle" className="block mb-1 font-medium">Vehicle Type</label>
               <select 
                 id="vehicle" 
                 className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700"
                 value={vehicleType}
-                onChange={(e) => setVehicleType(e.target.value)}
+                onChange={(e) => handleVehicleChange(e.target.value)}
               >
                 <option value="">Select your vehicle</option>
-                <option value="tesla_model3">Tesla Model 3</option>
-                <option value="tesla_modely">Tesla Model Y</option>
-                <option value="chevy_bolt">Chevy Bolt</option>
-                <option value="nissan_leaf">Nissan Leaf</option>
-                <option value="ford_mach_e">Ford Mustang Mach-E</option>
-                <option value="hyundai_ioniq5">Hyundai IONIQ 5</option>
-                <option value="kia_ev6">Kia EV6</option>
-                <option value="rivian_r1t">Rivian R1T</option>
-                <option value="other">Other (Custom Range)</option>
+                {VEHICLE_PROFILES.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+                <option value={CUSTOM_VEHICLE_ID}>Other (Custom Range)</option>
               </select>
             </div>
 
+            {/* Selected vehicles have their own consumption, so the range only applies to the custom vehicle */}
+            {(!vehicleType || vehicleType === CUSTOM_VEHICLE_ID) && (
+              <div>
+                <label htmlFor="range" className="block mb-1 font-medium">Vehicle Range (miles)</label>
+                <input 
+                  type="number" 
+                  id="range" 
+                  placeholder="Enter range in miles" 
+                  className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700"
+                  value={vehicleRange}
+                  onChange={(e) => setVehicleRange(Number(e.target.value))}
+                  min={50}
+                  max={500}
+                />
+              </div>
+            )}
+
             <div>
-              <label htmlFor="range" className="block mb-1 font-medium">Vehicle Range (miles)</label>
+              <label htmlFor="initialCharge" className="block mb-1 font-medium">Starting Charge: {initialCharge}%</label>
               <input 
-                type="number" 
-                id="range" 
-                placeholder="Enter range in miles" 
-                className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700"
-                value={vehicleRange}
-                onChange={(e) => setVehicleRange(Number(e.target.value))}
-                min={50}
-                max={500}
+                type="range" 
+                id="initialCharge" 
+                className="w-full" 
+                value={initialCharge}
+                onChange={(e) => setInitialCharge(Number(e.target.value))}
+                min={5}
+                max={100}
+                step={5}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="arrivalReserve" className="block mb-1 font-medium">Arrival Reserve: {arrivalReserve}%</label>
+              <input 
+                type="range" 
+                id="arrivalReserve" 
+                className="w-full" 
+                value={arrivalReserve}
+                onChange={(e) => setArrivalReserve(Number(e.target.value))}
+                min={0}
+                max={50}
+                step={5}
+              />
+              <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Minimum charge left when you reach your destination.
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="chargerReserve" className="block mb-1 font-medium">Charger Reserve: {chargerReserve}%</label>
+              <input 
+                type="range" 
+                id="chargerReserve" 
+                className="w-full" 
+                value={chargerReserve}
+                onChange={(e) => setChargerReserve(Number(e.target.value))}
+                min={0}
+                max={50}
+                step={5}
               />
+              <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Minimum charge left when you arrive at a charging stop.
+              </div>
             </div>
 
             <div>
               <label htmlFor="chargerTypes" className="block mb-1 font-medium">Compatible Charger Types</label>
               <div className="space-y-1">
-                <div className="flex items-center">
-                  <input 
-                    type="checkbox" 
-                    id="ccs" 
-                    className="mr-2" 
-                    checked={selectedConnectors.ccs}
-                    onChange={(e) => handleConnectorChange('ccs', e.target.checked)}
-                  />
-                  <label htmlFor="ccs">CCS Combo Type 2 (European)</label>
-                </div>
-                <div className="flex items-center">
-                  <input 
-                    type="checkbox" 
-                    id="chademo" 
-                    className="mr-2" 
-                    checked={selectedConnectors.chademo}
-                    onChange={(e) => handleConnectorChange('chademo', e.target.checked)}
-                  />
-                  <label htmlFor="chademo">CHAdeMO</label>
-                </div>
-                <div className="flex items-center">
-                  <input 
-                    type="checkbox" 
-                    id="j1772" 
-                    className="mr-2" 
-                    checked={selectedConnectors.j1772}
-                    onChange={(e) => handleConnectorChange('j1772', e.target.checked)}
-                  />
-                  <label htmlFor="j1772">CCS Combo Type 1 (J-plug)</label>
-                </div>
-                <div className="flex items-center">
-                  <input 
-                    type="checkbox" 
-                    id="tesla" 
-                    className="mr-2" 
-                    checked={selectedConnectors.tesla}
-                    onChange={(e) => handleConnectorChange('tesla', e.target.checked)}
-                  />
-                  <label htmlFor="tesla">Tesla</label>
-                </div>
-                <div className="flex items-center">
-                  <input 
-                    type="checkbox" 
-                    id="nacs" 
-                    className="mr-2" 
-                    checked={selectedConnectors.nacs}
-                    onChange={(e) => handleConnectorChange('nacs', e.target.checked)}
-                  />
-                  <label htmlFor="nacs">NACS (Maps to Tesla)</label>
-                </div>
+                {VEHICLE_CONNECTOR_OPTIONS.map(option => (
+                  <div key={option.key} className="flex items-center">
+                    <input 
+                      type="checkbox" 
+                      id={option.key} 
+                      className="mr-2" 
+                      checked={selectedConnectors.includes(option.key)}
+                      onChange={(e) => handleConnectorChange(option.key, e.target.checked)}
+                    />
+                    <label htmlFor={option.key}>{option.label}</label>
+                  </div>
+                ))}
               </div>
               <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
                 Note: Mapbox API supports ccs_combo_type1, ccs_combo_type2, tesla, and chademo connector types.
               </div>
             </div>
 
+            <div>
+              <label htmlFor="avoid" className="block mb-1 font-medium">Avoid</label>
+              <div className="space-y-1">
+                {ROUTE_EXCLUSIONS.map(option => (
+                  <div key={option.exclusion} className="flex items-center">
+                    <input 
+                      type="checkbox" 
+                      id={`avoid-${option.exclusion}`} 
+                      className="mr-2" 
+                      checked={exclusions.includes(option.exclusion)}
+                      onChange={(e) => handleExclusionChange(option.exclusion, e.target.checked)}
+                    />
+                    <label htmlFor={`avoid-${option.exclusion}`}>{option.label}</label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="departureMode" className="block mb-1 font-medium">Departure</label>
+              <div className="flex gap-2">
+                <select 
+                  id="departureMode" 
+                  className="p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700"
+                  value={departureMode}
+                  onChange={(e) => handleDepartureModeChange(e.target.value as DepartureMode)}
+                >
+                  {DEPARTURE_MODES.map(option => (
+                    <option key={option.mode} value={option.mode}>{option.label}</option>
+                  ))}
+                </select>
+                {departureMode !== 'now' && (
+                  <input 
+                    type="datetime-local" 
+                    aria-label={departureMode === 'depart_at' ? 'Departure time' : 'Arrival time'}
+                    className="flex-1 min-w-0 p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700"
+                    value={departureTime}
+                    onChange={(e) => setDepartureTime(e.target.value)}
+                  />
+                )}
+              </div>
+              {departureMode !== 'now' && (
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {departureMode === 'depart_at'
+                    ? 'Local time at the starting point. The route accounts for the traffic expected then.'
+                    : 'Local time at the destination.'}
+                </div>
+              )}
+            </div>
+
             <button 
               className="w-full bg-foreground text-background py-2 rounded-md hover:bg-opacity-90 transition-colors"
-              onClick={calculateRoute}
-              disabled={!startLocation || !endLocation}
+              onClick={() => calculateRoute()}
+              disabled={!routePoints}
             >
               Calculate Route
             </button>
@@ -334,17 +745,33 @@ export default function RoutesPage() {
               centerLat={mapCenter.lat}
               centerLng={mapCenter.lng}
               zoom={mapZoom}
-              searchRadius={50} // 50km radius
               useRealData={true} // Use real data from the API
               route={route || undefined}
-              startPoint={startLocation ? [startLocation.coordinates.longitude, startLocation.coordinates.latitude] : undefined}
-              endPoint={endLocation ? [endLocation.coordinates.longitude, endLocation.coordinates.latitude] : undefined}
+              routes={routes}
+              onRouteSelect={handleRouteSelect}
+              startPoint={routePoints?.start ?? (startLocation ? [startLocation.coordinates.longitude, startLocation.coordinates.latitude] : undefined)}
+              endPoint={routePoints?.end ?? (endLocation ? [endLocation.coordinates.longitude, endLocation.coordinates.latitude] : undefined)}
+              waypoints={routePoints?.waypoints ?? selectedStops.map(location => [location.coordinates.longitude, location.coordinates.latitude])}
+              importedTrack={importedTrack?.geometry}
+              highlightPosition={highlightPosition}
+              chargeLevels={routeChargeLevels}
+              routeColorMode={routeColorMode}
+              onRouteColorModeChange={setRouteColorMode}
             />
           </div>
 
           {/* Route summary section */}
           <div className="bg-gray-100 dark:bg-gray-800 p-6 rounded-lg shadow-md">
-            <h3 className="text-xl font-semibold mb-3">Route Summary</h3>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-xl font-semibold">Route Summary</h3>
+              {!isCalculatingRoute && route && (
+                <RouteExportMenu
+                  route={route}
+                  name={routePointNames.length > 1 ? `${routePointNames[0]} to ${routePointNames[routePointNames.length - 1]}` : undefined}
+                  pointNames={routePointNames}
+                />
+              )}
+            </div>
             
             {isCalculatingRoute && (
               <div className="flex justify-center items-center py-8">
@@ -361,6 +788,50 @@ export default function RoutesPage() {
             
             {!isCalculatingRoute && !routeError && route && (
               <div className="space-y-4">
+                {/* Comparison of the alternatives; clicking a row makes that route active */}
+                {routes.length > 1 && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left border-b border-gray-300 dark:border-gray-600">
+                          <th className="py-2 pr-2 font-semibold">Route</th>
+                          <th className="py-2 pr-2 font-semibold">Drive Time</th>
+                          <th className="py-2 pr-2 font-semibold">Charging Time</th>
+                          <th className="py-2 pr-2 font-semibold">Stops</th>
+                          <th className="py-2 font-semibold">Arrival Charge</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {routes.map((item, index) => {
+                          const arrivalCharge = getArrivalCharge(item);
+                          return (
+                            <tr 
+                              key={index}
+                              className={`cursor-pointer border-b border-gray-200 dark:border-gray-700 ${
+                                index === activeRouteIndex ? 'bg-white dark:bg-gray-700 font-medium' : 'hover:bg-gray-200 dark:hover:bg-gray-700'
+                              }`}
+                              onClick={() => handleRouteSelect(index)}
+                              aria-selected={index === activeRouteIndex}
+                            >
+                              <td className="py-2 pr-2">
+                                <span 
+                                  className="inline-block w-3 h-3 rounded-full mr-2 align-middle"
+                                  style={{ backgroundColor: `rgb(${ROUTE_STYLES[index].color.join(',')})` }}
+                                />
+                                {ROUTE_STYLES[index].label}
+                              </td>
+                              <td className="py-2 pr-2">{formatDuration(calculateDrivingTime(item))}</td>
+                              <td className="py-2 pr-2">{formatDuration(calculateTotalChargingTime(item))}</td>
+                              <td className="py-2 pr-2">{item.chargingWaypoints.length}</td>
+                              <td className="py-2">{arrivalCharge !== undefined ? `${Math.round(arrivalCharge)}%` : '--'}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                
                 <div className="flex justify-between">
                   <span>Total Distance:</span>
                   <span className="font-medium">{formatDistance(route.distance)}</span>
@@ -369,6 +840,18 @@ export default function RoutesPage() {
                   <span>Estimated Travel Time:</span>
                   <span className="font-medium">{formatDuration(route.duration)}</span>
                 </div>
+                {schedule && (
+                  <>
+                    <div className="flex justify-between">
+                      <span>Departure:</span>
+                      <span className="font-medium">{formatClockTime(schedule.departure, route.timeZones?.origin)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Estimated Arrival:</span>
+                      <span className="font-medium">{formatClockTime(schedule.arrival, route.timeZones?.destination)}</span>
+                    </div>
+                  </>
+                )}
                 <div className="flex justify-between">
                   <span>Number of Charging Stops:</span>
                   <span className="font-medium">{route.chargingWaypoints.length}</span>
@@ -377,6 +860,65 @@ export default function RoutesPage() {
                   <span>Total Charging Time:</span>
                   <span className="font-medium">{formatDuration(calculateTotalChargingTime(route))}</span>
                 </div>
+                {ferryCrossings.length > 0 && (
+                  <div className="flex justify-between">
+                    <span>⛴ Ferry Crossings:</span>
+                    <span className="font-medium">
+                      {ferryCrossings.length} ({formatDuration(ferryCrossings.reduce((total, crossing) => total + crossing.duration, 0))})
+                    </span>
+                  </div>
+                )}
+                {route.chargingWaypoints.length > 0 && (
+                  <div className="flex justify-between">
+                    <span>Estimated Charging Cost:</span>
+                    <span className="font-medium text-right">{tripCost ? formatTripChargingCost(tripCost) : 'Loading...'}</span>
+                  </div>
+                )}
+                
+                {/* Breakdown per leg between the start, stops and destination */}
+                {tripLegs.length > 1 && (
+                  <div className="pt-2">
+                    <h4 className="font-semibold mb-2">Trip Legs</h4>
+                    <div className="space-y-2">
+                      {tripLegs.map((leg, index) => (
+                        <div key={index} className="bg-white dark:bg-gray-700 p-3 rounded-md shadow-sm text-sm">
+                          <div className="font-medium mb-1">
+                            {routePointNames[index] && routePointNames[index + 1]
+                              ? `${routePointNames[index]} → ${routePointNames[index + 1]}`
+                              : `Leg ${index + 1}`}
+                          </div>
+                          <div className="grid grid-cols-2 gap-1">
+                            <div>Distance:</div>
+                            <div>{formatDistance(leg.distance)}</div>
+                            
+                            <div>Driving Time:</div>
+                            <div>{formatDuration(leg.duration)}</div>
+                            
+                            <div>Charging Stops:</div>
+                            <div>
+                              {leg.chargingStops.length}
+                              {leg.chargingStops.length > 0 && ` (${formatDuration(leg.chargingTime)})`}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                
+                {/* Battery charge along the route; hovering it highlights the position on the map */}
+                {chargeProfile.length > 1 && (
+                  <div className="pt-2">
+                    <h4 className="font-semibold mb-2">Battery Level</h4>
+                    <ChargeProfileChart
+                      profile={chargeProfile}
+                      totalDistance={route.distance}
+                      chargerReserve={routeChargeLevels.minChargeAtStation}
+                      arrivalReserve={routeChargeLevels.minChargeAtDestination}
+                      onHover={setHoverDistance}
+                    />
+                  </div>
+                )}
               </div>
             )}
             
@@ -405,33 +947,87 @@ export default function RoutesPage() {
             
             {!isCalculatingRoute && route && route.chargingWaypoints.length > 0 ? (
               <div className="space-y-4">
-                {route.chargingWaypoints.map((waypoint, index) => (
-                  <div key={index} className="bg-white dark:bg-gray-700 p-4 rounded-md shadow-sm">
-                    <div className="font-medium text-lg">{waypoint.name}</div>
-                    <div className="grid grid-cols-2 gap-2 mt-2 text-sm">
-                      <div>Charging Time:</div>
-                      <div>{formatDuration(waypoint.chargeTime)}</div>
-                      
-                      <div>Charge At Arrival:</div>
-                      <div>{Math.round(waypoint.chargeAtArrival)} kWh</div>
-                      
-                      <div>Charge To:</div>
-                      <div>{Math.round(waypoint.chargeTo)} kWh</div>
-                      
-                      <div>Connector Type:</div>
-                      <div className="capitalize">{waypoint.plugType.replace(/_/g, ' ')}</div>
+                {swapTimeChange !== null && (
+                  <div className="p-3 rounded-md bg-blue-50 dark:bg-blue-900 text-sm text-blue-800 dark:text-blue-200">
+                    Total time with your chosen station: {formatDuration(route.duration)} ({formatDurationChange(swapTimeChange)})
+                  </div>
+                )}
+                {route.chargingWaypoints.map((waypoint, index) => {
+                  const stopTimes = schedule?.chargingStops.find(item => item.chargingStop === waypoint);
+                  const energy = getChargingStopEnergy(waypoint, routeBatteryCapacity);
+                  return (
+                    <div key={`${waypoint.stationId}-${index}`} className="bg-white dark:bg-gray-700 p-4 rounded-md shadow-sm">
+                      <div className="font-medium text-lg">
+                        {waypoint.name}
+                        {waypoint.pinned && (
+                          <span className="ml-2 align-middle text-xs font-normal px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-800 text-blue-800 dark:text-blue-200">
+                            Your choice
+                          </span>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-2 gap-2 mt-2 text-sm">
+                        {stopTimes && (
+                          <>
+                            <div>Estimated Arrival:</div>
+                            <div>{formatClockTime(stopTimes.arrival, route.timeZones?.destination)}</div>
+                            
+                            <div>Departure:</div>
+                            <div>{formatClockTime(stopTimes.departure, route.timeZones?.destination)}</div>
+                          </>
+                        )}
+                        
+                        <div>Charging Time:</div>
+                        <div>{formatDuration(waypoint.chargeTime)}</div>
+                        
+                        <div>Estimated Cost:</div>
+                        <div>
+                          {stopCosts[index] === undefined
+                            ? 'Loading...'
+                            : stopCosts[index] === null
+                              ? failedTariffIds.includes(waypoint.stationId) ? 'Unavailable (tariffs could not be loaded)' : 'Unknown (no tariff)'
+                              : formatChargingCost(stopCosts[index])}
+                        </div>
+                        
+                        <div>Battery On Arrival:</div>
+                        <div>{Math.round(energy.arrivalPercent)}% ({formatEnergy(energy.arrivalWh)})</div>
+                        
+                        <div>Battery On Departure:</div>
+                        <div>{Math.round(energy.departurePercent)}% ({formatEnergy(energy.departureWh)})</div>
+                        
+                        <div>Energy Added:</div>
+                        <div>{formatEnergy(energy.energyAddedWh)}</div>
+                        
+                        <div>Average Power:</div>
+                        <div>{energy.averagePowerKw !== undefined ? `${Math.round(energy.averagePowerKw)} kW` : '--'}</div>
+                        
+                        <div>Connector Type:</div>
+                        <div className="capitalize">{waypoint.plugType.replace(/_/g, ' ')}</div>
+                        
+                        <div>Max Power:</div>
+                        <div>{waypoint.powerKw} kW</div>
+                      </div>
                       
-                      <div>Power:</div>
-                      <div>{waypoint.powerKw} kW</div>
+                      <ChargingStopAlternatives
+                        stop={waypoint}
+                        connectorTypes={routeConnectorTypes}
+                        onSelect={(station) => handleStationSwap(waypoint, station)}
+                        disabled={isCalculatingRoute}
+                      />
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             ) : (
               <p className="text-gray-500 dark:text-gray-400 italic">
                 {isCalculatingRoute ? 'Calculating charging stops...' : 'Enter a route to see recommended charging stops'}
               </p>
             )}
+            
+            {!isCalculatingRoute && route && (
+              <div className="mt-6">
+                <RouteItinerary legs={getItinerary(route)} onStepClick={handleStepClick} />
+              </div>
+            )}
           </div>
         </div>
       </div>
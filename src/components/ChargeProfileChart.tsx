@@ -0,0 +1,188 @@
+"use client";
+
+import React, { useState } from 'react';
+import { ChargeProfilePoint, formatDistance, getChargeAt } from '@/services/mapbox';
+
+interface ChargeProfileChartProps {
+  /** Battery charge along the route, from getChargeProfile */
+  profile: ChargeProfilePoint[];
+  /** Total distance of the route in meters */
+  totalDistance: number;
+  /** Minimum charge on arrival at chargers, in percent */
+  chargerReserve: number;
+  /** Minimum charge on arrival at the destination, in percent */
+  arrivalReserve: number;
+  /** Optional callback with the hovered distance in meters, or null when the pointer leaves the chart */
+  onHover?: (distance: number | null) => void;
+}
+
+// Chart size in SVG units; the chart scales to the width of its container
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 36 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+// Charge levels with a gridline and a label
+const CHARGE_GRID = [0, 25, 50, 75, 100];
+
+/**
+ * ChargeProfileChart - Battery charge versus distance along a route
+ *
+ * Charging stops show as vertical jumps, and the reserve the route planner
+ * keeps is drawn as a dashed line: the charger reserve up to the last
+ * charging stop, then the arrival reserve.
+ */
+const ChargeProfileChart: React.FC<ChargeProfileChartProps> = ({
+  profile,
+  totalDistance,
+  chargerReserve,
+  arrivalReserve,
+  onHover
+}) => {
+  const [hoverDistance, setHoverDistance] = useState<number | null>(null);
+
+  if (profile.length === 0 || totalDistance <= 0) {
+    return null;
+  }
+
+  const toX = (distance: number) => PADDING.left + Math.min(1, Math.max(0, distance / totalDistance)) * PLOT_WIDTH;
+  const toY = (charge: number) => PADDING.top + (1 - charge / 100) * PLOT_HEIGHT;
+
+  const chargingStops = profile.filter(point => point.chargingStop);
+  const lastStopDistance = chargingStops.length > 0 ? chargingStops[chargingStops.length - 1].distance : 0;
+  const hoverCharge = hoverDistance !== null ? getChargeAt(profile, hoverDistance) : undefined;
+
+  // Reports the distance under the pointer
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = (event.clientX - rect.left) / rect.width * WIDTH;
+    const distance = Math.min(1, Math.max(0, (x - PADDING.left) / PLOT_WIDTH)) * totalDistance;
+    setHoverDistance(distance);
+    onHover?.(distance);
+  };
+
+  const handleMouseLeave = () => {
+    setHoverDistance(null);
+    onHover?.(null);
+  };
+
+  return (
+    <div className="w-full">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto text-gray-500 dark:text-gray-400"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={handleMouseLeave}
+        role="img"
+        aria-label="Battery charge along the route"
+      >
+        {/* Charge gridlines */}
+        {CHARGE_GRID.map(charge => (
+          <g key={charge}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={toY(charge)}
+              y2={toY(charge)}
+              stroke="currentColor"
+              strokeOpacity={0.2}
+            />
+            <text x={PADDING.left - 6} y={toY(charge) + 4} textAnchor="end" fontSize={11} fill="currentColor">
+              {charge}%
+            </text>
+          </g>
+        ))}
+
+        {/* Distance labels */}
+        <text x={PADDING.left} y={HEIGHT - 6} fontSize={11} fill="currentColor">
+          {formatDistance(0)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" fontSize={11} fill="currentColor">
+          {formatDistance(totalDistance)}
+        </text>
+
+        {/* Reserve threshold */}
+        <polyline
+          points={[
+            `${toX(0)},${toY(chargerReserve)}`,
+            `${toX(lastStopDistance)},${toY(chargerReserve)}`,
+            `${toX(lastStopDistance)},${toY(arrivalReserve)}`,
+            `${toX(totalDistance)},${toY(arrivalReserve)}`
+          ].join(' ')}
+          fill="none"
+          stroke="rgb(231, 76, 60)"
+          strokeWidth={1.5}
+          strokeDasharray="6 4"
+        />
+
+        {/* Battery charge */}
+        <polyline
+          points={profile.map(point => `${toX(point.distance)},${toY(point.charge)}`).join(' ')}
+          fill="none"
+          stroke="rgb(0, 100, 255)"
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+
+        {/* Charging stops, at the top of each jump */}
+        {chargingStops.map((point, index) => (
+          <circle
+            key={index}
+            cx={toX(point.distance)}
+            cy={toY(point.charge)}
+            r={4}
+            fill="rgb(46, 204, 113)"
+            stroke="white"
+            strokeWidth={1.5}
+          >
+            <title>{point.chargingStop?.name}</title>
+          </circle>
+        ))}
+
+        {/* Hovered position */}
+        {hoverDistance !== null && hoverCharge !== undefined && (
+          <g>
+            <line
+              x1={toX(hoverDistance)}
+              x2={toX(hoverDistance)}
+              y1={PADDING.top}
+              y2={HEIGHT - PADDING.bottom}
+              stroke="currentColor"
+              strokeOpacity={0.6}
+            />
+            <circle cx={toX(hoverDistance)} cy={toY(hoverCharge)} r={4} fill="rgb(0, 100, 255)" />
+            <text
+              x={toX(hoverDistance) + (hoverDistance > totalDistance / 2 ? -6 : 6)}
+              y={PADDING.top + 12}
+              textAnchor={hoverDistance > totalDistance / 2 ? 'end' : 'start'}
+              fontSize={11}
+              fill="currentColor"
+            >
+              {formatDistance(hoverDistance)} · {Math.round(hoverCharge)}%
+            </text>
+          </g>
+        )}
+      </svg>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+        <span className="flex items-center">
+          <span className="inline-block w-4 h-0.5 mr-1" style={{ backgroundColor: 'rgb(0, 100, 255)' }} />
+          Battery charge
+        </span>
+        <span className="flex items-center">
+          <span className="inline-block w-4 mr-1 border-t-2 border-dashed" style={{ borderColor: 'rgb(231, 76, 60)' }} />
+          Reserve
+        </span>
+        {chargingStops.length > 0 && (
+          <span className="flex items-center">
+            <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: 'rgb(46, 204, 113)' }} />
+            Charging stop
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChargeProfileChart;
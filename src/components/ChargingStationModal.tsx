@@ -1,7 +1,7 @@
 "use client";
 
 import React from 'react';
-import { ChargingStationDetails } from '@/services/mapbox';
+import { ChargingStationDetails, formatStationStatus } from '@/services/mapbox';
 
 interface ChargingStationModalProps {
   station: ChargingStationDetails | null;
@@ -57,20 +57,6 @@ const ChargingStationModal: React.FC<ChargingStationModalProps> = ({ station, is
     return formats[format] || format;
   };
 
-  // Helper function to format status to be more readable
-  const formatStatus = (status: string): string => {
-    const statuses: Record<string, string> = {
-      'AVAILABLE': 'Available',
-      'CHARGING': 'In Use',
-      'OCCUPIED': 'Occupied',
-      'RESERVED': 'Reserved',
-      'UNAVAILABLE': 'Unavailable',
-      'UNKNOWN': 'Unknown'
-    };
-    
-    return statuses[status] || status;
-  };
-
   // Helper function to get status color
   const getStatusColor = (status: string): string => {
     const colors: Record<string, string> = {
@@ -167,7 +153,7 @@ const ChargingStationModal: React.FC<ChargingStationModalProps> = ({ station, is
                 <div className="flex justify-between items-center mb-3">
                   <span className="font-medium">Charging Point #{evse.uid}</span>
                   <span className={`font-medium ${getStatusColor(evse.status)}`}>
-                    {formatStatus(evse.status)}
+                    {formatStationStatus(evse.status)}
                   </span>
                 </div>
                 
@@ -241,7 +227,7 @@ const ChargingStationModal: React.FC<ChargingStationModalProps> = ({ station, is
                             ) : component.type === 'FLAT' ? (
                               <p>Flat fee: {formatPrice(component.price, tariff.currency)}</p>
                             ) : component.type === 'TIME' ? (
-                              <p>Per minute: {formatPrice(component.price, tariff.currency)}</p>
+                              <p>Per hour: {formatPrice(component.price, tariff.currency)}</p>
                             ) : component.type === 'ENERGY' ? (
                               <p>Per kWh: {formatPrice(component.price, tariff.currency)}</p>
                             ) : (
@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  ALTERNATIVE_STATION_RADIUS_KM,
+  ChargingStation,
+  ChargingWaypoint,
+  formatStationStatus,
+  getAlternativeStations,
+  requestChargingStations,
+  toConnectorStandards
+} from '@/services/mapbox';
+
+interface ChargingStopAlternativesProps {
+  /** The charging stop to replace */
+  stop: ChargingWaypoint;
+  /** Directions API connector types the route was calculated with */
+  connectorTypes: string[];
+  /** Callback when a station is chosen instead of the stop */
+  onSelect: (station: ChargingStation) => void;
+  /** Disables choosing while a route is being calculated */
+  disabled?: boolean;
+}
+
+/**
+ * ChargingStopAlternatives - Lists compatible stations near a charging stop to charge at instead
+ *
+ * Stations are searched within ALTERNATIVE_STATION_RADIUS_KM of the stop
+ * when the list is first opened.
+ */
+const ChargingStopAlternatives: React.FC<ChargingStopAlternativesProps> = ({ stop, connectorTypes, onSelect, disabled }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [stations, setStations] = useState<ChargingStation[] | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Opens the list, searching for stations the first time
+  const handleToggle = async () => {
+    setIsOpen(!isOpen);
+    if (isOpen || stations) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [lng, lat] = stop.location;
+      const standards = toConnectorStandards(connectorTypes);
+      const found = await requestChargingStations(lat, lng, ALTERNATIVE_STATION_RADIUS_KM, {
+        connectorTypes: standards.length > 0 ? standards : undefined
+      });
+      setStations(getAlternativeStations(found, stop));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not search for stations');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-3">
+      <button
+        type="button"
+        className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+        onClick={handleToggle}
+        disabled={disabled}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? 'Hide other stations' : 'Choose another station'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 text-sm">
+          {isLoading && <p className="text-gray-500 dark:text-gray-400">Searching nearby stations...</p>}
+          {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+          {stations && stations.length === 0 && (
+            <p className="text-gray-500 dark:text-gray-400 italic">
+              No other compatible stations within {ALTERNATIVE_STATION_RADIUS_KM} km
+            </p>
+          )}
+          {stations && stations.length > 0 && (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-600 border border-gray-200 dark:border-gray-600 rounded-md">
+              {stations.map(station => (
+                <li key={station.id} className="flex items-center gap-3 p-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{station.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {station.network} · {Math.round(station.powerLevel / 1000)} kW
+                      {station.distance !== undefined && ` · ${station.distance.toFixed(1)} km away`}
+                      {` · ${formatStationStatus(station.status)}`}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    className="px-2 py-1 rounded-md bg-foreground text-background hover:bg-opacity-90 disabled:opacity-50"
+                    onClick={() => onSelect(station)}
+                    disabled={disabled}
+                  >
+                    Charge here
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChargingStopAlternatives;
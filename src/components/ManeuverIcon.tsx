@@ -0,0 +1,91 @@
+import React from 'react';
+
+interface ManeuverIconProps {
+  /** Maneuver type, e.g. 'depart', 'turn', 'arrive' */
+  type: string;
+  /** Direction of the maneuver, e.g. 'left', 'slight right', 'uturn' */
+  modifier?: string;
+  /** Icon size in pixels */
+  size?: number;
+}
+
+// Rotation of the arrow for each maneuver modifier, in degrees clockwise from straight ahead
+const MODIFIER_ANGLES: Record<string, number> = {
+  'straight': 0,
+  'slight right': 45,
+  'right': 90,
+  'sharp right': 135,
+  'sharp left': -135,
+  'left': -90,
+  'slight left': -45
+};
+
+/**
+ * ManeuverIcon - Arrow showing the direction of a route maneuver
+ *
+ * Turns are drawn as an arrow rotated by the maneuver's modifier. Departures,
+ * arrivals, U-turns and roundabouts have their own icons.
+ */
+const ManeuverIcon: React.FC<ManeuverIconProps> = ({ type, modifier, size = 20 }) => {
+  const common = {
+    width: size,
+    height: size,
+    viewBox: '0 0 24 24',
+    fill: 'none',
+    stroke: 'currentColor',
+    strokeWidth: 2,
+    strokeLinecap: 'round' as const,
+    strokeLinejoin: 'round' as const,
+    'aria-hidden': true
+  };
+
+  if (type === 'depart') {
+    return (
+      <svg {...common}>
+        <circle cx="12" cy="12" r="8" />
+        <circle cx="12" cy="12" r="3" fill="currentColor" />
+      </svg>
+    );
+  }
+
+  if (type === 'arrive') {
+    return (
+      <svg {...common}>
+        <path d="M6 21V4" />
+        <path d="M6 4h11l-2 4 2 4H6" fill="currentColor" fillOpacity={0.3} />
+      </svg>
+    );
+  }
+
+  if (modifier === 'uturn') {
+    return (
+      <svg {...common}>
+        <path d="M16 20V10a4 4 0 0 0-8 0v4" />
+        <path d="M5 11l3 3 3-3" />
+      </svg>
+    );
+  }
+
+  if (type === 'roundabout' || type === 'rotary' || type === 'exit roundabout' || type === 'exit rotary') {
+    return (
+      <svg {...common}>
+        <circle cx="12" cy="10" r="4" />
+        <path d="M12 21v-7" />
+        <path d="M15 7l3-3" />
+        <path d="M15 4h3v3" />
+      </svg>
+    );
+  }
+
+  const angle = MODIFIER_ANGLES[modifier ?? 'straight'] ?? 0;
+  return (
+    <svg {...common}>
+      <g transform={`rotate(${angle} 12 12)`}>
+        <path d="M12 20V5" />
+        <path d="M6 11l6-6 6 6" />
+      </g>
+    </svg>
+  );
+};
+
+export default ManeuverIcon;
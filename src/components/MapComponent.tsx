@@ -1,17 +1,58 @@
 "use client";
 
-import React, { useRef, useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 
-import {Map, useControl} from 'react-map-gl/mapbox';
+import {Map, MapRef, useControl} from 'react-map-gl/mapbox';
 import {MapboxOverlay} from '@deck.gl/mapbox';
-import {DeckProps} from '@deck.gl/core';
+import {DeckProps, PickingInfo} from '@deck.gl/core';
 import {IconLayer, PathLayer, ScatterplotLayer} from '@deck.gl/layers';
+import {PathStyleExtension} from '@deck.gl/extensions';
 import 'mapbox-gl/dist/mapbox-gl.css';
 
-import { ChargingStation, EvRoute, ChargingWaypoint } from '@/services/mapbox';
+import {
+  ChargingStation,
+  EvRoute,
+  ChargingWaypoint,
+  ChargeLevels,
+  GeoJsonLineString,
+  MapBounds,
+  RouteColorMode,
+  ROUTE_STYLES,
+  IMPORTED_TRACK_COLOR,
+  getRouteSegments,
+  getRouteSegmentColor,
+  formatStationStatus,
+  getStationStatusColor
+} from '@/services/mapbox';
 import { MapMarkerIconDataUri } from './MapMarkerIcon';
 import { MapChargerIconDataUri } from './MapChargerrIcon';
 
+/**
+ * Returns the full-resolution path of a route
+ *
+ * Falls back to joining the step lines if the route has no overall geometry.
+ */
+function getRoutePath(route: EvRoute): Array<[number, number]> {
+  if (route.geometry.coordinates.length > 0) {
+    return route.geometry.coordinates;
+  }
+  return route.legs.flatMap(leg => leg.steps.flatMap(step => step.geometry.coordinates));
+}
+
+/**
+ * Returns the visible bounds of a map, if it has been laid out
+ */
+function getVisibleBounds(map: ReturnType<MapRef['getMap']>): MapBounds | undefined {
+  const bounds = map.getBounds();
+  if (!bounds) return undefined;
+  return {
+    north: bounds.getNorth(),
+    south: bounds.getSouth(),
+    east: bounds.getEast(),
+    west: bounds.getWest()
+  };
+}
+
 interface MapComponentProps {
   /** Center latitude of the map */
   centerLat?: number;
@@ -26,20 +67,46 @@ interface MapComponentProps {
   /** Optional array of charging station markers */
   chargingStations?: ChargingStation[];
   route?: EvRoute;
+  /** Routes to choose from, including the active route; the others are drawn dashed under it */
+  routes?: EvRoute[];
+  /** Optional callback when one of the other routes is clicked, with its index in routes */
+  onRouteSelect?: (index: number) => void;
   startPoint?: [number, number];
   endPoint?: [number, number];
+  /** Intermediate destinations of the route, as [longitude, latitude] */
+  waypoints?: Array<[number, number]>;
+  /** Optional position on the route to highlight, as [longitude, latitude] */
+  highlightPosition?: [number, number];
+  /** Optional imported track, drawn wide under the routes so deviations from it show */
+  importedTrack?: GeoJsonLineString;
+  /** What to color the active route by, when it has annotations */
+  routeColorMode?: RouteColorMode;
+  /** Reserves the route was calculated with; segments below them are highlighted */
+  chargeLevels?: Pick<ChargeLevels, 'minChargeAtStation' | 'minChargeAtDestination'>;
   /** Optional callback when a marker is clicked */
   onMarkerClick?: (stationId: string) => void;
   /** Optional callback when a charging stop is clicked */
   onChargingStopClick?: (stationId: string) => void;
   /** Optional callback when the map is moved */
-  onMapMove?: (newCenter: { lat: number; lng: number }, newZoom: number) => void;
+  onMapMove?: (newCenter: { lat: number; lng: number }, newZoom: number, bounds?: MapBounds) => void;
   /** Whether to show charging stations */
   showChargingStations?: boolean;
   /** Toggle charging stations visibility */
   onToggleChargingStations?: () => void;
 }
 
+// Tooltip text for a hovered charging station
+function getStationTooltip({ object, layer }: PickingInfo): string | null {
+  if (!object || layer?.id !== 'charging-stations') {
+    return null;
+  }
+  const station = object as ChargingStation;
+  const powerTypes = station.powerTypes
+    .map(powerType => `${powerType.powerType}: ${powerType.availableEvseCount}/${powerType.evseCount} up to ${Math.round(powerType.maxPower / 1000)} kW`)
+    .join('\n');
+  return `${station.name}\n${formatStationStatus(station.status)}: ${station.availableEvseCount} of ${station.evseCount} chargers available\n${powerTypes}`;
+}
+
 function DeckGLOverlay(props: DeckProps) {
   const overlay = useControl<MapboxOverlay>(() => new MapboxOverlay(props));
   overlay.setProps(props);
@@ -60,8 +127,15 @@ const MapComponent: React.FC<MapComponentProps> = ({
   width = '100%',
   chargingStations = [],
   route,
+  routes = [],
+  onRouteSelect,
   startPoint,
   endPoint,
+  waypoints = [],
+  highlightPosition,
+  importedTrack,
+  routeColorMode = 'charge',
+  chargeLevels = { minChargeAtStation: 0, minChargeAtDestination: 0 },
   onMarkerClick,
   onChargingStopClick,
   onMapMove,
@@ -77,22 +151,68 @@ const MapComponent: React.FC<MapComponentProps> = ({
   // Convert width to string with px if it's a number
   const widthStyle = typeof width === 'number' ? `${width}px` : width;
 
-  // Route line layer
-  const routeLayer = route ? new PathLayer({
+  // Active route split into its annotated road segments
+  const { minChargeAtStation, minChargeAtDestination } = chargeLevels;
+  const routeSegments = useMemo(
+    () => route ? getRouteSegments(route, { minChargeAtStation, minChargeAtDestination }) : [],
+    [route, minChargeAtStation, minChargeAtDestination]
+  );
+  const hasAnnotations = routeSegments.some(segment => segment.charge !== undefined || segment.speed !== undefined);
+
+  // Active route, colored by battery charge or speed when annotated, otherwise in the color of its position among the routes
+  const activeRouteIndex = route ? Math.max(0, routes.indexOf(route)) : 0;
+  const routeLayer = route && hasAnnotations ? new PathLayer({
     id: 'route-path',
-    data: [{ 
-      // Extract coordinates from route legs to create a path
-      path: route.legs.flatMap(leg => 
-        leg.steps.flatMap(step => {
-          // Each step has a maneuver with a location
-          return [step.maneuver.location];
-        })
-      )
-    }],
+    data: routeSegments,
+    getPath: d => d.path,
+    getWidth: 5,
+    getColor: d => getRouteSegmentColor(d, routeColorMode),
+    widthUnits: 'pixels',
+    capRounded: true,
+    updateTriggers: {
+      getColor: routeColorMode
+    },
+  }) : route ? new PathLayer({
+    id: 'route-path',
+    data: [{ path: getRoutePath(route) }],
+    getPath: d => d.path,
+    getWidth: 5,
+    getColor: ROUTE_STYLES[activeRouteIndex]?.color ?? ROUTE_STYLES[0].color,
+    widthUnits: 'pixels',
+  }) : null;
+
+  // Wide outline under the segments where the charge is below the reserve
+  const reserveSegments = routeSegments.filter(segment => segment.belowReserve);
+  const reserveLayer = reserveSegments.length > 0 ? new PathLayer({
+    id: 'route-below-reserve',
+    data: reserveSegments,
+    getPath: d => d.path,
+    getWidth: 12,
+    getColor: [192, 57, 43, 150], // Dark red
+    widthUnits: 'pixels',
+    capRounded: true,
+  }) : null;
+
+  // The other routes, dashed and clickable to make them active
+  const otherRoutes = routes
+    .map((item, index) => ({ index, path: getRoutePath(item) }))
+    .filter(item => routes[item.index] !== route);
+  const alternativeRoutesLayer = otherRoutes.length > 0 ? new PathLayer({
+    id: 'route-alternatives',
+    data: otherRoutes,
     getPath: d => d.path,
-    getWidth: 3,
-    getColor: [0, 100, 255], // Blue
+    getWidth: 4,
+    getColor: d => [...(ROUTE_STYLES[d.index]?.color ?? ROUTE_STYLES[0].color), 180],
     widthUnits: 'pixels',
+    getDashArray: [3, 2],
+    dashJustified: true,
+    extensions: [new PathStyleExtension({ dash: true })],
+    pickable: true,
+    onClick: ({object}) => {
+      if (object && onRouteSelect) {
+        onRouteSelect(object.index);
+      }
+    },
   }) : null;
 
   // Start point layer
@@ -125,6 +245,21 @@ const MapComponent: React.FC<MapComponentProps> = ({
     sizeScale: 1,
   }) : null;
 
+  // Intermediate destinations layer
+  const waypointsLayer = waypoints.length > 0 ? new IconLayer({
+    id: 'route-waypoints',
+    data: waypoints.map(position => ({ position })),
+    getIcon: () => ({
+      url: MapMarkerIconDataUri('#8E44AD', '#4A235A'), // Purple, to tell them apart from start and end
+      width: 48,
+      height: 48,
+      anchorY: 48, // Bottom of the icon
+    }),
+    getPosition: d => d.position,
+    getSize: 40,
+    sizeScale: 1,
+  }) : null;
+
   // Charging stops layer
   const chargingStopsLayer = route?.chargingWaypoints ? new IconLayer({
     id: 'charging-stops',
@@ -146,8 +281,37 @@ const MapComponent: React.FC<MapComponentProps> = ({
     },
   }) : null;
 
+  // Highlighted position on the route, e.g. the one hovered on the charge chart
+  const highlightLayer = highlightPosition ? new ScatterplotLayer({
+    id: 'route-highlight',
+    data: [{ position: highlightPosition }],
+    getPosition: d => d.position,
+    getRadius: 7,
+    radiusUnits: 'pixels',
+    stroked: true,
+    getFillColor: [255, 255, 255],
+    getLineColor: ROUTE_STYLES[activeRouteIndex]?.color ?? ROUTE_STYLES[0].color,
+    getLineWidth: 3,
+    lineWidthUnits: 'pixels',
+  }) : null;
+
+  // Imported track the route was planned along, wide and translucent under the routes
+  const importedTrackLayer = importedTrack ? new PathLayer({
+    id: 'imported-track',
+    data: [{ path: importedTrack.coordinates }],
+    getPath: d => d.path,
+    getWidth: 12,
+    getColor: IMPORTED_TRACK_COLOR,
+    widthUnits: 'pixels',
+    capRounded: true,
+    jointRounded: true,
+  }) : null;
+
   // Create a layer for the charging stations
   const layers = [
+    importedTrackLayer,
+    alternativeRoutesLayer,
+    reserveLayer,
     routeLayer,
     showChargingStations && showStationsBasedOnZoom ? new ScatterplotLayer({
       id: 'charging-stations',
@@ -162,10 +326,11 @@ const MapComponent: React.FC<MapComponentProps> = ({
       lineWidthMinPixels: 1,
       getPosition: d => [d.lng, d.lat],
       getRadius: d => {
-        // Scale radius based on power level if available
-        return d.powerLevel ? Math.min(5000 + (d.powerLevel * 100), 10000) : 5000;
+        // Scale radius based on the station's maximum power in kW
+        return d.powerLevel ? Math.min(5000 + (d.powerLevel / 1000) * 20, 10000) : 5000;
       },
-      getFillColor: d => d.available ? [46, 204, 113, 200] : [231, 76, 60, 200], // Green if available, red if not
+      // Color by the station's summary status, as shown in the legend
+      getFillColor: d => [...getStationStatusColor(d.status), 200],
       getLineColor: d => [0, 0, 0],
       onClick: ({object}) => {
         if (object && onMarkerClick) {
@@ -176,7 +341,9 @@ const MapComponent: React.FC<MapComponentProps> = ({
     }) : null,
     ...(startPointLayer ? [startPointLayer] : []),
     ...(endPointLayer ? [endPointLayer] : []),
-    ...(chargingStopsLayer ? [chargingStopsLayer] : [])
+    ...(waypointsLayer ? [waypointsLayer] : []),
+    ...(chargingStopsLayer ? [chargingStopsLayer] : []),
+    ...(highlightLayer ? [highlightLayer] : [])
   ];
   
   return (
@@ -207,6 +374,17 @@ const MapComponent: React.FC<MapComponentProps> = ({
             zoom={zoom}
             mapStyle="mapbox://styles/mapbox/light-v9"
             mapboxAccessToken={process.env.NEXT_PUBLIC_MAPBOX_TOKEN}
+            onLoad={evt => {
+              // Report the initial viewport so stations load without moving the map
+              if (onMapMove) {
+                const center = evt.target.getCenter();
+                onMapMove(
+                  { lat: center.lat, lng: center.lng },
+                  evt.target.getZoom(),
+                  getVisibleBounds(evt.target)
+                );
+              }
+            }}
             onMove={evt => {
               // Update visibility based on zoom level
               setShowStationsBasedOnZoom(evt.viewState.zoom >= 12);
@@ -217,12 +395,13 @@ const MapComponent: React.FC<MapComponentProps> = ({
                     lat: evt.viewState.latitude, 
                     lng: evt.viewState.longitude 
                   }, 
-                  evt.viewState.zoom
+                  evt.viewState.zoom,
+                  getVisibleBounds(evt.target)
                 );
               }
             }}
           >
-            <DeckGLOverlay layers={layers} />
+            <DeckGLOverlay layers={layers} getTooltip={getStationTooltip} />
           </Map>
         }
         <div style={{ fontSize: '0.9rem', textAlign: 'center', width: '100%' }}>
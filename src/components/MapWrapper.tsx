@@ -1,16 +1,36 @@
 "use client";
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import MapComponent from './MapComponent';
 import ChargingStationModal from './ChargingStationModal';
+import StationStatusLegend from './StationStatusLegend';
+import RouteColorLegend from './RouteColorLegend';
 import { 
-  fetchChargingStations, 
   fetchChargingStationDetails,
+  fetchTileStations,
+  getCoveringTiles,
+  getTileAt,
+  getTileBounds,
+  getTileKey,
+  expandBounds,
+  boundsIntersect,
+  buildStationSearchOptions,
+  matchesStationFilters,
+  DEFAULT_STATION_FILTERS,
   ChargingStation, 
   ChargingStationDetails, 
-  EvRoute
+  ChargeLevels,
+  EvRoute,
+  GeoJsonLineString,
+  RouteColorMode,
+  MapBounds,
+  StationFilters,
+  StationTile
 } from '@/services/mapbox';
 
+// Fraction of the viewport size kept loaded around it on each side
+const VIEWPORT_PADDING = 0.5;
+
 interface MapWrapperProps {
   centerLat?: number;
   centerLng?: number;
@@ -19,10 +39,18 @@ interface MapWrapperProps {
   width?: string | number;
   chargingStations?: ChargingStation[];
   route?: EvRoute;
+  routes?: EvRoute[]; // Routes to choose from, including the active route
+  onRouteSelect?: (index: number) => void; // Called with the index of a clicked route in routes
   startPoint?: [number, number];
   endPoint?: [number, number];
-  searchRadius?: number; // Search radius in kilometers
+  waypoints?: Array<[number, number]>; // Intermediate destinations of the route
+  highlightPosition?: [number, number]; // Position on the route to highlight
+  importedTrack?: GeoJsonLineString; // Imported track the route was planned along
+  chargeLevels?: ChargeLevels; // Charge levels the route was calculated with, for its reserve highlighting
   useRealData?: boolean; // Whether to use real data from Mapbox API
+  filters?: StationFilters; // Station filters applied to fetched and cached stations
+  routeColorMode?: RouteColorMode; // What the route is colored by; kept by the parent when given, so it survives a remount
+  onRouteColorModeChange?: (mode: RouteColorMode) => void; // Called when the legend switches the route coloring
 }
 
 /**
@@ -36,8 +64,8 @@ const MapWrapper: React.FC<MapWrapperProps> = (props) => {
     centerLat = 38.9072, // Default to Washington DC
     centerLng = -77.0369, // Default to Washington DC
     zoom = 12, // Higher zoom level for city view
-    searchRadius = 50, // Default 50km radius (max is 100km)
-    useRealData = true // Default to using real data
+    useRealData = true, // Default to using real data
+    filters = DEFAULT_STATION_FILTERS
   } = props;
 
   const [stations, setStations] = useState<ChargingStation[]>(props.chargingStations || []);
@@ -57,6 +85,9 @@ const MapWrapper: React.FC<MapWrapperProps> = (props) => {
   const [endPoint, setEndPoint] = useState<[number, number]>([centerLng, centerLat]);
   const [route, setRoute] = useState<EvRoute | null>(null);
   const [showChargingStations, setShowChargingStations] = useState<boolean>(true);
+  const [ownRouteColorMode, setOwnRouteColorMode] = useState<RouteColorMode>('charge');
+  const routeColorMode = props.routeColorMode ?? ownRouteColorMode;
+  const setRouteColorMode = props.onRouteColorModeChange ?? setOwnRouteColorMode;
   
   // State for the charging station details modal
   const [selectedStation, setSelectedStation] = useState<ChargingStationDetails | null>(null);
@@ -66,126 +97,117 @@ const MapWrapper: React.FC<MapWrapperProps> = (props) => {
   // Debounce timer reference
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Function to fetch charging stations with debouncing
-  const fetchStations = useCallback(async (lat: number, lng: number, radius: number, immediate = false) => {
-    if (!useRealData) return; // Skip if not using real data
+  // Keep the latest filters in a ref so debounced fetches use the current selection
+  const filtersRef = useRef<StationFilters>(filters);
+  filtersRef.current = filters;
+
+  // Tiles already loaded for the current filters, keyed by tile key
+  const loadedTilesRef = useRef<Map<string, StationTile>>(new Map());
+  // Latest visible map bounds
+  const boundsRef = useRef<MapBounds | null>(null);
+  // Number of viewport loads in progress, so overlapping loads share the loading indicator
+  const pendingLoadsRef = useRef<number>(0);
+
+  // Function to load the stations of every visible tile that is not loaded yet
+  const loadViewport = useCallback(async (bounds: MapBounds) => {
+    const loadedTiles = loadedTilesRef.current;
+    const keepBounds = expandBounds(bounds, VIEWPORT_PADDING);
     
-    // Clear any existing timer
-    if (debounceTimerRef.current) {
-      clearTimeout(debounceTimerRef.current);
-    }
+    // Forget tiles that are well outside the viewport so they are fetched again when revisited
+    loadedTiles.forEach((tile, key) => {
+      if (!boundsIntersect(getTileBounds(tile), keepBounds)) {
+        loadedTiles.delete(key);
+      }
+    });
     
-    // If immediate, fetch right away, otherwise debounce
-    if (immediate) {
+    const tiles = getCoveringTiles(bounds).filter(tile => !loadedTiles.has(getTileKey(tile)));
+    
+    // Mark tiles as loaded up front so overlapping loads skip them
+    tiles.forEach(tile => loadedTiles.set(getTileKey(tile), tile));
+    
+    const newStations: {[key: string]: ChargingStation} = {};
+    
+    if (tiles.length > 0) {
+      pendingLoadsRef.current++;
       setIsLoading(true);
       setError(null);
       
-      try {
-        let fetchedStations = await fetchChargingStations(
-          lat,
-          lng,
-          radius,
-          {
-            limit: 100, // Fetch up to 100 stations (API maximum)
-            availability: 'AVAILABLE' // Only fetch available stations
-          }
-        );
-        
-        // Process fetched stations and add only new ones to cache
-        const newStations: {[key: string]: ChargingStation} = {};
-        let cacheUpdated = false;
-        
-        fetchedStations.forEach(station => {
-          // Create a location hash for the station
-          const locationHash = `${station.lat.toFixed(6)},${station.lng.toFixed(6)}`;
+      const options = buildStationSearchOptions(filtersRef.current);
+      const results = await Promise.allSettled(tiles.map(tile => fetchTileStations(tile, options)));
+      
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          // Let a later pan retry the failed tile
+          console.error('Error fetching charging stations:', result.reason);
+          loadedTiles.delete(getTileKey(tiles[index]));
+          setError('Failed to fetch charging stations. Please try again later.');
+          return;
+        }
+        result.value.forEach(station => {
           // Use a composite key of ID and location hash
-          const cacheKey = `${station.id}_${locationHash}`;
-          
-          // Only add if not already in cache
-          if (!stationsCache[cacheKey]) {
-            newStations[cacheKey] = station;
-            cacheUpdated = true;
-          }
+          const locationHash = `${station.lat.toFixed(6)},${station.lng.toFixed(6)}`;
+          newStations[`${station.id}_${locationHash}`] = station;
         });
-        
-        // Only update the cache if we have new stations
-        if (cacheUpdated) {
-          setStationsCache(prevCache => ({
-            ...prevCache,
-            ...newStations
-          }));
-        }
-        
-        // No need to manually update stations here, it will be done by the useEffect
-      } catch (err) {
-        console.error('Error fetching charging stations:', err);
-        setError('Failed to fetch charging stations. Please try again later.');
-      } finally {
+      });
+      
+      pendingLoadsRef.current--;
+      if (pendingLoadsRef.current === 0) {
         setIsLoading(false);
       }
+    }
+    
+    // Add the new stations and drop those whose tile is no longer loaded
+    setStationsCache(prevCache => {
+      const nextCache: {[key: string]: ChargingStation} = {};
+      Object.entries({ ...prevCache, ...newStations }).forEach(([key, station]) => {
+        if (loadedTilesRef.current.has(getTileKey(getTileAt(station.lat, station.lng)))) {
+          nextCache[key] = station;
+        }
+      });
+      return nextCache;
+    });
+  }, []);
+
+  // Function to fetch charging stations for the visible bounds with debouncing
+  const fetchStations = useCallback(async (bounds: MapBounds, immediate = false) => {
+    if (!useRealData) return; // Skip if not using real data
+    
+    // Clear any existing timer
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current);
+    }
+    
+    // If immediate, fetch right away, otherwise debounce
+    if (immediate) {
+      await loadViewport(bounds);
     } else {
-      // Set a loading indicator after a short delay to avoid flickering for quick movements
-      const loadingTimer = setTimeout(() => setIsLoading(true), 300);
-      
       // Debounce the actual API call by 800ms
-      debounceTimerRef.current = setTimeout(async () => {
-        clearTimeout(loadingTimer);
-        setIsLoading(true);
-        setError(null);
-        
-        try {
-        let fetchedStations = await fetchChargingStations(
-          lat,
-          lng,
-          radius,
-          {
-            limit: 100, // Fetch up to 100 stations (API maximum)
-            availability: 'AVAILABLE' // Only fetch available stations
-          }
-        );
-        
-        // Process fetched stations and add only new ones to cache
-        const newStations: {[key: string]: ChargingStation} = {};
-        let cacheUpdated = false;
-        
-        fetchedStations.forEach(station => {
-          // Create a location hash for the station
-          const locationHash = `${station.lat.toFixed(6)},${station.lng.toFixed(6)}`;
-          // Use a composite key of ID and location hash
-          const cacheKey = `${station.id}_${locationHash}`;
-          
-          // Only add if not already in cache
-          if (!stationsCache[cacheKey]) {
-            newStations[cacheKey] = station;
-            cacheUpdated = true;
-          }
-        });
-        
-        // Only update the cache if we have new stations
-        if (cacheUpdated) {
-          setStationsCache(prevCache => ({
-            ...prevCache,
-            ...newStations
-          }));
-        }
-        
-        // No need to manually update stations here, it will be done by the useEffect
-        } catch (err) {
-          console.error('Error fetching charging stations:', err);
-          setError('Failed to fetch charging stations. Please try again later.');
-        } finally {
-          setIsLoading(false);
-        }
+      debounceTimerRef.current = setTimeout(() => {
+        loadViewport(bounds);
       }, 800);
     }
-  }, [useRealData, stationsCache]);
+  }, [useRealData, loadViewport]);
 
-  // Fetch stations when component mounts - use immediate fetch
+  // Reload the visible tiles when the filters change, so stations
+  // excluded by an earlier, narrower query are loaded
+  const loadedFiltersRef = useRef<StationFilters>(filters);
   useEffect(() => {
-    if (useRealData) {
-      fetchStations(centerLat, centerLng, searchRadius, true);
+    // Zoom changes also run this effect; only filter changes reload
+    if (loadedFiltersRef.current === filters) {
+      return;
+    }
+    loadedFiltersRef.current = filters;
+    loadedTilesRef.current = new Map();
+    if (boundsRef.current && mapZoom >= 12) {
+      fetchStations(boundsRef.current, true);
     }
-  }, [centerLat, centerLng, searchRadius, fetchStations, useRealData]);
+  }, [filters, mapZoom, fetchStations]);
+
+  // Stations matching the current filters, applied to the cache immediately
+  const filteredStations = useMemo(
+    () => stations.filter(station => matchesStationFilters(station, filters)),
+    [stations, filters]
+  );
 
   // Cleanup debounce timer on unmount
   useEffect(() => {
@@ -238,16 +260,19 @@ const MapWrapper: React.FC<MapWrapperProps> = (props) => {
     setShowChargingStations(!showChargingStations);
   };
 
-  const handleMapMove = (newCenter: { lat: number; lng: number }, newZoom: number) => {
+  const handleMapMove = (newCenter: { lat: number; lng: number }, newZoom: number, bounds?: MapBounds) => {
     
     // Update state with new center and zoom
     setMapCenter(newCenter);
     setMapZoom(newZoom);
     
+    if (bounds) {
+      boundsRef.current = bounds;
+    }
     
-    // Always fetch new stations when the map moves with debouncing
-    if (newZoom >= 12) {
-      fetchStations(newCenter.lat, newCenter.lng, searchRadius);
+    // Load the visible tiles when zoomed in far enough, right away on first load
+    if (bounds && newZoom >= 12) {
+      fetchStations(bounds, loadedTilesRef.current.size === 0);
     }
   };
 
@@ -317,22 +342,41 @@ const MapWrapper: React.FC<MapWrapperProps> = (props) => {
         centerLat={mapCenter.lat}
         centerLng={mapCenter.lng}
         zoom={mapZoom}
-        chargingStations={useRealData ? stations : props.chargingStations}
+        chargingStations={useRealData ? filteredStations : props.chargingStations}
         onMarkerClick={handleMarkerClick}
         onMapMove={handleMapMove}
         route={props.route}
+        routes={props.routes}
+        onRouteSelect={props.onRouteSelect}
         startPoint={props.startPoint}
         endPoint={props.endPoint}
+        waypoints={props.waypoints}
+        highlightPosition={props.highlightPosition}
+        importedTrack={props.importedTrack}
+        routeColorMode={routeColorMode}
+        chargeLevels={props.chargeLevels}
         onChargingStopClick={handleChargingStopClick}
         showChargingStations={showChargingStations}
         onToggleChargingStations={handleToggleChargingStations}
       />
       
+      {props.route && (
+        <div className="mt-2">
+          <RouteColorLegend mode={routeColorMode} onModeChange={setRouteColorMode} />
+        </div>
+      )}
+      
+      {showChargingStations && (
+        <div className="mt-2">
+          <StationStatusLegend />
+        </div>
+      )}
+      
       <div className="mt-2 text-sm text-gray-600">
-        {stations.length > 0 && showChargingStations && mapZoom > 12 ? (
-          <p>Found {stations.length} charging stations within {searchRadius}km</p>
+        {filteredStations.length > 0 && showChargingStations && mapZoom > 12 ? (
+          <p>Found {filteredStations.length} charging stations in this area</p>
         ) : !isLoading && showChargingStations && mapZoom > 12 && (
-          <p>No charging stations found in this area. Try moving the map or increasing the search radius.</p>
+          <p>No charging stations found in this area. Try moving the map or changing the filters.</p>
         )}
       </div>
       
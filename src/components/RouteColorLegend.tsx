@@ -0,0 +1,55 @@
+import React from 'react';
+import { ROUTE_COLOR_MODES, RouteColorMode, getScaleColor } from '@/services/mapbox';
+
+interface RouteColorLegendProps {
+  /** What the route is colored by */
+  mode: RouteColorMode;
+  /** Callback when another coloring is picked */
+  onModeChange: (mode: RouteColorMode) => void;
+}
+
+// Stops of the legend's color gradient, from the low to the high end of the scale
+const GRADIENT = [0, 0.5, 1]
+  .map(value => `rgb(${getScaleColor(value).join(', ')})`)
+  .join(', ');
+
+/**
+ * RouteColorLegend - Picks what the route line is colored by and explains the colors
+ *
+ * The route goes from red to green as the battery charge or the speed
+ * increases. Stretches where the charge is below the reserve are outlined
+ * in dark red.
+ */
+const RouteColorLegend: React.FC<RouteColorLegendProps> = ({ mode, onModeChange }) => {
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600 dark:text-gray-400">
+      <span className="font-medium">Color route by:</span>
+      <div className="inline-flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden">
+        {ROUTE_COLOR_MODES.map(option => (
+          <button
+            key={option.mode}
+            type="button"
+            className={`px-2 py-0.5 ${
+              option.mode === mode ? 'bg-blue-500 text-white' : 'bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600'
+            }`}
+            aria-pressed={option.mode === mode}
+            onClick={() => onModeChange(option.mode)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <span className="flex items-center">
+        {mode === 'charge' ? 'Empty' : 'Slow'}
+        <span className="inline-block w-20 h-2 mx-1 rounded" style={{ background: `linear-gradient(to right, ${GRADIENT})` }} />
+        {mode === 'charge' ? 'Full' : 'Fast'}
+      </span>
+      <span className="flex items-center">
+        <span className="inline-block w-4 h-2 mr-1 rounded" style={{ backgroundColor: 'rgba(192, 57, 43, 0.6)' }} />
+        Below reserve
+      </span>
+    </div>
+  );
+};
+
+export default RouteColorLegend;
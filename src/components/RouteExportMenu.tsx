@@ -0,0 +1,70 @@
+"use client";
+
+import React, { useState } from 'react';
+import { EvRoute, ROUTE_EXPORT_FORMATS, RouteExportFormat, exportRoute } from '@/services/mapbox';
+
+interface RouteExportMenuProps {
+  /** The route to export */
+  route: EvRoute;
+  /** Name of the route, also used for the file name */
+  name?: string;
+  /** Names of the start, stops and destination, in order */
+  pointNames?: string[];
+}
+
+/**
+ * RouteExportMenu - Downloads the route as a GPX, KML or GeoJSON file
+ *
+ * Files are generated in the browser with the same serializer as the
+ * /api/routes/export endpoint.
+ */
+const RouteExportMenu: React.FC<RouteExportMenuProps> = ({ route, name, pointNames }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+
+  // Saves the route in the chosen format through a temporary download link
+  const handleExport = (format: RouteExportFormat) => {
+    const { content, filename, mimeType } = exportRoute(route, format, { name, pointNames });
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative inline-block text-left">
+      <button
+        type="button"
+        className="px-3 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        Export ▾
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-10 mt-1 w-32 rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 shadow-lg"
+        >
+          {ROUTE_EXPORT_FORMATS.map(option => (
+            <button
+              key={option.format}
+              type="button"
+              role="menuitem"
+              className="block w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-600"
+              onClick={() => handleExport(option.format)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RouteExportMenu;
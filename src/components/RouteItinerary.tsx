@@ -0,0 +1,96 @@
+"use client";
+
+import React, { useState } from 'react';
+import ManeuverIcon from './ManeuverIcon';
+import { ItineraryLeg, RouteStep, formatDistance, formatDuration, isFerryStep } from '@/services/mapbox';
+
+interface RouteItineraryProps {
+  /** Legs of the route with their steps, from getItinerary */
+  legs: ItineraryLeg[];
+  /** Optional callback when a step is clicked */
+  onStepClick?: (step: RouteStep) => void;
+}
+
+/**
+ * RouteItinerary - Collapsible turn-by-turn directions for a route
+ *
+ * Steps are grouped by route leg, and the charging stop each leg ends at is
+ * shown between the legs. Ferry crossings are flagged with their duration.
+ */
+const RouteItinerary: React.FC<RouteItineraryProps> = ({ legs, onStepClick }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const stepCount = legs.reduce((total, leg) => total + leg.steps.length, 0);
+
+  if (stepCount === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        className="flex w-full items-center justify-between text-left"
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+      >
+        <h3 className="text-xl font-semibold">Turn-by-Turn Directions</h3>
+        <span className="text-sm text-blue-600 dark:text-blue-400">
+          {isExpanded ? 'Hide' : `Show ${stepCount} steps`}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <ol className="mt-3 space-y-4">
+          {legs.map((leg, legIndex) => (
+            <li key={legIndex}>
+              <div className="text-sm font-semibold text-gray-600 dark:text-gray-300 mb-1">
+                Leg {legIndex + 1} · {formatDistance(leg.distance)} · {formatDuration(leg.duration)}
+              </div>
+              <ol className="divide-y divide-gray-200 dark:divide-gray-700 bg-white dark:bg-gray-700 rounded-md shadow-sm">
+                {leg.steps.map((step, stepIndex) => (
+                  <li key={stepIndex}>
+                    <button
+                      type="button"
+                      className="flex w-full items-start gap-3 p-2 text-left text-sm hover:bg-gray-50 dark:hover:bg-gray-600"
+                      onClick={() => onStepClick?.(step)}
+                    >
+                      <span className="mt-0.5 text-blue-600 dark:text-blue-400">
+                        <ManeuverIcon type={step.maneuver.type} modifier={step.maneuver.modifier} />
+                      </span>
+                      <span className="flex-1">
+                        {step.maneuver.instruction}
+                        {isFerryStep(step) && (
+                          <span className="ml-2 whitespace-nowrap text-xs px-2 py-0.5 rounded-full bg-cyan-100 dark:bg-cyan-800 text-cyan-800 dark:text-cyan-200">
+                            ⛴ Ferry · {formatDuration(step.duration)}
+                          </span>
+                        )}
+                      </span>
+                      {step.distance > 0 && (
+                        <span className="whitespace-nowrap text-gray-500 dark:text-gray-400">
+                          {formatDistance(step.distance)}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+
+              {/* Charging stop at the end of the leg */}
+              {leg.chargingStop && (
+                <div className="mt-2 flex items-center gap-3 p-2 rounded-md bg-green-50 dark:bg-green-900 text-sm text-green-800 dark:text-green-200">
+                  <span aria-hidden="true">⚡</span>
+                  <span className="flex-1">
+                    Charge at <span className="font-medium">{leg.chargingStop.name}</span> for {formatDuration(leg.chargingStop.chargeTime)}
+                  </span>
+                  <span className="whitespace-nowrap">{leg.chargingStop.powerKw} kW</span>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default RouteItinerary;
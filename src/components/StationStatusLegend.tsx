@@ -0,0 +1,27 @@
+import React from 'react';
+import { STATION_STATUSES } from '@/services/mapbox';
+
+/**
+ * StationStatusLegend - Explains the charging station marker colors
+ *
+ * Each marker is colored by the summary status of its chargers, e.g. a
+ * station where every charger is in use is shown as "In Use".
+ */
+const StationStatusLegend: React.FC = () => {
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600 dark:text-gray-400">
+      <span className="font-medium">Station status:</span>
+      {STATION_STATUSES.map(option => (
+        <span key={option.status} className="flex items-center">
+          <span
+            className="inline-block w-3 h-3 rounded-full mr-1 border border-black"
+            style={{ backgroundColor: `rgb(${option.color.join(', ')})` }}
+          />
+          {option.label}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default StationStatusLegend;
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import directionsRecordings from '../../../scripts/mapbox-stand-in/fixtures/directions-ev.json';
+import { getChargeAt, getChargeProfile, getChargingStopEnergy } from './chargeProfile';
+import { toEvRoute } from './transforms';
+import { ChargingWaypoint, EvRoute, MapboxDirectionsResponse, RouteLeg } from './types';
+
+// A leg with state of charge annotations for segments of the given lengths
+const leg = (distances: number[], stateOfCharge: number[]): RouteLeg => ({
+  distance: distances.reduce((total, distance) => total + distance, 0),
+  duration: 0,
+  summary: '',
+  steps: [],
+  annotation: { distance: distances, duration: [], speed: [], stateOfCharge }
+});
+
+const chargingStop = {
+  type: 'charging-station',
+  name: 'Delaware Welcome Center',
+  chargeTime: 600,
+  chargeAtArrival: 15000,
+  chargeTo: 60000,
+  plugType: 'ccs_combo_type1',
+  currentType: 'dc',
+  powerKw: 150,
+  stationId: 'station-1',
+  location: [-75.6927, 39.6392]
+} as ChargingWaypoint;
+
+// A route from a start through one charging stop to an end
+const route = {
+  distance: 300,
+  duration: 0,
+  geometry: { type: 'LineString', coordinates: [] },
+  legs: [leg([100, 100], [60, 20]), leg([50, 50], [70, 60])],
+  waypoints: [
+    { name: 'Start', location: [0, 0] },
+    { name: '', location: [1, 1], metadata: { ...chargingStop } },
+    { name: 'End', location: [2, 2] }
+  ],
+  chargingWaypoints: [chargingStop]
+} as EvRoute;
+
+describe('getChargeProfile', () => {
+  it('follows the annotations and jumps at charging stops', () => {
+    expect(getChargeProfile(route, 75000, 80)).toEqual([
+      { distance: 0, charge: 80 },
+      { distance: 100, charge: 60 },
+      { distance: 200, charge: 20 },
+      { distance: 200, charge: 20 },
+      { distance: 200, charge: 80, chargingStop },
+      { distance: 250, charge: 70 },
+      { distance: 300, charge: 60 }
+    ]);
+  });
+
+  it('skips legs without state of charge annotations', () => {
+    const withoutAnnotations = { ...route, legs: [{ ...route.legs[0], annotation: undefined }, route.legs[1]] };
+
+    expect(getChargeProfile(withoutAnnotations, 75000, 80).map(point => point.distance)).toEqual([0, 200, 200, 250, 300]);
+  });
+
+  it('leaves out charging stops when the waypoints do not match the legs', () => {
+    const profile = getChargeProfile({ ...route, waypoints: route.waypoints.slice(1) }, 75000, 80);
+
+    expect(profile.some(point => point.chargingStop)).toBe(false);
+    expect(profile).toHaveLength(5);
+  });
+
+  it('builds a profile for a recorded route', () => {
+    const recorded = toEvRoute(directionsRecordings[0].response as unknown as MapboxDirectionsResponse) as EvRoute;
+    const profile = getChargeProfile(recorded, 70000, 80);
+
+    expect(profile[0]).toEqual({ distance: 0, charge: 80 });
+    expect(profile.filter(point => point.chargingStop)).toHaveLength(1);
+    expect(profile[profile.length - 1].distance).toBeCloseTo(recorded.legs[0].distance + recorded.legs[1].distance, -1);
+    profile.slice(1).forEach((point, index) => {
+      expect(point.distance).toBeGreaterThanOrEqual(profile[index].distance);
+    });
+  });
+});
+
+describe('getChargeAt', () => {
+  const profile = getChargeProfile(route, 75000, 80);
+
+  it('interpolates between points', () => {
+    expect(getChargeAt(profile, 50)).toBe(70);
+    expect(getChargeAt(profile, 275)).toBe(65);
+  });
+
+  it('returns the charge on departure at a charging stop', () => {
+    expect(getChargeAt(profile, 200)).toBe(80);
+  });
+
+  it('clamps to the ends of the profile', () => {
+    expect(getChargeAt(profile, -10)).toBe(80);
+    expect(getChargeAt(profile, 1000)).toBe(60);
+    expect(getChargeAt([], 10)).toBeUndefined();
+  });
+});
+
+describe('getChargingStopEnergy', () => {
+  it('gives the charge on arrival and departure in Wh and percent, the energy added and the average power', () => {
+    expect(getChargingStopEnergy(chargingStop, 75000)).toEqual({
+      arrivalWh: 15000,
+      arrivalPercent: 20,
+      departureWh: 60000,
+      departurePercent: 80,
+      energyAddedWh: 45000,
+      averagePowerKw: 270 // 45 kWh in 10 minutes
+    });
+  });
+
+  it('has no average power for stops without a charge time', () => {
+    expect(getChargingStopEnergy({ ...chargingStop, chargeTime: 0 }, 75000).averagePowerKw).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Battery Charge Profile
+ *
+ * Builds the battery charge along a route from the state of charge
+ * annotations of its legs, for the charge chart on the route planner.
+ * Annotations give the charge at the end of each road segment; charging
+ * stops are added as jumps from the charge on arrival to the charge on
+ * departure.
+ */
+
+import { ChargeProfilePoint, ChargingStopEnergy, ChargingWaypoint, EvRoute } from './types';
+import { getLegChargingStops } from './evRouting';
+
+// Converts an amount of energy to percent of the battery capacity, within 0-100
+function toPercent(energy: number, batteryCapacity: number): number {
+  return Math.min(100, Math.max(0, energy / batteryCapacity * 100));
+}
+
+/**
+ * Builds the battery charge profile of a route
+ *
+ * Legs without state of charge annotations contribute no points, so the
+ * profile runs straight across them.
+ *
+ * @param route - The EV route
+ * @param batteryCapacity - Battery capacity of the vehicle the route was calculated for, in Wh
+ * @param initialCharge - Charge at the start of the route in percent
+ * @returns ChargeProfilePoint[] - The profile points in order of distance
+ */
+export function getChargeProfile(route: EvRoute, batteryCapacity: number, initialCharge: number): ChargeProfilePoint[] {
+  const points: ChargeProfilePoint[] = [{ distance: 0, charge: initialCharge }];
+  const chargingStops = getLegChargingStops(route);
+  let legStart = 0;
+
+  route.legs.forEach((leg, index) => {
+    const annotation = leg.annotation;
+    const stateOfCharge = annotation?.stateOfCharge;
+    if (annotation && stateOfCharge && stateOfCharge.length === annotation.distance.length) {
+      let distance = legStart;
+      stateOfCharge.forEach((charge, segment) => {
+        distance += annotation.distance[segment];
+        points.push({ distance: Math.min(distance, legStart + leg.distance), charge });
+      });
+    }
+    legStart += leg.distance;
+
+    const stop = chargingStops[index];
+    if (stop) {
+      points.push({ distance: legStart, charge: toPercent(stop.chargeAtArrival, batteryCapacity) });
+      points.push({ distance: legStart, charge: toPercent(stop.chargeTo, batteryCapacity), chargingStop: stop });
+    }
+  });
+
+  return points;
+}
+
+/**
+ * Returns the battery charge at a distance along a charge profile
+ *
+ * The charge is interpolated between the surrounding points; at a charging
+ * stop, the charge on departure is returned.
+ *
+ * @param profile - The charge profile, in order of distance
+ * @param distance - Distance from the start of the route in meters
+ * @returns number | undefined - Charge in percent, or undefined for an empty profile
+ */
+export function getChargeAt(profile: ChargeProfilePoint[], distance: number): number | undefined {
+  if (profile.length === 0) return undefined;
+  if (distance <= profile[0].distance) return profile[0].charge;
+
+  for (let index = 1; index < profile.length; index++) {
+    const next = profile[index];
+    // Skip ahead to the last point at this distance, the departure charge of a stop
+    if (distance === next.distance && profile[index + 1]?.distance !== next.distance) {
+      return next.charge;
+    }
+    if (distance < next.distance) {
+      const previous = profile[index - 1];
+      const ratio = (distance - previous.distance) / (next.distance - previous.distance);
+      return previous.charge + (next.charge - previous.charge) * ratio;
+    }
+  }
+
+  return profile[profile.length - 1].charge;
+}
+
+/**
+ * Returns the battery charge on arrival and departure of a charging stop,
+ * the energy added and the average charging power
+ *
+ * @param stop - The charging stop
+ * @param batteryCapacity - Battery capacity of the vehicle the route was calculated for, in Wh
+ * @returns ChargingStopEnergy - The energy accounting of the stop
+ */
+export function getChargingStopEnergy(stop: ChargingWaypoint, batteryCapacity: number): ChargingStopEnergy {
+  const energyAddedWh = Math.max(0, stop.chargeTo - stop.chargeAtArrival);
+  return {
+    arrivalWh: stop.chargeAtArrival,
+    arrivalPercent: toPercent(stop.chargeAtArrival, batteryCapacity),
+    departureWh: stop.chargeTo,
+    departurePercent: toPercent(stop.chargeTo, batteryCapacity),
+    energyAddedWh,
+    averagePowerKw: stop.chargeTime > 0 ? energyAddedWh / stop.chargeTime * 3600 / 1000 : undefined
+  };
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  estimateChargingCost,
+  formatChargingCost,
+  formatTripChargingCost,
+  getTripChargingCost,
+  selectTariff
+} from './chargingCost';
+import { ChargingPriceComponent, ChargingTariff, ChargingWaypoint } from './types';
+
+// 30 minutes adding 45.2 kWh
+const stop: ChargingWaypoint = {
+  type: 'charging-station',
+  name: 'Delaware Welcome Center',
+  chargeTime: 1800,
+  chargeTo: 60200,
+  chargeAtArrival: 15000,
+  plugType: 'ccs_combo_type1',
+  currentType: 'dc',
+  powerKw: 150,
+  stationId: 'station-1',
+  location: [-75.6927, 39.6392]
+};
+
+const tariff = (priceComponents: ChargingPriceComponent[], type = 'AD_HOC_PAYMENT', currency = 'USD'): ChargingTariff => ({
+  id: `${type}-${currency}`,
+  currency,
+  type,
+  elements: [{ priceComponents }]
+});
+
+describe('selectTariff', () => {
+  it('prefers the pay-as-you-go tariff, then the first tariff with prices', () => {
+    const member = tariff([{ type: 'ENERGY', price: 0.35, stepSize: 1 }], 'PROFILE_CHEAP');
+    const adHoc = tariff([{ type: 'ENERGY', price: 0.48, stepSize: 1 }]);
+    const empty = tariff([], 'REGULAR');
+
+    expect(selectTariff([member, adHoc])).toBe(adHoc);
+    expect(selectTariff([empty, member])).toBe(member);
+    expect(selectTariff([empty])).toBeUndefined();
+  });
+});
+
+describe('estimateChargingCost', () => {
+  it('bills the energy added per kWh, rounded up to the step size', () => {
+    const perWh = estimateChargingCost(stop, [tariff([{ type: 'ENERGY', price: 0.5, stepSize: 1 }])]);
+    const perKwh = estimateChargingCost(stop, [tariff([{ type: 'ENERGY', price: 0.5, stepSize: 1000 }])]);
+
+    expect(perWh?.amount).toBeCloseTo(22.6, 6);
+    expect(perKwh?.amount).toBeCloseTo(23, 6); // 46 kWh
+    expect(perKwh?.currency).toBe('USD');
+  });
+
+  it('bills the charge time per hour, rounded up to the step size, plus the flat fee', () => {
+    const cost = estimateChargingCost({ ...stop, chargeTime: 1750 }, [tariff([
+      { type: 'FLAT', price: 1, stepSize: 0 },
+      { type: 'TIME', price: 12, stepSize: 300 },
+      { type: 'PARKING_TIME', price: 6, stepSize: 60 }
+    ])]);
+
+    expect(cost?.amount).toBeCloseTo(7, 6); // $1 + 30 minutes at $12 per hour, no parking
+  });
+
+  it('uses the first price component of each type across the tariff elements', () => {
+    const cost = estimateChargingCost(stop, [{
+      id: 'tariff-1',
+      currency: 'EUR',
+      type: '',
+      elements: [
+        { priceComponents: [{ type: 'ENERGY', price: 0.5, stepSize: 0 }] },
+        { priceComponents: [{ type: 'ENERGY', price: 0.8, stepSize: 0 }, { type: 'FLAT', price: 2, stepSize: 0 }] }
+      ]
+    }]);
+
+    expect(cost).toEqual({ currency: 'EUR', amount: expect.closeTo(24.6, 6) });
+  });
+
+  it('returns null when the station has no tariff with prices', () => {
+    expect(estimateChargingCost(stop, undefined)).toBeNull();
+    expect(estimateChargingCost(stop, [])).toBeNull();
+    expect(estimateChargingCost(stop, [tariff([])])).toBeNull();
+  });
+});
+
+describe('getTripChargingCost', () => {
+  it('sums the known costs per currency and counts the unknown ones', () => {
+    const trip = getTripChargingCost([
+      { currency: 'USD', amount: 10 },
+      null,
+      { currency: 'EUR', amount: 4 },
+      { currency: 'USD', amount: 2.5 }
+    ]);
+
+    expect(trip).toEqual({
+      totals: [{ currency: 'USD', amount: 12.5 }, { currency: 'EUR', amount: 4 }],
+      unknownStops: 1
+    });
+  });
+});
+
+describe('formatTripChargingCost', () => {
+  it('lists the totals and the stops with an unknown cost', () => {
+    expect(formatChargingCost({ currency: 'USD', amount: 12.345 })).toBe('$12.35');
+    expect(formatTripChargingCost({ totals: [{ currency: 'USD', amount: 12.5 }], unknownStops: 0 })).toBe('$12.50');
+    expect(formatTripChargingCost({ totals: [{ currency: 'USD', amount: 12.5 }, { currency: 'EUR', amount: 4 }], unknownStops: 2 }))
+      .toBe('$12.50 + €4.00 + unknown at 2 stops');
+    expect(formatTripChargingCost({ totals: [], unknownStops: 1 })).toBe('Unknown');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Charging Cost
+ *
+ * Estimates what charging stops cost from the OCPI tariffs of their
+ * stations. Tariff elements have no restrictions in the EV Charge Finder
+ * API, so the first price component of each type applies, as in OCPI.
+ * Prices exclude VAT.
+ */
+
+import { ChargingCost, ChargingPriceComponent, ChargingTariff, ChargingWaypoint, TripChargingCost } from './types';
+
+/**
+ * Rounds a billed quantity up to a whole number of steps; a step size of zero bills the exact quantity
+ */
+function roundUpToStep(quantity: number, stepSize: number): number {
+  return stepSize > 0 ? Math.ceil(quantity / stepSize) * stepSize : quantity;
+}
+
+/**
+ * Chooses the tariff a driver stopping on a trip pays
+ *
+ * Pay-as-you-go (AD_HOC_PAYMENT) tariffs are preferred, as they need no
+ * subscription; otherwise the first tariff with price components is used.
+ *
+ * @param tariffs - The tariffs of the station
+ * @returns ChargingTariff | undefined - The tariff, or undefined if none has a price component
+ */
+export function selectTariff(tariffs: ChargingTariff[]): ChargingTariff | undefined {
+  const priced = tariffs.filter(tariff => tariff.elements.some(element => element.priceComponents.length > 0));
+  return priced.find(tariff => tariff.type === 'AD_HOC_PAYMENT') ?? priced[0];
+}
+
+/**
+ * Estimates the cost of a charging session
+ *
+ * ENERGY is billed on the energy added (chargeTo - chargeAtArrival), TIME on
+ * the charge time, each rounded up to its step size; FLAT is billed once.
+ * The route leaves as soon as charging ends, so PARKING_TIME adds nothing.
+ *
+ * @param stop - The charging stop
+ * @param tariffs - The tariffs of its station; undefined when they are not known
+ * @returns ChargingCost | null - The estimated cost, or null if the station has no usable tariff
+ */
+export function estimateChargingCost(stop: ChargingWaypoint, tariffs: ChargingTariff[] | undefined): ChargingCost | null {
+  const tariff = selectTariff(tariffs ?? []);
+  if (!tariff) {
+    return null;
+  }
+
+  // The first price component of each type applies
+  const components = new Map<string, ChargingPriceComponent>();
+  tariff.elements
+    .flatMap(element => element.priceComponents)
+    .forEach(component => {
+      if (!components.has(component.type)) {
+        components.set(component.type, component);
+      }
+    });
+
+  const energy = components.get('ENERGY');
+  const time = components.get('TIME');
+  const flat = components.get('FLAT');
+  const energyAdded = Math.max(0, stop.chargeTo - stop.chargeAtArrival); // Wh
+
+  let amount = flat?.price ?? 0;
+  if (energy) {
+    amount += energy.price * roundUpToStep(energyAdded, energy.stepSize) / 1000; // Price per kWh
+  }
+  if (time) {
+    amount += time.price * roundUpToStep(stop.chargeTime, time.stepSize) / 3600; // Price per hour
+  }
+
+  return { currency: tariff.currency, amount };
+}
+
+/**
+ * Sums the estimated costs of the charging stops of a trip
+ *
+ * @param costs - The estimated cost of each stop, null when unknown
+ * @returns TripChargingCost - The totals per currency, in order of first use, and the number of stops with an unknown cost
+ */
+export function getTripChargingCost(costs: Array<ChargingCost | null>): TripChargingCost {
+  const totals: ChargingCost[] = [];
+  let unknownStops = 0;
+
+  costs.forEach(cost => {
+    if (!cost) {
+      unknownStops++;
+      return;
+    }
+    const total = totals.find(item => item.currency === cost.currency);
+    if (total) {
+      total.amount += cost.amount;
+    } else {
+      totals.push({ ...cost });
+    }
+  });
+
+  return { totals, unknownStops };
+}
+
+/**
+ * Formats a charging cost in its currency
+ *
+ * @param cost - The cost
+ * @returns string - e.g. "$12.35"
+ */
+export function formatChargingCost(cost: ChargingCost): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: cost.currency }).format(cost.amount);
+  } catch {
+    // Not an ISO 4217 code
+    return `${cost.amount.toFixed(2)} ${cost.currency}`;
+  }
+}
+
+/**
+ * Describes the estimated charging cost of a trip
+ *
+ * @param cost - The trip cost
+ * @returns string - e.g. "$24.10", "$24.10 + €8.00" or "$24.10 + unknown at 1 stop", and "Unknown" when no stop has a known cost
+ */
+export function formatTripChargingCost(cost: TripChargingCost): string {
+  if (cost.totals.length === 0) {
+    return 'Unknown';
+  }
+  const totals = cost.totals.map(formatChargingCost).join(' + ');
+  return cost.unknownStops > 0
+    ? `${totals} + unknown at ${cost.unknownStops} ${cost.unknownStops === 1 ? 'stop' : 'stops'}`
+    : totals;
+}
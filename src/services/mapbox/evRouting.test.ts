@@ -0,0 +1,263 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateDrivingTime,
+  calculateTotalChargingTime,
+  formatDistance,
+  formatDuration,
+  formatEnergy,
+  getArrivalCharge,
+  getFerryCrossings,
+  getItinerary,
+  getLegChargingStops,
+  getTripLegs,
+  isFerryStep
+} from './evRouting';
+import { ChargingWaypoint, EvRoute, RouteLeg, RouteStep } from './types';
+
+// A route leg with the given distance and duration
+const leg = (distance: number, duration: number): RouteLeg => ({ distance, duration, summary: '', steps: [] });
+
+// A user waypoint, or a charging stop when a charge time is given
+const waypoint = (name: string, chargeTime?: number) => ({
+  name,
+  location: [0, 0] as [number, number],
+  metadata: chargeTime === undefined ? undefined : {
+    type: 'charging-station',
+    name,
+    chargeTime,
+    chargeTo: 60000,
+    chargeAtArrival: 15000,
+    plugType: 'ccs_combo_type1',
+    currentType: 'dc',
+    powerKw: 150,
+    stationId: name
+  }
+});
+
+// Builds a route from its waypoints, with one leg between each pair
+const buildRoute = (waypoints: ReturnType<typeof waypoint>[], legs: RouteLeg[]): EvRoute => ({
+  distance: legs.reduce((total, item) => total + item.distance, 0),
+  duration: legs.reduce((total, item) => total + item.duration, 0),
+  geometry: { type: 'LineString', coordinates: [] },
+  legs,
+  waypoints,
+  chargingWaypoints: waypoints
+    .filter(item => item.metadata)
+    .map(item => ({ ...item.metadata, location: item.location }) as ChargingWaypoint)
+});
+
+describe('formatDuration', () => {
+  it('formats durations under an hour in minutes', () => {
+    expect(formatDuration(0)).toBe('0 minutes');
+    expect(formatDuration(59)).toBe('0 minutes');
+    expect(formatDuration(60)).toBe('1 minute');
+    expect(formatDuration(45 * 60)).toBe('45 minutes');
+  });
+
+  it('formats hours with and without remaining minutes', () => {
+    expect(formatDuration(3600)).toBe('1 hour');
+    expect(formatDuration(3660)).toBe('1 hour 1 minute');
+    expect(formatDuration(2 * 3600 + 30 * 60)).toBe('2 hours 30 minutes');
+    expect(formatDuration(26 * 3600)).toBe('26 hours');
+  });
+});
+
+describe('formatEnergy', () => {
+  it('formats watt-hours as kilowatt-hours', () => {
+    expect(formatEnergy(0)).toBe('0.0 kWh');
+    expect(formatEnergy(45230)).toBe('45.2 kWh');
+  });
+});
+
+describe('formatDistance', () => {
+  it('formats distances in miles by default', () => {
+    expect(formatDistance(0)).toBe('0.0 miles');
+    expect(formatDistance(16093.4)).toBe('10.0 miles');
+  });
+
+  it('uses the singular only when the displayed value is one mile', () => {
+    expect(formatDistance(1609.34)).toBe('1.0 mile');
+    expect(formatDistance(1600)).toBe('1.0 mile');
+    expect(formatDistance(1700)).toBe('1.1 miles');
+  });
+
+  it('formats distances in kilometers', () => {
+    expect(formatDistance(16900, false)).toBe('16.9 km');
+    expect(formatDistance(450, false)).toBe('0.5 km');
+  });
+});
+
+describe('calculateTotalChargingTime', () => {
+  it('sums the charging time of every stop', () => {
+    const route = {
+      chargingWaypoints: [{ chargeTime: 600 }, { chargeTime: 1200 }]
+    } as EvRoute;
+
+    expect(calculateTotalChargingTime(route)).toBe(1800);
+    expect(calculateTotalChargingTime({ chargingWaypoints: [] } as unknown as EvRoute)).toBe(0);
+  });
+});
+
+describe('calculateDrivingTime', () => {
+  it('excludes the time spent charging', () => {
+    const route = {
+      duration: 10000,
+      chargingWaypoints: [{ chargeTime: 600 }, { chargeTime: 1200 }]
+    } as EvRoute;
+
+    expect(calculateDrivingTime(route)).toBe(8200);
+    expect(calculateDrivingTime({ duration: 500, chargingWaypoints: [] } as unknown as EvRoute)).toBe(500);
+  });
+});
+
+describe('getArrivalCharge', () => {
+  it('returns the last state of charge of the last leg', () => {
+    const route = {
+      legs: [
+        { annotation: { distance: [], duration: [], speed: [], stateOfCharge: [70, 40] } },
+        { annotation: { distance: [], duration: [], speed: [], stateOfCharge: [75, 52, 31] } }
+      ]
+    } as unknown as EvRoute;
+
+    expect(getArrivalCharge(route)).toBe(31);
+  });
+
+  it('returns undefined without state of charge annotations', () => {
+    expect(getArrivalCharge({ legs: [] } as unknown as EvRoute)).toBeUndefined();
+    expect(getArrivalCharge({ legs: [{ annotation: undefined }] } as unknown as EvRoute)).toBeUndefined();
+    expect(getArrivalCharge({
+      legs: [{ annotation: { distance: [], duration: [], speed: [], stateOfCharge: [] } }]
+    } as unknown as EvRoute)).toBeUndefined();
+  });
+});
+
+describe('getTripLegs', () => {
+  it('groups the legs between user waypoints and attributes charging stops to them', () => {
+    const route = buildRoute(
+      [waypoint('Start'), waypoint('Charger A', 600), waypoint('Hotel'), waypoint('Charger B', 900), waypoint('Charger C', 300), waypoint('End')],
+      [leg(100000, 3600), leg(50000, 1800), leg(80000, 3000), leg(90000, 3200), leg(20000, 900)]
+    );
+
+    const tripLegs = getTripLegs(route);
+
+    expect(tripLegs).toHaveLength(2);
+    expect(tripLegs[0]).toMatchObject({ startIndex: 0, endIndex: 2, distance: 150000, duration: 5400, chargingTime: 600 });
+    expect(tripLegs[0].chargingStops.map(stop => stop.name)).toEqual(['Charger A']);
+    expect(tripLegs[0].legs).toHaveLength(2);
+    expect(tripLegs[1]).toMatchObject({ startIndex: 2, endIndex: 5, distance: 190000, duration: 7100, chargingTime: 1200 });
+    expect(tripLegs[1].chargingStops.map(stop => stop.name)).toEqual(['Charger B', 'Charger C']);
+  });
+
+  it('returns one trip leg for a route without intermediate destinations', () => {
+    const route = buildRoute([waypoint('Start'), waypoint('End')], [leg(1000, 60)]);
+
+    expect(getTripLegs(route)).toEqual([
+      { startIndex: 0, endIndex: 1, distance: 1000, duration: 60, chargingTime: 0, chargingStops: [], legs: route.legs }
+    ]);
+  });
+
+  it('reports the whole route as one trip leg when waypoints and legs do not line up', () => {
+    const route = buildRoute([waypoint('Start'), waypoint('Charger', 600), waypoint('End')], [leg(1000, 60)]);
+
+    const tripLegs = getTripLegs(route);
+
+    expect(tripLegs).toHaveLength(1);
+    expect(tripLegs[0]).toMatchObject({ startIndex: 0, endIndex: 2, distance: 1000, chargingTime: 600 });
+  });
+});
+
+describe('getLegChargingStops', () => {
+  it('returns the charging stop each leg ends at', () => {
+    const route = buildRoute(
+      [waypoint('Start'), waypoint('Charger A', 600), waypoint('Hotel'), waypoint('Charger B', 900), waypoint('End')],
+      [leg(100000, 3600), leg(50000, 1800), leg(80000, 3000), leg(20000, 900)]
+    );
+
+    expect(getLegChargingStops(route).map(stop => stop?.name)).toEqual(['Charger A', undefined, 'Charger B', undefined]);
+  });
+
+  it('returns no charging stops when waypoints and legs do not line up', () => {
+    const route = buildRoute([waypoint('Start'), waypoint('Charger', 600), waypoint('End')], [leg(1000, 60)]);
+
+    expect(getLegChargingStops(route)).toEqual([undefined]);
+  });
+});
+
+describe('getItinerary', () => {
+  it('lists the steps of each leg with its charging stop', () => {
+    const steps: RouteStep[] = [{
+      distance: 1000,
+      duration: 60,
+      geometry: { type: 'LineString', coordinates: [] },
+      name: 'Main Street',
+      mode: 'driving',
+      maneuver: { location: [0, 0], bearingBefore: 0, bearingAfter: 0, type: 'depart', instruction: 'Drive north on Main Street.' },
+      intersections: []
+    }];
+    const route = buildRoute(
+      [waypoint('Start'), waypoint('Charger', 600), waypoint('End')],
+      [{ ...leg(1000, 60), steps }, leg(2000, 120)]
+    );
+
+    const itinerary = getItinerary(route);
+
+    expect(itinerary).toHaveLength(2);
+    expect(itinerary[0]).toMatchObject({ distance: 1000, duration: 60, steps });
+    expect(itinerary[0].chargingStop?.name).toBe('Charger');
+    expect(itinerary[1]).toMatchObject({ distance: 2000, duration: 120, steps: [] });
+    expect(itinerary[1].chargingStop).toBeUndefined();
+  });
+});
+
+// A step of the given mode, distance and duration
+const step = (mode: string, name: string, distance: number, duration: number): RouteStep => ({
+  distance,
+  duration,
+  geometry: { type: 'LineString', coordinates: [] },
+  name,
+  mode,
+  maneuver: { location: [distance, 0], bearingBefore: 0, bearingAfter: 0, type: 'turn', instruction: `Continue on ${name}.` },
+  intersections: []
+});
+
+describe('isFerryStep', () => {
+  it('flags steps with mode ferry', () => {
+    expect(isFerryStep(step('ferry', 'Ferry', 5000, 1800))).toBe(true);
+    expect(isFerryStep(step('driving', 'Main Street', 5000, 300))).toBe(false);
+  });
+});
+
+describe('getFerryCrossings', () => {
+  it('joins consecutive ferry steps into one crossing', () => {
+    const route = buildRoute([waypoint('Start'), waypoint('End')], [{
+      ...leg(16000, 3300),
+      steps: [
+        step('driving', 'Harbor Road', 1000, 100),
+        step('ferry', 'Island Ferry', 12000, 2400),
+        step('ferry', '', 2000, 600),
+        step('driving', 'Pier Street', 1000, 200)
+      ]
+    }]);
+
+    expect(getFerryCrossings(route)).toEqual([
+      { name: 'Island Ferry', distance: 14000, duration: 3000, location: [12000, 0] }
+    ]);
+  });
+
+  it('lists separate crossings in route order', () => {
+    const route = buildRoute([waypoint('Start'), waypoint('Charger', 600), waypoint('End')], [
+      { ...leg(13000, 2000), steps: [step('ferry', 'First Ferry', 12000, 1900), step('driving', 'Quay', 1000, 100)] },
+      { ...leg(8000, 1000), steps: [step('driving', 'Quay', 1000, 100), step('ferry', 'Second Ferry', 7000, 900)] }
+    ]);
+
+    expect(getFerryCrossings(route).map(crossing => crossing.name)).toEqual(['First Ferry', 'Second Ferry']);
+  });
+
+  it('returns no crossings for a route without ferries', () => {
+    const route = buildRoute([waypoint('Start'), waypoint('End')], [
+      { ...leg(1000, 100), steps: [step('driving', 'Main Street', 1000, 100)] }
+    ]);
+
+    expect(getFerryCrossings(route)).toEqual([]);
+  });
+});
@@ -8,19 +8,60 @@
  */
 
 import { 
+  ChargingWaypoint,
   EvRoute, 
   EvVehicleParams,
-  ChargingWaypoint
+  FerryCrossing,
+  ItineraryLeg,
+  RouteExclusion,
+  RouteStep,
+  RouteTiming,
+  RouteWaypoint,
+  TripLeg
 } from './types';
+import { toEvRoutes } from './transforms';
+
+/**
+ * Maximum number of intermediate waypoints between the start and the end of a route
+ */
+export const MAX_ROUTE_WAYPOINTS = 10;
+
+/**
+ * Maximum number of routes returned for a trip, counting the recommended route and its alternatives
+ */
+export const MAX_ROUTE_ALTERNATIVES = 3;
+
+/**
+ * How each route of a trip is labelled and drawn, by its position in the list of routes
+ */
+export const ROUTE_STYLES: Array<{ label: string; color: [number, number, number] }> = [
+  { label: 'Recommended', color: [0, 100, 255] }, // Blue
+  { label: 'Alternative 1', color: [230, 126, 34] }, // Orange
+  { label: 'Alternative 2', color: [22, 160, 133] } // Teal
+];
+
+/**
+ * Road features a route can avoid, in the order they are offered
+ */
+export const ROUTE_EXCLUSIONS: Array<{ exclusion: RouteExclusion; label: string }> = [
+  { exclusion: 'toll', label: 'Tolls' },
+  { exclusion: 'ferry', label: 'Ferries' },
+  { exclusion: 'motorway', label: 'Highways' }
+];
 
 /**
  * Calculates an EV route between two points with charging stops as needed
  * 
+ * Only the recommended route is returned; use calculateEvRoutes for the alternatives.
+ * 
  * @param startLat - Starting point latitude
  * @param startLng - Starting point longitude
  * @param endLat - Destination point latitude
  * @param endLng - Destination point longitude
  * @param vehicleParams - EV vehicle parameters
+ * @param waypoints - Intermediate destinations in visiting order, as [longitude, latitude] or charging stations to charge at
+ * @param timing - When to depart or arrive; without it the route leaves now
+ * @param exclude - Road features to avoid
  * @returns Promise<EvRoute | null> - The calculated route or null if no route could be found
  */
 export async function calculateEvRoute(
@@ -28,20 +69,79 @@ export async function calculateEvRoute(
   startLng: number,
   endLat: number,
   endLng: number,
-  vehicleParams: EvVehicleParams = {}
+  vehicleParams: EvVehicleParams = {},
+  waypoints: RouteWaypoint[] = [],
+  timing?: RouteTiming,
+  exclude: RouteExclusion[] = []
 ): Promise<EvRoute | null> {
+  const routes = await calculateEvRoutes(startLat, startLng, endLat, endLng, vehicleParams, waypoints, timing, exclude);
+  return routes[0] ?? null;
+}
+
+/**
+ * Calculates EV routes between two points with charging stops as needed, with up to
+ * MAX_ROUTE_ALTERNATIVES routes to choose from
+ * 
+ * Mapbox only offers alternatives for trips without intermediate destinations.
+ * With a timing, routes are planned for the traffic expected at that time.
+ * 
+ * @param startLat - Starting point latitude
+ * @param startLng - Starting point longitude
+ * @param endLat - Destination point latitude
+ * @param endLng - Destination point longitude
+ * @param vehicleParams - EV vehicle parameters
+ * @param waypoints - Intermediate destinations in visiting order, as [longitude, latitude] or charging stations to charge at
+ * @param timing - When to depart or arrive; without it the route leaves now
+ * @param exclude - Road features to avoid
+ * @returns Promise<EvRoute[]> - The routes, recommended route first, or an empty array if no route could be found
+ */
+export async function calculateEvRoutes(
+  startLat: number,
+  startLng: number,
+  endLat: number,
+  endLng: number,
+  vehicleParams: EvVehicleParams = {},
+  waypoints: RouteWaypoint[] = [],
+  timing?: RouteTiming,
+  exclude: RouteExclusion[] = []
+): Promise<EvRoute[]> {
   try {
     // Build the URL with required parameters
     let url = `/api/routes/ev?` +
       `start=${startLng},${startLat}&` +
       `end=${endLng},${endLat}`;
     
+    if (waypoints.length > 0) {
+      const locations = waypoints.map(waypoint => Array.isArray(waypoint) ? waypoint : waypoint.location);
+      url += `&waypoints=${encodeURIComponent(locations.map(point => point.join(',')).join(';'))}`;
+    }
+    // Charging stations to charge at, with an empty entry for each waypoint to pass through
+    if (waypoints.some(waypoint => !Array.isArray(waypoint))) {
+      const stations = waypoints.map(waypoint => Array.isArray(waypoint)
+        ? ''
+        : `${waypoint.stationId},${waypoint.powerKw},${waypoint.currentType}`);
+      url += `&charging_stations=${encodeURIComponent(stations.join(';'))}`;
+    }
+    
     // Add vehicle parameters if provided
     if (vehicleParams.vehicleType) {
       url += `&vehicle=${vehicleParams.vehicleType}`;
     }
     if (vehicleParams.range) {
-      url += `&range=${vehicleParams.range}`;
+      url += `&range=${Math.round(vehicleParams.range)}`;
+    }
+    // Charge levels are in percent; the API route converts them to Wh for the vehicle
+    if (vehicleParams.initialCharge !== undefined) {
+      url += `&initial_charge=${vehicleParams.initialCharge}`;
+    }
+    if (vehicleParams.minCharge !== undefined) {
+      url += `&min_charge=${vehicleParams.minCharge}`;
+    }
+    if (vehicleParams.minChargeAtStation !== undefined) {
+      url += `&min_charge_at_station=${vehicleParams.minChargeAtStation}`;
+    }
+    if (vehicleParams.maxCharge !== undefined) {
+      url += `&max_charge=${vehicleParams.maxCharge}`;
     }
     if (vehicleParams.connectorTypes && vehicleParams.connectorTypes.length > 0) {
       // Map connector types to valid Mapbox connector types if needed
@@ -50,9 +150,13 @@ export async function calculateEvRoute(
         return type;
       });
       url += `&connector_types=${validConnectorTypes.join(',')}`;
-    } else {
-      // Default to common connector types if none provided
-      url += '&connector_types=ccs_combo_type2,ccs_combo_type1';
+    }
+    // Without connector types the API route uses the vehicle's native connectors
+    if (timing) {
+      url += `&${timing.mode}=${encodeURIComponent(timing.time)}`;
+    }
+    if (exclude.length > 0) {
+      url += `&exclude=${exclude.join(',')}`;
     }
     
     const response = await fetch(url);
@@ -64,103 +168,19 @@ export async function calculateEvRoute(
     
     const data = await response.json();
     
-    if (!data.routes || data.routes.length === 0) {
-      return null;
-    }
-    
-    const route = data.routes[0];
-    
-    // Extract charging waypoints
-    const chargingWaypoints: ChargingWaypoint[] = [];
-    
-    // Get waypoints from the correct location in the response
-    const waypointsSource = data.waypoints || route.waypoints || [];
-    
-    
-    // Check if we have any charging waypoints
-    let hasChargingWaypoints = false;
-    
-    waypointsSource.forEach((waypoint: any) => {
-      if (waypoint.metadata && waypoint.metadata.type === 'charging-station') {
-        hasChargingWaypoints = true;
-        // Values should already be in percentage units (0-100)
-        chargingWaypoints.push({
-          type: 'charging-station',
-          name: waypoint.metadata.name,
-          chargeTime: waypoint.metadata.charge_time,
-          chargeTo: waypoint.metadata.charge_to,
-          chargeAtArrival: waypoint.metadata.charge_at_arrival,
-          plugType: waypoint.metadata.plug_type,
-          currentType: waypoint.metadata.current_type || '',
-          powerKw: waypoint.metadata.power_kw,
-          stationId: waypoint.metadata.station_id,
-          providerNames: waypoint.metadata.provider_names,
-          location: waypoint.location
-        });
-      }
-    });
-    
-    // Transform the route to our EvRoute interface
-    const evRoute: EvRoute = {
-      distance: route.distance,
-      duration: route.duration,
-      geometry: route.geometry,
-      legs: route.legs.map((leg: any) => ({
-        distance: leg.distance,
-        duration: leg.duration,
-        summary: leg.summary || '',
-        steps: leg.steps.map((step: any) => ({
-          distance: step.distance,
-          duration: step.duration,
-          geometry: step.geometry,
-          name: step.name,
-          mode: step.mode,
-          maneuver: {
-            location: step.maneuver.location,
-            bearingBefore: step.maneuver.bearing_before,
-            bearingAfter: step.maneuver.bearing_after,
-            type: step.maneuver.type,
-            modifier: step.maneuver.modifier,
-            instruction: step.maneuver.instruction
-          },
-          intersections: step.intersections.map((intersection: any) => ({
-            location: intersection.location,
-            bearings: intersection.bearings,
-            entry: intersection.entry,
-            in: intersection.in,
-            out: intersection.out
-          }))
-        })),
-        annotation: leg.annotation ? {
-          distance: leg.annotation.distance,
-          duration: leg.annotation.duration,
-          speed: leg.annotation.speed,
-          stateOfCharge: leg.annotation.state_of_charge
-        } : undefined
-      })),
-      waypoints: waypointsSource.map((waypoint: any) => ({
-        name: waypoint.name,
-        location: waypoint.location,
-        metadata: waypoint.metadata ? {
-          type: waypoint.metadata.type,
-          name: waypoint.metadata.name,
-          chargeTime: waypoint.metadata.charge_time,
-          chargeTo: waypoint.metadata.charge_to,
-          chargeAtArrival: waypoint.metadata.charge_at_arrival,
-          plugType: waypoint.metadata.plug_type,
-          currentType: waypoint.metadata.current_type || '',
-          powerKw: waypoint.metadata.power_kw,
-          stationId: waypoint.metadata.station_id,
-          providerNames: waypoint.metadata.provider_names
-        } : undefined
-      })),
-      chargingWaypoints
+    // Time zones of the route ends are looked up by the API route; missing ones are null
+    const timeZones = {
+      origin: data.time_zones?.origin ?? undefined,
+      destination: data.time_zones?.destination ?? undefined
     };
     
-    return evRoute;
+    // Transform the Mapbox API response to our EvRoute interface
+    return toEvRoutes(data)
+      .slice(0, MAX_ROUTE_ALTERNATIVES)
+      .map(route => ({ ...route, timeZones }));
   } catch (error) {
     console.error('Error calculating EV route:', error instanceof Error ? error.message : error);
-    return null;
+    return [];
   }
 }
 
@@ -175,7 +195,8 @@ export function formatDuration(seconds: number): string {
   const minutes = Math.floor((seconds % 3600) / 60);
   
   if (hours > 0) {
-    return `${hours} ${hours === 1 ? 'hour' : 'hours'} ${minutes > 0 ? `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}` : ''}`;
+    const hoursText = `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+    return minutes > 0 ? `${hoursText} ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}` : hoursText;
   } else {
     return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
   }
@@ -190,14 +211,25 @@ export function formatDuration(seconds: number): string {
  */
 export function formatDistance(meters: number, useImperial: boolean = true): string {
   if (useImperial) {
-    const miles = meters / 1609.34;
-    return `${miles.toFixed(1)} ${miles === 1 ? 'mile' : 'miles'}`;
+    const miles = (meters / 1609.34).toFixed(1);
+    // Singular only when the displayed value is exactly one
+    return `${miles} ${miles === '1.0' ? 'mile' : 'miles'}`;
   } else {
     const km = meters / 1000;
     return `${km.toFixed(1)} km`;
   }
 }
 
+/**
+ * Formats an amount of energy in watt-hours as kilowatt-hours
+ * 
+ * @param wattHours - Energy in Wh
+ * @returns Formatted energy string (e.g., "45.2 kWh")
+ */
+export function formatEnergy(wattHours: number): string {
+  return `${(wattHours / 1000).toFixed(1)} kWh`;
+}
+
 /**
  * Calculates the total charging time for a route
  * 
@@ -207,3 +239,160 @@ export function formatDistance(meters: number, useImperial: boolean = true): str
 export function calculateTotalChargingTime(route: EvRoute): number {
   return route.chargingWaypoints.reduce((total, waypoint) => total + waypoint.chargeTime, 0);
 }
+
+/**
+ * Calculates the time spent driving on a route, excluding charging stops
+ * 
+ * @param route - The EV route
+ * @returns Driving time in seconds
+ */
+export function calculateDrivingTime(route: EvRoute): number {
+  return Math.max(0, route.duration - calculateTotalChargingTime(route));
+}
+
+/**
+ * Returns the battery charge on arrival at the destination
+ * 
+ * @param route - The EV route
+ * @returns number | undefined - Charge in percent, or undefined if the route has no state of charge annotations
+ */
+export function getArrivalCharge(route: EvRoute): number | undefined {
+  const lastLeg = route.legs[route.legs.length - 1];
+  const stateOfCharge = lastLeg?.annotation?.stateOfCharge;
+  return stateOfCharge && stateOfCharge.length > 0 ? stateOfCharge[stateOfCharge.length - 1] : undefined;
+}
+
+/**
+ * Returns the charging stop each leg of a route ends at
+ * 
+ * Legs end at a waypoint each; the charging stops among them are matched
+ * in order with route.chargingWaypoints.
+ * 
+ * @param route - The EV route
+ * @returns Array<ChargingWaypoint | undefined> - One entry per leg: its charging stop, or undefined if
+ * it ends at a start, end or intermediate destination, or if the waypoints do not match the legs
+ */
+export function getLegChargingStops(route: EvRoute): Array<ChargingWaypoint | undefined> {
+  if (route.waypoints.length !== route.legs.length + 1) {
+    return route.legs.map(() => undefined);
+  }
+
+  let chargingIndex = 0;
+  return route.legs.map((_leg, index) => {
+    // The last leg ends at the destination
+    const isChargingStop = index < route.legs.length - 1 &&
+      route.waypoints[index + 1].metadata?.type === 'charging-station';
+    return isChargingStop ? route.chargingWaypoints[chargingIndex++] : undefined;
+  });
+}
+
+/**
+ * Lists the steps of a route by leg, with the charging stop each leg ends at
+ * 
+ * @param route - The EV route
+ * @returns ItineraryLeg[] - One entry per route leg, in order
+ */
+export function getItinerary(route: EvRoute): ItineraryLeg[] {
+  const chargingStops = getLegChargingStops(route);
+  return route.legs.map((leg, index) => ({
+    distance: leg.distance,
+    duration: leg.duration,
+    steps: leg.steps,
+    chargingStop: chargingStops[index]
+  }));
+}
+
+/**
+ * Splits a route into trip legs between consecutive user waypoints
+ *
+ * Waypoints with charging metadata are charging stops added by the API;
+ * every other waypoint is a start, end or intermediate destination.
+ *
+ * @param route - The EV route
+ * @returns TripLeg[] - One leg per pair of consecutive user waypoints
+ */
+export function getTripLegs(route: EvRoute): TripLeg[] {
+  // Without one waypoint per leg boundary the legs cannot be attributed, so report a single trip leg
+  if (route.waypoints.length !== route.legs.length + 1) {
+    return [{
+      startIndex: 0,
+      endIndex: Math.max(0, route.waypoints.length - 1),
+      distance: route.legs.reduce((total, leg) => total + leg.distance, 0),
+      duration: route.legs.reduce((total, leg) => total + leg.duration, 0),
+      chargingTime: calculateTotalChargingTime(route),
+      chargingStops: route.chargingWaypoints,
+      legs: route.legs
+    }];
+  }
+
+  const tripLegs: TripLeg[] = [];
+  let current: TripLeg | null = null;
+  let chargingIndex = 0;
+
+  route.legs.forEach((leg, index) => {
+    if (!current) {
+      current = { startIndex: index, endIndex: index, distance: 0, duration: 0, chargingTime: 0, chargingStops: [], legs: [] };
+    }
+    current.legs.push(leg);
+    current.distance += leg.distance;
+    current.duration += leg.duration;
+    current.endIndex = index + 1;
+
+    // The leg ends at a charging stop, so the trip leg continues with the next one
+    const isChargingStop = route.waypoints[index + 1].metadata?.type === 'charging-station';
+    if (isChargingStop && index + 1 < route.waypoints.length - 1) {
+      const stop: ChargingWaypoint | undefined = route.chargingWaypoints[chargingIndex++];
+      if (stop) {
+        current.chargingStops.push(stop);
+        current.chargingTime += stop.chargeTime;
+      }
+      return;
+    }
+
+    tripLegs.push(current);
+    current = null;
+  });
+
+  return tripLegs;
+}
+
+/**
+ * Checks whether a step of a route is driven onto a ferry
+ * 
+ * @param step - The route step
+ * @returns boolean - True if the step is a ferry crossing
+ */
+export function isFerryStep(step: RouteStep): boolean {
+  return step.mode === 'ferry';
+}
+
+/**
+ * Lists the ferry crossings of a route
+ * 
+ * Consecutive ferry steps within a leg, such as a crossing with a change of
+ * ferry line, count as one crossing.
+ * 
+ * @param route - The EV route
+ * @returns FerryCrossing[] - The crossings in route order; empty if the route takes no ferry
+ */
+export function getFerryCrossings(route: EvRoute): FerryCrossing[] {
+  const crossings: FerryCrossing[] = [];
+
+  route.legs.forEach(leg => {
+    let current: FerryCrossing | null = null;
+    leg.steps.forEach(step => {
+      if (!isFerryStep(step)) {
+        current = null;
+        return;
+      }
+      if (!current) {
+        current = { name: step.name, distance: 0, duration: 0, location: step.maneuver.location };
+        crossings.push(current);
+      }
+      current.distance += step.distance;
+      current.duration += step.duration;
+    });
+  });
+
+  return crossings;
+}
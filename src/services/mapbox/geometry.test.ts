@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { decodePolyline, getPointAlongLine, sampleLineVertices, simplifyLine, splitLineAt, toLineString } from './geometry';
+
+// Washington, DC, the Delaware Welcome Center and New York encoded as polyline6
+const ENCODED_POLYLINE6 = '_sueiAfu}|qC_utk@ok`qA_{o`Awi}eB';
+const DECODED_POSITIONS = [[-77.0369, 38.9072], [-75.6927, 39.6392], [-74.006, 40.7128]];
+
+describe('decodePolyline', () => {
+  it('decodes polyline6 into [longitude, latitude] positions', () => {
+    const positions = decodePolyline(ENCODED_POLYLINE6);
+
+    expect(positions).toHaveLength(3);
+    positions.forEach((position, index) => {
+      expect(position[0]).toBeCloseTo(DECODED_POSITIONS[index][0], 6);
+      expect(position[1]).toBeCloseTo(DECODED_POSITIONS[index][1], 6);
+    });
+  });
+
+  it('decodes polylines with precision 5', () => {
+    // Example from the polyline algorithm documentation
+    const positions = decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@', 5);
+
+    expect(positions).toEqual([[-120.2, 38.5], [-120.95, 40.7], [-126.453, 43.252]]);
+  });
+
+  it('returns no positions for an empty string', () => {
+    expect(decodePolyline('')).toEqual([]);
+  });
+
+  it('throws when the string ends in the middle of a coordinate', () => {
+    expect(() => decodePolyline(ENCODED_POLYLINE6.slice(0, -1))).toThrow('Invalid encoded polyline');
+    expect(() => decodePolyline('_sueiA')).toThrow('Invalid encoded polyline');
+  });
+});
+
+describe('toLineString', () => {
+  it('decodes encoded polylines', () => {
+    const line = toLineString(ENCODED_POLYLINE6);
+
+    expect(line.type).toBe('LineString');
+    expect(line.coordinates).toHaveLength(3);
+  });
+
+  it('returns GeoJSON LineStrings as they are', () => {
+    const line = { type: 'LineString' as const, coordinates: DECODED_POSITIONS as Array<[number, number]> };
+
+    expect(toLineString(line)).toBe(line);
+  });
+});
+
+describe('getPointAlongLine', () => {
+  // Two segments of equal length along the equator
+  const line = { type: 'LineString' as const, coordinates: [[0, 0], [1, 0], [2, 0]] as Array<[number, number]> };
+
+  it('interpolates the position at a fraction of the length', () => {
+    expect(getPointAlongLine(line, 0)).toEqual([0, 0]);
+    expect(getPointAlongLine(line, 0.25)?.[0]).toBeCloseTo(0.5, 6);
+    expect(getPointAlongLine(line, 0.75)?.[0]).toBeCloseTo(1.5, 6);
+    expect(getPointAlongLine(line, 1)).toEqual([2, 0]);
+  });
+
+  it('clamps fractions outside 0-1 to the ends', () => {
+    expect(getPointAlongLine(line, -1)).toEqual([0, 0]);
+    expect(getPointAlongLine(line, 2)).toEqual([2, 0]);
+  });
+
+  it('handles empty and single-position lines', () => {
+    expect(getPointAlongLine({ type: 'LineString', coordinates: [] }, 0.5)).toBeUndefined();
+    expect(getPointAlongLine({ type: 'LineString', coordinates: [[1, 1]] }, 0.5)).toEqual([1, 1]);
+  });
+});
+
+describe('splitLineAt', () => {
+  const line = { type: 'LineString' as const, coordinates: [[0, 0], [1, 0], [2, 0]] as Array<[number, number]> };
+
+  it('splits the line into pieces that keep its vertices', () => {
+    const pieces = splitLineAt(line, [0, 0.25, 0.75, 1]);
+
+    expect(pieces).toHaveLength(3);
+    expect(pieces[0][0]).toEqual([0, 0]);
+    expect(pieces[0][1][0]).toBeCloseTo(0.5, 6);
+    expect(pieces[1]).toHaveLength(3);
+    expect(pieces[1][1]).toEqual([1, 0]);
+    expect(pieces[1][2][0]).toBeCloseTo(1.5, 6);
+    expect(pieces[2][pieces[2].length - 1]).toEqual([2, 0]);
+  });
+
+  it('returns zero-length pieces for repeated fractions', () => {
+    const pieces = splitLineAt(line, [0, 0.5, 0.5, 1]);
+
+    expect(pieces).toHaveLength(3);
+    expect(pieces[1][0][0]).toBeCloseTo(1, 6);
+    expect(pieces[1][pieces[1].length - 1][0]).toBeCloseTo(1, 6);
+  });
+
+  it('returns no pieces for lines with fewer than two positions or fewer than two fractions', () => {
+    expect(splitLineAt({ type: 'LineString', coordinates: [[0, 0]] }, [0, 1])).toEqual([]);
+    expect(splitLineAt(line, [0])).toEqual([]);
+  });
+});
+
+describe('sampleLineVertices', () => {
+  const line = {
+    type: 'LineString' as const,
+    coordinates: [[0, 0], [0.1, 0], [0.2, 0], [0.3, 0], [0.4, 0], [1, 0], [2, 0]] as Array<[number, number]>
+  };
+
+  it('picks the vertices nearest to evenly spaced distances, keeping both ends', () => {
+    expect(sampleLineVertices(line, 3)).toEqual([[0, 0], [1, 0], [2, 0]]);
+    expect(sampleLineVertices(line, 2)).toEqual([[0, 0], [2, 0]]);
+  });
+
+  it('returns each vertex at most once', () => {
+    const vertices = sampleLineVertices(line, 20);
+
+    expect(vertices).toEqual(line.coordinates);
+  });
+
+  it('returns no vertices for an empty line', () => {
+    expect(sampleLineVertices({ type: 'LineString', coordinates: [] }, 5)).toEqual([]);
+  });
+});
+
+describe('simplifyLine', () => {
+  it('picks the sharpest bends first', () => {
+    const line = {
+      type: 'LineString' as const,
+      coordinates: [[0, 0], [0.5, 0.01], [1, 0], [1.5, 0], [1.6, 0.5], [1.7, 0], [3, 0]] as Array<[number, number]>
+    };
+
+    expect(simplifyLine(line, 3)).toEqual([[0, 0], [1.6, 0.5], [3, 0]]);
+    expect(simplifyLine(line, 5)).toEqual([[0, 0], [1.5, 0], [1.6, 0.5], [1.7, 0], [3, 0]]);
+  });
+
+  it('splits straight lines near their middle', () => {
+    const line = {
+      type: 'LineString' as const,
+      coordinates: Array.from({ length: 9 }, (_value, index): [number, number] => [index / 10, 0])
+    };
+
+    expect(simplifyLine(line, 3)).toEqual([[0, 0], [0.4, 0], [0.8, 0]]);
+    expect(simplifyLine(line, 5)).toEqual([[0, 0], [0.2, 0], [0.4, 0], [0.6, 0], [0.8, 0]]);
+  });
+
+  it('returns every vertex of a short line', () => {
+    expect(simplifyLine({ type: 'LineString', coordinates: [[0, 0], [1, 0]] }, 12)).toEqual([[0, 0], [1, 0]]);
+    expect(simplifyLine({ type: 'LineString', coordinates: [[0, 0], [0.5, 0.5], [1, 0]] }, 12)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Route Geometry
+ *
+ * Decodes the line geometries of Directions API routes and steps into
+ * GeoJSON LineStrings, and finds positions along them. Mapbox returns a
+ * GeoJSON LineString when the request sets geometries=geojson and an
+ * encoded polyline otherwise; the API route requests GeoJSON, and encoded
+ * strings are read as polyline6.
+ *
+ * Polyline format: https://developers.google.com/maps/documentation/utilities/polylinealgorithm
+ */
+
+import { GeoJsonLineString, MapboxRouteGeometry } from './types';
+
+/**
+ * Precision of Mapbox polyline6 geometries, in decimal places
+ */
+export const POLYLINE6_PRECISION = 6;
+
+// Great-circle distance between two [longitude, latitude] positions in meters (Haversine formula)
+function distanceMeters(from: [number, number], to: [number, number]): number {
+  const R = 6371000; // Radius of the Earth in meters
+  const dLat = (to[1] - from[1]) * Math.PI / 180;
+  const dLng = (to[0] - from[0]) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(from[1] * Math.PI / 180) * Math.cos(to[1] * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Decodes an encoded polyline into [longitude, latitude] positions
+ *
+ * @param encoded - The encoded polyline, with latitude before longitude in each pair
+ * @param precision - Number of decimal places the coordinates were encoded with (5 for polyline, 6 for polyline6)
+ * @returns Array<[number, number]> - The positions as [longitude, latitude]
+ * @throws Error - If the string ends in the middle of a coordinate
+ */
+export function decodePolyline(encoded: string, precision: number = POLYLINE6_PRECISION): Array<[number, number]> {
+  const factor = Math.pow(10, precision);
+  const positions: Array<[number, number]> = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  // Reads one zigzag-encoded value of 5-bit chunks, least significant first
+  const readValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let chunk: number;
+    do {
+      if (index >= encoded.length) {
+        throw new Error('Invalid encoded polyline: unexpected end of string');
+      }
+      chunk = encoded.charCodeAt(index++) - 63;
+      result |= (chunk & 0x1f) << shift;
+      shift += 5;
+    } while (chunk >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += readValue();
+    lng += readValue();
+    positions.push([lng / factor, lat / factor]);
+  }
+
+  return positions;
+}
+
+/**
+ * Converts a Directions API geometry to a GeoJSON LineString
+ *
+ * @param geometry - A GeoJSON LineString, or a polyline encoded with the given precision
+ * @param precision - Decimal places of encoded polylines
+ * @returns GeoJsonLineString - The line
+ */
+export function toLineString(geometry: MapboxRouteGeometry, precision: number = POLYLINE6_PRECISION): GeoJsonLineString {
+  if (typeof geometry === 'string') {
+    return { type: 'LineString', coordinates: decodePolyline(geometry, precision) };
+  }
+  return geometry;
+}
+
+/**
+ * Returns the position at a fraction of the length of a line
+ *
+ * Route distances are measured along the roads and do not match the length
+ * of the line exactly, so positions on a route are looked up by the fraction
+ * of the route distance rather than by distance.
+ *
+ * @param line - The line
+ * @param fraction - Fraction of the line's length from its start, clamped to 0-1
+ * @returns [number, number] | undefined - The position as [longitude, latitude], or undefined if the line is empty
+ */
+export function getPointAlongLine(line: GeoJsonLineString, fraction: number): [number, number] | undefined {
+  const coordinates = line.coordinates;
+  if (coordinates.length === 0) return undefined;
+
+  const segments = coordinates.slice(1).map((position, index) => distanceMeters(coordinates[index], position));
+  let remaining = Math.min(1, Math.max(0, fraction)) * segments.reduce((total, length) => total + length, 0);
+
+  for (let index = 0; index < segments.length; index++) {
+    if (remaining <= segments[index] && segments[index] > 0) {
+      const ratio = remaining / segments[index];
+      const [fromLng, fromLat] = coordinates[index];
+      const [toLng, toLat] = coordinates[index + 1];
+      return [fromLng + (toLng - fromLng) * ratio, fromLat + (toLat - fromLat) * ratio];
+    }
+    remaining -= segments[index];
+  }
+
+  return coordinates[coordinates.length - 1];
+}
+
+/**
+ * Splits a line into consecutive pieces at fractions of its length
+ *
+ * @param line - The line
+ * @param fractions - Boundaries of the pieces as fractions of the line's length, in increasing order; each is clamped to 0-1
+ * @returns Array<Array<[number, number]>> - One path per pair of consecutive fractions, or none if the line has fewer than two positions
+ */
+export function splitLineAt(line: GeoJsonLineString, fractions: number[]): Array<Array<[number, number]>> {
+  const coordinates = line.coordinates;
+  if (coordinates.length < 2 || fractions.length < 2) return [];
+
+  // Length of the line up to each position
+  const lengths = [0];
+  for (let index = 1; index < coordinates.length; index++) {
+    lengths.push(lengths[index - 1] + distanceMeters(coordinates[index - 1], coordinates[index]));
+  }
+  const total = lengths[lengths.length - 1];
+  const lastSegment = coordinates.length - 2;
+
+  // Index of the line segment that holds the current boundary; boundaries only move forward
+  let segment = 0;
+  const interpolate = (length: number): [number, number] => {
+    const segmentLength = lengths[segment + 1] - lengths[segment];
+    const ratio = segmentLength > 0 ? Math.min(1, Math.max(0, (length - lengths[segment]) / segmentLength)) : 0;
+    const [fromLng, fromLat] = coordinates[segment];
+    const [toLng, toLat] = coordinates[segment + 1];
+    return [fromLng + (toLng - fromLng) * ratio, fromLat + (toLat - fromLat) * ratio];
+  };
+
+  const toLength = (fraction: number) => Math.min(1, Math.max(0, fraction)) * total;
+  let start = toLength(fractions[0]);
+  while (segment < lastSegment && lengths[segment + 1] < start) segment++;
+  let startPosition = interpolate(start);
+
+  const pieces: Array<Array<[number, number]>> = [];
+  for (let index = 1; index < fractions.length; index++) {
+    const end = Math.max(start, toLength(fractions[index]));
+    const path: Array<[number, number]> = [startPosition];
+    // Keep the vertices of the line between the two boundaries
+    while (segment < lastSegment && lengths[segment + 1] < end) {
+      segment++;
+      path.push(coordinates[segment]);
+    }
+    const endPosition = interpolate(end);
+    path.push(endPosition);
+    pieces.push(path);
+    start = end;
+    startPosition = endPosition;
+  }
+
+  return pieces;
+}
+
+/**
+ * Picks vertices of a line spread evenly along its length
+ *
+ * For each of count evenly spaced distances from the start to the end of
+ * the line, the nearest vertex is kept, so the result always starts and ends
+ * with the line's ends and only holds positions of the line.
+ *
+ * @param line - The line
+ * @param count - Number of vertices to pick, at least 2
+ * @returns Array<[number, number]> - The vertices in order; fewer than count when the line has fewer vertices or several distances share a vertex
+ */
+export function sampleLineVertices(line: GeoJsonLineString, count: number): Array<[number, number]> {
+  const coordinates = line.coordinates;
+  if (coordinates.length === 0) return [];
+
+  // Length of the line up to each position
+  const lengths = [0];
+  for (let index = 1; index < coordinates.length; index++) {
+    lengths.push(lengths[index - 1] + distanceMeters(coordinates[index - 1], coordinates[index]));
+  }
+  const total = lengths[lengths.length - 1];
+  const samples = Math.max(2, count);
+
+  const picked: number[] = [];
+  let vertex = 0;
+  for (let index = 0; index < samples; index++) {
+    const target = total * index / (samples - 1);
+    while (vertex < coordinates.length - 1 && lengths[vertex + 1] <= target) vertex++;
+    const nearest = vertex < coordinates.length - 1 && lengths[vertex + 1] - target < target - lengths[vertex] ? vertex + 1 : vertex;
+    if (picked[picked.length - 1] !== nearest) {
+      picked.push(nearest);
+    }
+  }
+  return picked.map(index => coordinates[index]);
+}
+
+// Distance in meters from a position to the segment between two others, on a flat projection around the segment
+function distanceToSegmentMeters(position: [number, number], from: [number, number], to: [number, number]): number {
+  const metersPerDegree = 111320;
+  const scale = Math.cos(from[1] * Math.PI / 180); // Meridians converge away from the equator
+  const x = (position[0] - from[0]) * scale * metersPerDegree;
+  const y = (position[1] - from[1]) * metersPerDegree;
+  const dx = (to[0] - from[0]) * scale * metersPerDegree;
+  const dy = (to[1] - from[1]) * metersPerDegree;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, (x * dx + y * dy) / lengthSquared)) : 0;
+  return Math.hypot(x - t * dx, y - t * dy);
+}
+
+/**
+ * Picks the vertices of a line that best keep its shape
+ *
+ * Starting from the line's ends, the vertex farthest from the part of the
+ * picked line it lies on is added until count vertices are picked, so the
+ * sharpest bends come first. Once every vertex lies within a meter of the
+ * picked line, the longest straight part is split at the vertex nearest its
+ * middle instead, spreading the remaining vertices along the line.
+ *
+ * @param line - The line
+ * @param count - Number of vertices to pick, at least 2
+ * @returns Array<[number, number]> - The vertices in order; fewer than count when the line has fewer vertices
+ */
+export function simplifyLine(line: GeoJsonLineString, count: number): Array<[number, number]> {
+  const coordinates = line.coordinates;
+  if (coordinates.length <= 2) return [...coordinates];
+
+  // Length of the line up to each position
+  const lengths = [0];
+  for (let index = 1; index < coordinates.length; index++) {
+    lengths.push(lengths[index - 1] + distanceMeters(coordinates[index - 1], coordinates[index]));
+  }
+
+  const picked = [0, coordinates.length - 1];
+  while (picked.length < Math.min(Math.max(2, count), coordinates.length)) {
+    let best = { position: 0, index: -1, deviation: -1, length: -1 };
+
+    for (let part = 0; part < picked.length - 1; part++) {
+      const from = picked[part];
+      const to = picked[part + 1];
+      if (to - from < 2) continue;
+
+      // The vertex farthest from the part, or the one nearest its middle when the part is straight
+      let index = from + 1;
+      let deviation = 0;
+      for (let vertex = from + 1; vertex < to; vertex++) {
+        const distance = distanceToSegmentMeters(coordinates[vertex], coordinates[from], coordinates[to]);
+        if (distance > deviation) {
+          index = vertex;
+          deviation = distance;
+        }
+      }
+      if (deviation < 1) {
+        const middle = (lengths[from] + lengths[to]) / 2;
+        for (let vertex = from + 1; vertex < to; vertex++) {
+          if (Math.abs(lengths[vertex] - middle) < Math.abs(lengths[index] - middle)) index = vertex;
+        }
+        deviation = 0;
+      }
+
+      const length = lengths[to] - lengths[from];
+      if (deviation > best.deviation || (deviation === best.deviation && length > best.length)) {
+        best = { position: part + 1, index, deviation, length };
+      }
+    }
+
+    picked.splice(best.position, 0, best.index);
+  }
+
+  return picked.map(index => coordinates[index]);
+}
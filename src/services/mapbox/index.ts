@@ -11,13 +11,168 @@ export * from './types';
 // Re-export charging stations services
 export {
   fetchChargingStations,
-  fetchChargingStationDetails
+  requestChargingStations,
+  fetchChargingStationDetails,
+  fetchStationTariffs
 } from './chargingStations';
 
+// Re-export charging cost estimates
+export {
+  selectTariff,
+  estimateChargingCost,
+  getTripChargingCost,
+  formatChargingCost,
+  formatTripChargingCost
+} from './chargingCost';
+
+// Re-export viewport tile helpers
+export {
+  STATION_TILE_ZOOM,
+  MAX_STATION_TILE_ZOOM,
+  STATION_RESULT_LIMIT,
+  getTileKey,
+  getTileAt,
+  getTileBounds,
+  getChildTiles,
+  getCoveringTiles,
+  getTileSearchArea,
+  wrapBounds,
+  expandBounds,
+  isInBounds,
+  boundsIntersect,
+  distanceKm,
+  fetchTileStations
+} from './stationTiles';
+export type { StationTile } from './stationTiles';
+
+// Re-export station filter helpers
+export {
+  CHARGER_TYPE_FILTERS,
+  POWER_LEVEL_FILTERS,
+  NETWORK_FILTERS,
+  AVAILABILITY_FILTERS,
+  DEFAULT_STATION_FILTERS,
+  buildStationSearchOptions,
+  matchesStationFilters
+} from './stationFilters';
+
+// Re-export station status helpers
+export {
+  STATION_STATUSES,
+  toStationStatus,
+  getStationStatus,
+  formatStationStatus,
+  getStationStatusColor
+} from './stationStatus';
+
+// Re-export route geometry decoding
+export {
+  POLYLINE6_PRECISION,
+  decodePolyline,
+  toLineString,
+  getPointAlongLine,
+  splitLineAt,
+  sampleLineVertices,
+  simplifyLine
+} from './geometry';
+
+// Re-export route line coloring helpers
+export {
+  ROUTE_COLOR_MODES,
+  getScaleColor,
+  getRouteSegmentColor,
+  getRouteSegments
+} from './routeSegments';
+
+// Re-export battery charge profile helpers
+export {
+  getChargeProfile,
+  getChargeAt,
+  getChargingStopEnergy
+} from './chargeProfile';
+
+// Re-export route schedule helpers
+export {
+  DEPARTURE_MODES,
+  isValidLocalTime,
+  isValidTimeZone,
+  localTimeToDate,
+  toLocalTime,
+  getRouteSchedule,
+  formatClockTime
+} from './routeSchedule';
+
+// Re-export route export helpers
+export {
+  ROUTE_EXPORT_FORMATS,
+  toRouteFeatureCollection,
+  toGpx,
+  toKml,
+  exportRoute
+} from './routeExport';
+export type { RouteExportOptions } from './routeExport';
+
+// Re-export track import helpers
+export {
+  IMPORTED_TRACK_COLOR,
+  parseGpxTrack,
+  parseGeoJsonTrack,
+  parseTrack,
+  snapTrackToWaypoints
+} from './routeImport';
+
+// Re-export charging stop swap helpers
+export {
+  ALTERNATIVE_STATION_RADIUS_KM,
+  getAlternativeStations,
+  toPinnedChargingStation,
+  getWaypointsWithStation,
+  getSwapRequest,
+  formatDurationChange
+} from './stationSwap';
+
+// Re-export Mapbox response transforms
+export {
+  toChargingStation,
+  toChargingStationDetails,
+  toChargingWaypoint,
+  toEvRoute,
+  toEvRoutes
+} from './transforms';
+
+// Re-export vehicle profiles
+export {
+  CUSTOM_VEHICLE_ID,
+  DEFAULT_CHARGE_LEVELS,
+  DEFAULT_VEHICLE_PROFILE,
+  VEHICLE_PROFILES,
+  VEHICLE_CONNECTOR_OPTIONS,
+  getVehicleProfile,
+  getDefaultConnectorKeys,
+  toConnectorStandards,
+  getConsumptionAt,
+  withRange,
+  toChargeWh,
+  toDirectionsEvParams
+} from './vehicleProfiles';
+
 // Re-export EV routing services
 export {
+  MAX_ROUTE_WAYPOINTS,
+  MAX_ROUTE_ALTERNATIVES,
+  ROUTE_STYLES,
+  ROUTE_EXCLUSIONS,
   calculateEvRoute,
+  calculateEvRoutes,
   formatDuration,
   formatDistance,
-  calculateTotalChargingTime
+  formatEnergy,
+  calculateTotalChargingTime,
+  calculateDrivingTime,
+  getArrivalCharge,
+  getTripLegs,
+  getLegChargingStops,
+  getItinerary,
+  isFerryStep,
+  getFerryCrossings
 } from './evRouting';
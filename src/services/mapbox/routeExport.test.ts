@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { exportRoute, toGpx, toKml, toRouteFeatureCollection } from './routeExport';
+import { ChargingWaypoint, ExportableRoute } from './types';
+
+const charger: ChargingWaypoint = {
+  type: 'charging-station',
+  name: 'Delaware Welcome Center',
+  chargeTime: 1200,
+  chargeTo: 60000,
+  chargeAtArrival: 15000,
+  plugType: 'ccs_combo_type1',
+  currentType: 'dc',
+  powerKw: 150,
+  stationId: 'station-1',
+  providerNames: ['Electrify America'],
+  location: [-75.6927, 39.6392]
+};
+
+// Washington to New York with one charging stop; the route names the user waypoints after roads
+const route: ExportableRoute = {
+  distance: 365000,
+  duration: 16200,
+  geometry: { type: 'LineString', coordinates: [[-77.0369, 38.9072], [-75.6927, 39.6392], [-74.006, 40.7128]] },
+  waypoints: [
+    { name: 'K Street', location: [-77.0369, 38.9072] },
+    { name: 'Delaware Welcome Center', location: [-75.6927, 39.6392], metadata: { type: 'charging-station' } },
+    { name: '', location: [-74.006, 40.7128] }
+  ],
+  chargingWaypoints: [charger]
+};
+
+describe('toRouteFeatureCollection', () => {
+  it('has the route line followed by the waypoints and charging stops in travel order', () => {
+    const collection = toRouteFeatureCollection(route, { name: 'Washington to New York' });
+
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.features).toHaveLength(4);
+    expect(collection.features[0].geometry).toEqual(route.geometry);
+    expect(collection.features[0].properties).toEqual({
+      name: 'Washington to New York',
+      role: 'route',
+      distance: 365000,
+      duration: 16200
+    });
+    expect(collection.features.slice(1).map(feature => feature.properties.role)).toEqual(['waypoint', 'charging_stop', 'waypoint']);
+  });
+
+  it('puts the charging metadata in the charging stop properties', () => {
+    const stop = toRouteFeatureCollection(route).features[2];
+
+    expect(stop.geometry).toEqual({ type: 'Point', coordinates: [-75.6927, 39.6392] });
+    expect(stop.properties).toEqual({
+      name: 'Delaware Welcome Center',
+      role: 'charging_stop',
+      station_id: 'station-1',
+      power_kw: 150,
+      plug_type: 'ccs_combo_type1',
+      current_type: 'dc',
+      charge_time: 1200,
+      charge_at_arrival: 15000,
+      charge_to: 60000,
+      provider_names: ['Electrify America']
+    });
+  });
+
+  it('names waypoints from the given names, then the route, then their position', () => {
+    const named = toRouteFeatureCollection(route, { pointNames: ['Washington', 'New York'] });
+    const unnamed = toRouteFeatureCollection(route);
+
+    expect([named.features[1], named.features[3]].map(feature => feature.properties.name)).toEqual(['Washington', 'New York']);
+    expect([unnamed.features[1], unnamed.features[3]].map(feature => feature.properties.name)).toEqual(['K Street', 'Destination']);
+  });
+});
+
+describe('toGpx', () => {
+  it('writes a GPX 1.1 document with waypoints, charging extensions and a track', () => {
+    const gpx = toGpx(route, { name: 'Washington to New York' });
+
+    expect(gpx).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<gpx version="1.1"/);
+    expect(gpx).toContain('xmlns="http://www.topografix.com/GPX/1/1"');
+    expect(gpx).toContain('<name>Washington to New York</name>');
+    expect(gpx.match(/<wpt /g)).toHaveLength(3);
+    expect(gpx).toContain('<wpt lat="39.6392" lon="-75.6927">');
+    expect(gpx).toContain('<type>Charging Station</type>');
+    expect(gpx).toContain('<ev:power_kw>150</ev:power_kw>');
+    expect(gpx).toContain('<ev:charge_time>1200</ev:charge_time>');
+    expect(gpx).toContain('<ev:provider_names>Electrify America</ev:provider_names>');
+    expect(gpx.match(/<trkpt /g)).toHaveLength(3);
+    expect(gpx.trim().endsWith('</gpx>')).toBe(true);
+  });
+
+  it('escapes names for XML', () => {
+    const gpx = toGpx(route, { name: 'Home & <Office>', pointNames: ['"Home"'] });
+
+    expect(gpx).toContain('<name>Home &amp; &lt;Office&gt;</name>');
+    expect(gpx).toContain('<name>&quot;Home&quot;</name>');
+  });
+});
+
+describe('toKml', () => {
+  it('writes a KML document with the route line and point placemarks', () => {
+    const kml = toKml(route);
+
+    expect(kml).toContain('<kml xmlns="http://www.opengis.net/kml/2.2">');
+    expect(kml).toContain('<coordinates>-77.0369,38.9072 -75.6927,39.6392 -74.006,40.7128</coordinates>');
+    expect(kml.match(/<Placemark>/g)).toHaveLength(4);
+    expect(kml).toContain('<Point><coordinates>-75.6927,39.6392</coordinates></Point>');
+    expect(kml).toContain('<Data name="plug_type"><value>ccs_combo_type1</value></Data>');
+  });
+});
+
+describe('exportRoute', () => {
+  it('returns the file content, name and media type for each format', () => {
+    const gpx = exportRoute(route, 'gpx', { name: 'Washington to New York' });
+    const kml = exportRoute(route, 'kml');
+    const geojson = exportRoute(route, 'geojson', { name: 'Washington to New York' });
+
+    expect(gpx.filename).toBe('washington-to-new-york.gpx');
+    expect(gpx.mimeType).toBe('application/gpx+xml');
+    expect(kml.filename).toBe('ev-route.kml');
+    expect(kml.content).toContain('<kml');
+    expect(geojson.filename).toBe('washington-to-new-york.geojson');
+    expect(JSON.parse(geojson.content)).toEqual(toRouteFeatureCollection(route, { name: 'Washington to New York' }));
+  });
+});
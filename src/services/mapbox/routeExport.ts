@@ -0,0 +1,292 @@
+/**
+ * Route Export
+ *
+ * Serializes routes to GPX 1.1, KML 2.2 and GeoJSON for other navigation
+ * tools and fleet systems. Each file holds the route line, the user
+ * waypoints and the charging stops. Charging metadata uses the field names
+ * of the Directions API (power_kw, plug_type, charge_time, ...), with charge
+ * times in seconds and energies in watt-hours.
+ */
+
+import { ChargingWaypoint, ExportableRoute, RouteExportFormat } from './types';
+import { formatDistance, formatDuration } from './evRouting';
+
+/**
+ * Options for exporting a route
+ */
+export interface RouteExportOptions {
+  name?: string; // Name of the route, also used for the file name
+  pointNames?: string[]; // Names of the start, stops and destination, in order
+}
+
+/**
+ * Export formats offered on the route planner, with their file extension and media type
+ */
+export const ROUTE_EXPORT_FORMATS: Array<{ format: RouteExportFormat; label: string; extension: string; mimeType: string }> = [
+  { format: 'gpx', label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  { format: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  { format: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' }
+];
+
+// Namespace of the charging elements in GPX extensions
+const GPX_CHARGING_NAMESPACE = 'urn:map-ev-chargers:charging:1';
+
+const DEFAULT_ROUTE_NAME = 'EV Route';
+
+type GeoJsonFeature = {
+  type: 'Feature';
+  geometry: { type: 'Point'; coordinates: [number, number] } | { type: 'LineString'; coordinates: Array<[number, number]> };
+  properties: Record<string, string | number | string[]>;
+};
+
+/**
+ * A user waypoint or charging stop, as written to the export files
+ */
+interface ExportPoint {
+  name: string;
+  location: [number, number];
+  role: 'waypoint' | 'charging_stop';
+  charging?: Record<string, string | number | string[]>;
+}
+
+/**
+ * Escapes text for XML content and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Rounds a coordinate to 6 decimals, the precision of the Directions API geometries
+ */
+function formatCoordinate(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+/**
+ * Returns the charging metadata of a stop under the Directions API field names
+ */
+function getChargingProperties(stop: ChargingWaypoint): Record<string, string | number | string[]> {
+  return {
+    station_id: stop.stationId,
+    power_kw: stop.powerKw,
+    plug_type: stop.plugType,
+    current_type: stop.currentType,
+    charge_time: stop.chargeTime,
+    charge_at_arrival: stop.chargeAtArrival,
+    charge_to: stop.chargeTo,
+    ...(stop.providerNames && stop.providerNames.length > 0 ? { provider_names: stop.providerNames } : {})
+  };
+}
+
+/**
+ * Lists the user waypoints and charging stops of a route in travel order
+ *
+ * User waypoints are named from the given names, then from the route, then
+ * by their position.
+ */
+function getExportPoints(route: ExportableRoute, pointNames: string[] = []): ExportPoint[] {
+  const userWaypointCount = route.waypoints.filter(waypoint => waypoint.metadata?.type !== 'charging-station').length;
+  let userIndex = 0;
+  let chargingIndex = 0;
+
+  return route.waypoints.flatMap((waypoint): ExportPoint[] => {
+    if (waypoint.metadata?.type === 'charging-station') {
+      const stop = route.chargingWaypoints[chargingIndex++];
+      return stop ? [{ name: stop.name, location: stop.location, role: 'charging_stop', charging: getChargingProperties(stop) }] : [];
+    }
+
+    const index = userIndex++;
+    const fallbackName = index === 0 ? 'Start' : index === userWaypointCount - 1 ? 'Destination' : `Stop ${index}`;
+    return [{ name: pointNames[index] || waypoint.name || fallbackName, location: waypoint.location, role: 'waypoint' }];
+  });
+}
+
+/**
+ * Describes the length and duration of a route
+ */
+function describeRoute(route: ExportableRoute): string {
+  const chargingTime = route.chargingWaypoints.reduce((total, stop) => total + stop.chargeTime, 0);
+  const description = `${formatDistance(route.distance)}, ${formatDuration(route.duration)}`;
+  return chargingTime > 0 ? `${description} including ${formatDuration(chargingTime)} of charging` : description;
+}
+
+/**
+ * Converts a route to a GeoJSON FeatureCollection
+ *
+ * The first feature is the route line; the others are points with a role
+ * of 'waypoint' or 'charging_stop', and the charging metadata as properties.
+ *
+ * @param route - The route to export
+ * @param options - Route name and names of the user waypoints
+ * @returns The FeatureCollection
+ */
+export function toRouteFeatureCollection(
+  route: ExportableRoute,
+  options: RouteExportOptions = {}
+): { type: 'FeatureCollection'; features: GeoJsonFeature[] } {
+  const points = getExportPoints(route, options.pointNames);
+  return {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: route.geometry.coordinates },
+        properties: {
+          name: options.name || DEFAULT_ROUTE_NAME,
+          role: 'route',
+          distance: route.distance,
+          duration: route.duration
+        }
+      },
+      ...points.map((point): GeoJsonFeature => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: point.location },
+        properties: { name: point.name, role: point.role, ...point.charging }
+      }))
+    ]
+  };
+}
+
+/**
+ * Converts a route to a GPX 1.1 document
+ *
+ * Waypoints and charging stops are wpt elements, told apart by their type;
+ * charging metadata goes into a charging extension. The route line is a track.
+ *
+ * @param route - The route to export
+ * @param options - Route name and names of the user waypoints
+ * @returns string - The GPX document
+ */
+export function toGpx(route: ExportableRoute, options: RouteExportOptions = {}): string {
+  const name = escapeXml(options.name || DEFAULT_ROUTE_NAME);
+  const points = getExportPoints(route, options.pointNames);
+
+  const waypoints = points.map(point => {
+    const [lng, lat] = point.location;
+    const lines = [
+      `  <wpt lat="${formatCoordinate(lat)}" lon="${formatCoordinate(lng)}">`,
+      `    <name>${escapeXml(point.name)}</name>`,
+      `    <type>${point.role === 'charging_stop' ? 'Charging Station' : 'Waypoint'}</type>`
+    ];
+    if (point.charging) {
+      lines.push('    <extensions>', '      <ev:charging>');
+      Object.entries(point.charging).forEach(([key, value]) => {
+        const text = Array.isArray(value) ? value.join(', ') : String(value);
+        lines.push(`        <ev:${key}>${escapeXml(text)}</ev:${key}>`);
+      });
+      lines.push('      </ev:charging>', '    </extensions>');
+    }
+    lines.push('  </wpt>');
+    return lines.join('\n');
+  });
+
+  const trackPoints = route.geometry.coordinates
+    .map(([lng, lat]) => `      <trkpt lat="${formatCoordinate(lat)}" lon="${formatCoordinate(lng)}"/>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="EV Charger Map" xmlns="http://www.topografix.com/GPX/1/1" xmlns:ev="${GPX_CHARGING_NAMESPACE}">`,
+    '  <metadata>',
+    `    <name>${name}</name>`,
+    `    <desc>${escapeXml(describeRoute(route))}</desc>`,
+    '  </metadata>',
+    ...waypoints,
+    '  <trk>',
+    `    <name>${name}</name>`,
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Converts a route to a KML 2.2 document
+ *
+ * The route line and each point are placemarks; charging metadata goes into
+ * the ExtendedData of the charging stops.
+ *
+ * @param route - The route to export
+ * @param options - Route name and names of the user waypoints
+ * @returns string - The KML document
+ */
+export function toKml(route: ExportableRoute, options: RouteExportOptions = {}): string {
+  const name = escapeXml(options.name || DEFAULT_ROUTE_NAME);
+  const points = getExportPoints(route, options.pointNames);
+
+  const placemarks = points.map(point => {
+    const lines = [
+      '    <Placemark>',
+      `      <name>${escapeXml(point.name)}</name>`,
+      `      <description>${point.role === 'charging_stop' ? 'Charging Station' : 'Waypoint'}</description>`
+    ];
+    if (point.charging) {
+      lines.push('      <ExtendedData>');
+      Object.entries(point.charging).forEach(([key, value]) => {
+        const text = Array.isArray(value) ? value.join(', ') : String(value);
+        lines.push(`        <Data name="${key}"><value>${escapeXml(text)}</value></Data>`);
+      });
+      lines.push('      </ExtendedData>');
+    }
+    lines.push(
+      `      <Point><coordinates>${point.location.map(formatCoordinate).join(',')}</coordinates></Point>`,
+      '    </Placemark>'
+    );
+    return lines.join('\n');
+  });
+
+  const coordinates = route.geometry.coordinates
+    .map(position => position.map(formatCoordinate).join(','))
+    .join(' ');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${name}</name>`,
+    `    <description>${escapeXml(describeRoute(route))}</description>`,
+    '    <Placemark>',
+    `      <name>${name}</name>`,
+    '      <LineString>',
+    '        <tessellate>1</tessellate>',
+    `        <coordinates>${coordinates}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Serializes a route to a file in one of the ROUTE_EXPORT_FORMATS
+ *
+ * @param route - The route to export
+ * @param format - The file format
+ * @param options - Route name and names of the user waypoints
+ * @returns The file content, a file name derived from the route name, and the media type
+ */
+export function exportRoute(
+  route: ExportableRoute,
+  format: RouteExportFormat,
+  options: RouteExportOptions = {}
+): { content: string; filename: string; mimeType: string } {
+  const { extension, mimeType } = ROUTE_EXPORT_FORMATS.find(item => item.format === format) ?? ROUTE_EXPORT_FORMATS[0];
+  const content = format === 'kml'
+    ? toKml(route, options)
+    : format === 'geojson'
+      ? JSON.stringify(toRouteFeatureCollection(route, options), null, 2)
+      : toGpx(route, options);
+
+  const slug = (options.name || DEFAULT_ROUTE_NAME).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return { content, filename: `${slug || 'ev-route'}.${extension}`, mimeType };
+}
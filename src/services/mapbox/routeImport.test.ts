@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { parseGeoJsonTrack, parseGpxTrack, parseTrack, snapTrackToWaypoints } from './routeImport';
+import { MAX_ROUTE_WAYPOINTS } from './evRouting';
+import { sampleLineVertices } from './geometry';
+import { ImportedTrack } from './types';
+
+const GPX_TRACK = `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Planner" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk>
+    <name>Coast &amp; Hills</name>
+    <trkseg>
+      <trkpt lat="38.9072" lon="-77.0369"><ele>20</ele></trkpt>
+      <trkpt lon="-75.6927" lat="39.6392"/>
+    </trkseg>
+    <trkseg>
+      <trkpt lat='40.7128' lon='-74.006'></trkpt>
+    </trkseg>
+  </trk>
+</gpx>`;
+
+const GPX_ROUTE = `<gpx version="1.1">
+  <rte>
+    <rtept lat="38.9072" lon="-77.0369"/>
+    <rtept lat="40.7128" lon="-74.006"/>
+  </rte>
+</gpx>`;
+
+const LINE = { type: 'LineString', coordinates: [[-77.0369, 38.9072, 20], [-75.6927, 39.6392], [-74.006, 40.7128]] };
+
+describe('parseGpxTrack', () => {
+  it('joins the points of all track segments in file order', () => {
+    const track = parseGpxTrack(GPX_TRACK);
+
+    expect(track.name).toBe('Coast & Hills');
+    expect(track.geometry).toEqual({
+      type: 'LineString',
+      coordinates: [[-77.0369, 38.9072], [-75.6927, 39.6392], [-74.006, 40.7128]]
+    });
+  });
+
+  it('uses the route points of files without a track', () => {
+    const track = parseGpxTrack(GPX_ROUTE);
+
+    expect(track.name).toBeUndefined();
+    expect(track.geometry.coordinates).toEqual([[-77.0369, 38.9072], [-74.006, 40.7128]]);
+  });
+
+  it('rejects files with invalid or too few points', () => {
+    expect(() => parseGpxTrack('<gpx><trk><trkseg><trkpt lat="38.9" lon="-77.0"/></trkseg></trk></gpx>'))
+      .toThrow('at least two points');
+    expect(() => parseGpxTrack('<gpx><trkpt lat="98" lon="-77"/><trkpt lat="40" lon="-74"/></gpx>'))
+      .toThrow('no valid lat and lon');
+  });
+});
+
+describe('parseGeoJsonTrack', () => {
+  it('reads a bare LineString, dropping elevations', () => {
+    const track = parseGeoJsonTrack(JSON.stringify(LINE));
+
+    expect(track.geometry.coordinates).toEqual([[-77.0369, 38.9072], [-75.6927, 39.6392], [-74.006, 40.7128]]);
+  });
+
+  it('reads the first line of a FeatureCollection with its name', () => {
+    const collection = {
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [-77, 38] }, properties: { name: 'Start' } },
+        { type: 'Feature', geometry: LINE, properties: { name: 'Washington to New York' } }
+      ]
+    };
+    const track = parseGeoJsonTrack(JSON.stringify(collection));
+
+    expect(track.name).toBe('Washington to New York');
+    expect(track.geometry.coordinates).toHaveLength(3);
+  });
+
+  it('joins the lines of a MultiLineString feature', () => {
+    const feature = {
+      type: 'Feature',
+      geometry: { type: 'MultiLineString', coordinates: [[[-77, 38], [-76, 39]], [[-75, 40], [-74, 41]]] },
+      properties: {}
+    };
+
+    expect(parseGeoJsonTrack(JSON.stringify(feature)).geometry.coordinates)
+      .toEqual([[-77, 38], [-76, 39], [-75, 40], [-74, 41]]);
+  });
+
+  it('rejects invalid JSON, files without a line and invalid positions', () => {
+    expect(() => parseGeoJsonTrack('{"type":')).toThrow('not valid JSON');
+    expect(() => parseGeoJsonTrack(JSON.stringify({ type: 'Point', coordinates: [-77, 38] }))).toThrow('no LineString');
+    expect(() => parseGeoJsonTrack(JSON.stringify({ type: 'LineString', coordinates: [[-77, 38], [-200, 40]] })))
+      .toThrow('not a valid [longitude, latitude] pair');
+  });
+});
+
+describe('parseTrack', () => {
+  it('tells GPX and GeoJSON files apart by their content', () => {
+    expect(parseTrack(`\n${GPX_TRACK}`).name).toBe('Coast & Hills');
+    expect(parseTrack(JSON.stringify(LINE)).geometry.coordinates).toHaveLength(3);
+    expect(() => parseTrack('lat,lon\n38.9,-77.0')).toThrow('expected a GPX or GeoJSON file');
+  });
+});
+
+describe('snapTrackToWaypoints', () => {
+  it('keeps the ends of the track with up to MAX_ROUTE_WAYPOINTS points between them in order', () => {
+    const coordinates = Array.from({ length: 100 }, (_value, index): [number, number] => [-77 + index * 0.03, 38.9 + index * 0.02]);
+    const track: ImportedTrack = { geometry: { type: 'LineString', coordinates } };
+
+    const { start, waypoints, end } = snapTrackToWaypoints(track);
+
+    expect(start).toEqual(coordinates[0]);
+    expect(end).toEqual(coordinates[99]);
+    expect(waypoints).toHaveLength(MAX_ROUTE_WAYPOINTS);
+    const indexes = waypoints.map(point => coordinates.indexOf(point));
+    expect(indexes).toEqual([...indexes].sort((a, b) => a - b));
+    expect(indexes.every(index => index > 0 && index < 99)).toBe(true);
+  });
+
+  it('keeps a detour that evenly spaced points would cut off', () => {
+    // A straight track with a narrow detour north between two of the evenly spaced points
+    const coordinates = Array.from({ length: 111 }, (_value, index): [number, number] => [index / 100, 0]);
+    coordinates.splice(55, 1, [0.545, 0], [0.55, 0.02], [0.555, 0]);
+    const track: ImportedTrack = { geometry: { type: 'LineString', coordinates } };
+    expect(sampleLineVertices(track.geometry, MAX_ROUTE_WAYPOINTS + 2)).not.toContainEqual([0.55, 0.02]);
+
+    const { waypoints } = snapTrackToWaypoints(track);
+
+    expect(waypoints).toHaveLength(MAX_ROUTE_WAYPOINTS);
+    expect(waypoints).toContainEqual([0.55, 0.02]);
+    expect(waypoints).toContainEqual([0.545, 0]);
+    expect(waypoints).toContainEqual([0.555, 0]);
+  });
+
+  it('has no waypoints for a track of two points', () => {
+    const track: ImportedTrack = { geometry: { type: 'LineString', coordinates: [[-77, 38], [-74, 40]] } };
+
+    expect(snapTrackToWaypoints(track)).toEqual({ start: [-77, 38], waypoints: [], end: [-74, 40] });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Route Import
+ *
+ * Reads tracks planned in other tools from GPX and GeoJSON files, and
+ * snaps them to the waypoints a route along the track is requested with.
+ * GPX files are read with regular expressions rather than an XML parser,
+ * so the same code runs in the browser and on the server.
+ */
+
+import { GeoJsonLineString, ImportedTrack } from './types';
+import { simplifyLine } from './geometry';
+import { MAX_ROUTE_WAYPOINTS } from './evRouting';
+
+/**
+ * Color an imported track is drawn in, under the routes planned along it
+ */
+export const IMPORTED_TRACK_COLOR: [number, number, number, number] = [142, 68, 173, 110]; // Translucent purple
+
+// GPX track points, or route points for files without a track
+const GPX_TRACK_POINT_PATTERN = /<trkpt\b([^>]*)>/g;
+const GPX_ROUTE_POINT_PATTERN = /<rtept\b([^>]*)>/g;
+
+// Reads one attribute of a GPX point element
+const attributePattern = (name: string) => new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`);
+const LAT_PATTERN = attributePattern('lat');
+const LON_PATTERN = attributePattern('lon');
+
+/**
+ * Decodes the XML entities used in GPX text
+ */
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Checks that a value is a [longitude, latitude] pair within the valid ranges
+ */
+function isPosition(value: unknown): value is [number, number] {
+  return Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === 'number' && Math.abs(value[0]) <= 180 &&
+    typeof value[1] === 'number' && Math.abs(value[1]) <= 90;
+}
+
+/**
+ * Builds a track from its positions
+ *
+ * @throws Error - If there are fewer than two positions
+ */
+function toTrack(positions: Array<[number, number]>, name?: string): ImportedTrack {
+  if (positions.length < 2) {
+    throw new Error('Invalid track: it needs at least two points');
+  }
+  const geometry: GeoJsonLineString = { type: 'LineString', coordinates: positions };
+  return name ? { name, geometry } : { geometry };
+}
+
+/**
+ * Reads the track of a GPX file
+ *
+ * Track points of all tracks and segments are joined in file order. Files
+ * without a track use their route points.
+ *
+ * @param text - The GPX document
+ * @returns ImportedTrack - The track, named after the first name in the file
+ * @throws Error - If the file has fewer than two valid points
+ */
+export function parseGpxTrack(text: string): ImportedTrack {
+  const readPoints = (pattern: RegExp) => Array.from(text.matchAll(pattern)).map(match => {
+    const lat = Number(LAT_PATTERN.exec(match[1])?.[1]);
+    const lon = Number(LON_PATTERN.exec(match[1])?.[1]);
+    return [lon, lat];
+  });
+
+  let points = readPoints(GPX_TRACK_POINT_PATTERN);
+  if (points.length === 0) {
+    points = readPoints(GPX_ROUTE_POINT_PATTERN);
+  }
+  if (points.some(point => !isPosition(point))) {
+    throw new Error('Invalid track: a GPX point has no valid lat and lon');
+  }
+
+  const name = /<name>([^<]*)<\/name>/.exec(text)?.[1].trim();
+  return toTrack(points as Array<[number, number]>, name ? unescapeXml(name) : undefined);
+}
+
+/**
+ * Reads the track of a GeoJSON file
+ *
+ * Accepts a LineString or MultiLineString, on its own or as a Feature, or
+ * the first such Feature of a FeatureCollection. The lines of a
+ * MultiLineString are joined.
+ *
+ * @param text - The GeoJSON document
+ * @returns ImportedTrack - The track, named after the feature's name property
+ * @throws Error - If the file is not JSON or has no line with at least two valid positions
+ */
+export function parseGeoJsonTrack(text: string): ImportedTrack {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid track: the file is not valid JSON');
+  }
+
+  const isLine = (geometry: { type?: string } | null | undefined) =>
+    geometry?.type === 'LineString' || geometry?.type === 'MultiLineString';
+
+  let feature = data?.type === 'Feature' ? data : isLine(data) ? { geometry: data } : undefined;
+  if (data?.type === 'FeatureCollection' && Array.isArray(data.features)) {
+    feature = data.features.find((item: { geometry?: { type?: string } }) => isLine(item?.geometry));
+  }
+  const geometry = feature?.geometry;
+  if (!isLine(geometry) || !Array.isArray(geometry.coordinates)) {
+    throw new Error('Invalid track: the file has no LineString or MultiLineString');
+  }
+
+  const positions: unknown[] = geometry.type === 'MultiLineString' ? geometry.coordinates.flat() : geometry.coordinates;
+  if (!positions.every(isPosition)) {
+    throw new Error('Invalid track: a position is not a valid [longitude, latitude] pair');
+  }
+
+  const name = typeof feature.properties?.name === 'string' ? feature.properties.name.trim() : undefined;
+  return toTrack(positions.map(([lng, lat]) => [lng, lat]), name || undefined);
+}
+
+/**
+ * Reads a track from a GPX or GeoJSON file, telling the formats apart by their content
+ *
+ * @param text - The file content
+ * @returns ImportedTrack - The track
+ * @throws Error - If the file is neither a GPX nor a GeoJSON track
+ */
+export function parseTrack(text: string): ImportedTrack {
+  const content = text.trim();
+  if (content.startsWith('{')) {
+    return parseGeoJsonTrack(content);
+  }
+  if (content.startsWith('<')) {
+    return parseGpxTrack(content);
+  }
+  throw new Error('Invalid track: expected a GPX or GeoJSON file');
+}
+
+/**
+ * Snaps a track to the points a route along it is requested with
+ *
+ * The start and end of the track are kept, with up to MAX_ROUTE_WAYPOINTS
+ * track points between them as intermediate destinations. The points are
+ * picked where the track bends most, so the router cannot cut the corners
+ * of a winding track; straight stretches get the points left over.
+ *
+ * @param track - The imported track
+ * @returns The start, the intermediate waypoints in order and the end, as [longitude, latitude]
+ */
+export function snapTrackToWaypoints(track: ImportedTrack): {
+  start: [number, number];
+  waypoints: Array<[number, number]>;
+  end: [number, number];
+} {
+  const points = simplifyLine(track.geometry, MAX_ROUTE_WAYPOINTS + 2);
+  return {
+    start: points[0],
+    waypoints: points.slice(1, -1),
+    end: points[points.length - 1]
+  };
+}
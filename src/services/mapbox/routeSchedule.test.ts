@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatClockTime,
+  getRouteSchedule,
+  isValidLocalTime,
+  isValidTimeZone,
+  localTimeToDate,
+  toLocalTime
+} from './routeSchedule';
+import { ChargingWaypoint, EvRoute, RouteLeg } from './types';
+
+describe('isValidLocalTime', () => {
+  it('accepts dates and times without a time zone', () => {
+    expect(isValidLocalTime('2025-07-04T09:30')).toBe(true);
+    expect(isValidLocalTime('2024-02-29T23:59')).toBe(true);
+  });
+
+  it('rejects other formats and impossible dates', () => {
+    expect(isValidLocalTime('2025-07-04 09:30')).toBe(false);
+    expect(isValidLocalTime('2025-07-04T09:30Z')).toBe(false);
+    expect(isValidLocalTime('2025-07-04T09:30:00')).toBe(false);
+    expect(isValidLocalTime('2025-02-29T09:30')).toBe(false);
+    expect(isValidLocalTime('2025-07-04T24:00')).toBe(false);
+    expect(isValidLocalTime('')).toBe(false);
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('checks IANA time zone names', () => {
+    expect(isValidTimeZone('America/New_York')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('localTimeToDate', () => {
+  it('converts local times with the offset of the time zone on that date', () => {
+    expect(localTimeToDate('2025-01-15T08:00', 'America/New_York')?.toISOString()).toBe('2025-01-15T13:00:00.000Z');
+    expect(localTimeToDate('2025-07-04T09:30', 'America/New_York')?.toISOString()).toBe('2025-07-04T13:30:00.000Z');
+    expect(localTimeToDate('2025-07-04T09:30', 'Europe/Berlin')?.toISOString()).toBe('2025-07-04T07:30:00.000Z');
+  });
+
+  it('uses the offset after a daylight saving change earlier that day', () => {
+    // Clocks in New York went forward at 2:00 on March 9, 2025
+    expect(localTimeToDate('2025-03-09T04:00', 'America/New_York')?.toISOString()).toBe('2025-03-09T08:00:00.000Z');
+  });
+
+  it('returns null for invalid local times', () => {
+    expect(localTimeToDate('tomorrow', 'America/New_York')).toBeNull();
+  });
+});
+
+describe('toLocalTime', () => {
+  it('formats a moment as a local time in a time zone', () => {
+    expect(toLocalTime(new Date('2025-07-04T13:30:00Z'), 'America/New_York')).toBe('2025-07-04T09:30');
+    expect(toLocalTime(new Date('2025-07-04T23:30:00Z'), 'Europe/Berlin')).toBe('2025-07-05T01:30');
+  });
+
+  it('round-trips with localTimeToDate in the runtime time zone', () => {
+    const date = localTimeToDate('2025-07-04T09:30');
+
+    expect(date && toLocalTime(date)).toBe('2025-07-04T09:30');
+  });
+});
+
+describe('getRouteSchedule', () => {
+  // A leg of the given driving duration
+  const leg = (duration: number): RouteLeg => ({ distance: duration * 25, duration, summary: '', steps: [] });
+
+  const charger: ChargingWaypoint = {
+    type: 'charging-station',
+    name: 'Charger',
+    location: [0, 0],
+    chargeTime: 600,
+    chargeTo: 60000,
+    chargeAtArrival: 15000,
+    plugType: 'ccs_combo_type1',
+    currentType: 'dc',
+    powerKw: 150,
+    stationId: 'charger'
+  };
+
+  // One hour of driving to the charger, ten minutes of charging and half an hour to the destination
+  const route: EvRoute = {
+    distance: 135000,
+    duration: 6000,
+    geometry: { type: 'LineString', coordinates: [] },
+    legs: [leg(3600), leg(1800)],
+    waypoints: [
+      { name: 'Start', location: [0, 0] },
+      { name: 'Charger', location: [0, 0], metadata: charger },
+      { name: 'End', location: [0, 0] }
+    ],
+    chargingWaypoints: [charger],
+    timeZones: { origin: 'America/New_York', destination: 'America/Chicago' }
+  };
+
+  it('leaves at the departure time in the time zone of the start', () => {
+    const schedule = getRouteSchedule(route, { mode: 'depart_at', time: '2025-07-04T09:00' });
+
+    expect(schedule.departure.toISOString()).toBe('2025-07-04T13:00:00.000Z');
+    expect(schedule.chargingStops).toHaveLength(1);
+    expect(schedule.chargingStops[0].chargingStop).toBe(charger);
+    expect(schedule.chargingStops[0].arrival.toISOString()).toBe('2025-07-04T14:00:00.000Z');
+    expect(schedule.chargingStops[0].departure.toISOString()).toBe('2025-07-04T14:10:00.000Z');
+    expect(schedule.arrival.toISOString()).toBe('2025-07-04T14:40:00.000Z');
+  });
+
+  it('arrives at the arrival time in the time zone of the destination', () => {
+    const schedule = getRouteSchedule(route, { mode: 'arrive_by', time: '2025-07-04T18:00' });
+
+    expect(schedule.arrival.toISOString()).toBe('2025-07-04T23:00:00.000Z');
+    expect(schedule.departure.toISOString()).toBe('2025-07-04T21:20:00.000Z');
+    expect(schedule.chargingStops[0].arrival.toISOString()).toBe('2025-07-04T22:20:00.000Z');
+  });
+
+  it('leaves now without a timing', () => {
+    const now = new Date('2025-07-04T12:00:00Z');
+    const schedule = getRouteSchedule(route, undefined, now);
+
+    expect(schedule.departure).toBe(now);
+    expect(schedule.arrival.toISOString()).toBe('2025-07-04T13:40:00.000Z');
+  });
+});
+
+describe('formatClockTime', () => {
+  it('formats the weekday and time in a time zone', () => {
+    const date = new Date('2025-07-04T13:00:00Z');
+
+    expect(formatClockTime(date, 'America/New_York')).toMatch(/^Fri,? 9:00\sAM EDT$/);
+    expect(formatClockTime(date, 'America/Chicago')).toMatch(/^Fri,? 8:00\sAM CDT$/);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Route Schedule
+ *
+ * Departure and arrival times of EV routes. Times are entered as local
+ * times without a time zone, as the Directions API expects for depart_at
+ * and arrive_by, and converted with the time zones of the route ends.
+ */
+
+import { DepartureMode, EvRoute, RouteSchedule, RouteTiming } from './types';
+import { getLegChargingStops } from './evRouting';
+
+/**
+ * When a route can be driven, as offered on the route planner
+ */
+export const DEPARTURE_MODES: Array<{ mode: DepartureMode; label: string }> = [
+  { mode: 'now', label: 'Leave now' },
+  { mode: 'depart_at', label: 'Depart at' },
+  { mode: 'arrive_by', label: 'Arrive by' }
+];
+
+// Local time without a time zone, as used by the Directions API
+const LOCAL_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+/**
+ * Reads the fields of a local time, or returns null if it is not a valid date and time
+ */
+function parseLocalTime(value: string): [number, number, number, number, number] | null {
+  const match = LOCAL_TIME_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  // Date.UTC rolls invalid fields over, e.g. February 30 to March 2
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || hour > 23 || minute > 59) {
+    return null;
+  }
+  return [year, month, day, hour, minute];
+}
+
+/**
+ * Checks that a value is a local time in the format YYYY-MM-DDThh:mm
+ *
+ * @param value - The value to check
+ * @returns boolean - True if the value is a valid local time
+ */
+export function isValidLocalTime(value: string): boolean {
+  return parseLocalTime(value) !== null;
+}
+
+/**
+ * Checks that a value is an IANA time zone known to the runtime
+ *
+ * @param timeZone - The time zone, e.g. 'America/New_York'
+ * @returns boolean - True if dates can be formatted in the time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns how far a time zone is ahead of UTC at a moment, in milliseconds
+ */
+function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(timestamp));
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'));
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Converts a local time in a time zone to a Date
+ *
+ * @param value - Local time, YYYY-MM-DDThh:mm
+ * @param timeZone - IANA time zone of the local time; the runtime's time zone if not given
+ * @returns Date | null - The moment, or null if the local time is invalid
+ */
+export function localTimeToDate(value: string, timeZone?: string): Date | null {
+  const fields = parseLocalTime(value);
+  if (!fields) {
+    return null;
+  }
+  const [year, month, day, hour, minute] = fields;
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hour, minute);
+  }
+
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getTimeZoneOffset(wallClock, timeZone);
+  // Take the offset again at the result in case a daylight saving change lies between the two
+  return new Date(wallClock - getTimeZoneOffset(wallClock - offset, timeZone));
+}
+
+/**
+ * Formats a Date as a local time, YYYY-MM-DDThh:mm
+ *
+ * @param date - The moment to format
+ * @param timeZone - IANA time zone; the runtime's time zone if not given
+ * @returns string - The local time, as accepted by datetime-local inputs and the Directions API
+ */
+export function toLocalTime(date: Date, timeZone?: string): string {
+  const offset = timeZone ? getTimeZoneOffset(date.getTime(), timeZone) : -date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() + offset).toISOString().slice(0, 16);
+}
+
+/**
+ * Estimates when a route leaves, reaches each charging stop and arrives
+ *
+ * Departure and arrival times come from the timing and the route duration,
+ * which includes charging. Charging stops are reached after the driving
+ * time of the legs before them and the charge times of the earlier stops.
+ *
+ * @param route - The EV route
+ * @param timing - When the route is driven; without it the route leaves at now
+ * @param now - The current time
+ * @returns RouteSchedule - The estimated times
+ */
+export function getRouteSchedule(route: EvRoute, timing?: RouteTiming, now: Date = new Date()): RouteSchedule {
+  let departure = now;
+  if (timing?.mode === 'depart_at') {
+    departure = localTimeToDate(timing.time, route.timeZones?.origin) ?? now;
+  } else if (timing?.mode === 'arrive_by') {
+    const arrival = localTimeToDate(timing.time, route.timeZones?.destination);
+    departure = arrival ? new Date(arrival.getTime() - route.duration * 1000) : now;
+  }
+
+  const legChargingStops = getLegChargingStops(route);
+  const chargingStops: RouteSchedule['chargingStops'] = [];
+  let elapsed = 0;
+  route.legs.forEach((leg, index) => {
+    elapsed += leg.duration;
+    const chargingStop = legChargingStops[index];
+    if (chargingStop) {
+      const arrival = new Date(departure.getTime() + elapsed * 1000);
+      elapsed += chargingStop.chargeTime;
+      chargingStops.push({ chargingStop, arrival, departure: new Date(departure.getTime() + elapsed * 1000) });
+    }
+  });
+
+  return {
+    departure,
+    arrival: new Date(departure.getTime() + route.duration * 1000),
+    chargingStops
+  };
+}
+
+/**
+ * Formats a moment as a weekday and clock time with the time zone name
+ *
+ * @param date - The moment to format
+ * @param timeZone - IANA time zone to show the time in; the runtime's time zone if not given
+ * @returns string - The time, e.g. "Sat, 3:45 PM EDT"
+ */
+export function formatClockTime(date: Date, timeZone?: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  }).format(date);
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import directionsRecordings from '../../../scripts/mapbox-stand-in/fixtures/directions-ev.json';
+import { getRouteSegmentColor, getRouteSegments, getScaleColor } from './routeSegments';
+import { toEvRoute } from './transforms';
+import { EvRoute, MapboxDirectionsResponse, RouteLeg } from './types';
+
+// A leg with annotated segments of the given lengths, charges and speeds
+const leg = (distances: number[], stateOfCharge: number[], speed: number[]): RouteLeg => ({
+  distance: distances.reduce((total, distance) => total + distance, 0),
+  duration: 0,
+  summary: '',
+  steps: [],
+  annotation: { distance: distances, duration: [], speed, stateOfCharge }
+});
+
+// A straight route along the equator with a charging stop after its first leg
+const route = {
+  distance: 400,
+  duration: 0,
+  geometry: { type: 'LineString', coordinates: [[0, 0], [0.004, 0]] },
+  legs: [leg([100, 100], [30, 12], [20, 30]), leg([100, 100], [60, 18], [25, 10])],
+  waypoints: [
+    { name: 'Start', location: [0, 0] },
+    { name: '', location: [0.002, 0], metadata: { type: 'charging-station' } },
+    { name: 'End', location: [0.004, 0] }
+  ],
+  chargingWaypoints: [{ name: 'Charger', location: [0.002, 0] }]
+} as unknown as EvRoute;
+
+const reserves = { minChargeAtStation: 15, minChargeAtDestination: 20 };
+
+describe('getRouteSegments', () => {
+  it('splits the line at the annotated segments', () => {
+    const segments = getRouteSegments(route, reserves);
+
+    expect(segments).toHaveLength(4);
+    expect(segments.map(segment => segment.charge)).toEqual([30, 12, 60, 18]);
+    expect(segments.map(segment => segment.speed)).toEqual([20, 30, 25, 10]);
+    expect(segments[0].path[0]).toEqual([0, 0]);
+    expect(segments[1].path[0][0]).toBeCloseTo(0.001, 6);
+    expect(segments[3].path[segments[3].path.length - 1]).toEqual([0.004, 0]);
+  });
+
+  it('flags segments below the reserve that applies to them', () => {
+    const segments = getRouteSegments(route, reserves);
+
+    // 12% is below the 15% charger reserve, and 18% is below the 20% arrival reserve
+    expect(segments.map(segment => segment.belowReserve)).toEqual([false, true, false, true]);
+  });
+
+  it('uses the arrival reserve for the whole route without charging stops', () => {
+    const direct = { ...route, waypoints: [route.waypoints[0], { name: 'Stop', location: [0.002, 0] }, route.waypoints[2]] } as EvRoute;
+
+    expect(getRouteSegments(direct, { minChargeAtStation: 10, minChargeAtDestination: 15 }).map(segment => segment.belowReserve))
+      .toEqual([false, true, false, false]);
+  });
+
+  it('covers legs without annotations with one segment without values', () => {
+    const partial = { ...route, legs: [{ ...route.legs[0], annotation: undefined }, route.legs[1]] } as EvRoute;
+    const segments = getRouteSegments(partial, reserves);
+
+    expect(segments).toHaveLength(3);
+    expect(segments[0].charge).toBeUndefined();
+    expect(segments[0].speed).toBeUndefined();
+    expect(segments[0].belowReserve).toBe(false);
+  });
+
+  it('returns no segments for a route without legs or geometry', () => {
+    expect(getRouteSegments({ ...route, legs: [] }, reserves)).toEqual([]);
+    expect(getRouteSegments({ ...route, geometry: { type: 'LineString', coordinates: [] } }, reserves)).toEqual([]);
+  });
+
+  it('splits a recorded route into one segment per annotation', () => {
+    const recorded = toEvRoute(directionsRecordings[0].response as unknown as MapboxDirectionsResponse) as EvRoute;
+    const segments = getRouteSegments(recorded, reserves);
+
+    expect(segments).toHaveLength(recorded.legs[0].annotation!.distance.length + recorded.legs[1].annotation!.distance.length);
+    expect(segments[0].path[0]).toEqual(recorded.geometry.coordinates[0]);
+  });
+});
+
+describe('getScaleColor', () => {
+  it('goes from red through yellow to green', () => {
+    expect(getScaleColor(0)).toEqual([231, 76, 60]);
+    expect(getScaleColor(0.5)).toEqual([241, 196, 15]);
+    expect(getScaleColor(1)).toEqual([46, 204, 113]);
+    expect(getScaleColor(2)).toEqual([46, 204, 113]);
+  });
+});
+
+describe('getRouteSegmentColor', () => {
+  it('colors by charge or speed, and gray without a value', () => {
+    const segment = { path: [], charge: 100, speed: 0, belowReserve: false };
+
+    expect(getRouteSegmentColor(segment, 'charge')).toEqual([46, 204, 113]);
+    expect(getRouteSegmentColor(segment, 'speed')).toEqual([231, 76, 60]);
+    expect(getRouteSegmentColor({ path: [], belowReserve: false }, 'charge')).toEqual([149, 165, 166]);
+  });
+});
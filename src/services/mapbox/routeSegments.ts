@@ -0,0 +1,110 @@
+/**
+ * Route Line Segments
+ *
+ * Splits a route line into the road segments of its annotations so the map
+ * can color it by battery charge or speed, and flags the segments where the
+ * charge falls below the reserve. Up to the last charging stop the charger
+ * reserve applies; after it, the arrival reserve.
+ */
+
+import { ChargeLevels, EvRoute, RouteColorMode, RouteSegment } from './types';
+import { splitLineAt } from './geometry';
+import { getLegChargingStops } from './evRouting';
+
+/**
+ * Options for coloring the route line, with their labels
+ */
+export const ROUTE_COLOR_MODES: Array<{ mode: RouteColorMode; label: string }> = [
+  { mode: 'charge', label: 'Battery Level' },
+  { mode: 'speed', label: 'Speed' }
+];
+
+// Color of segments without annotations
+const UNKNOWN_SEGMENT_COLOR: [number, number, number] = [149, 165, 166];
+
+// Color scale from low (red) through yellow to high (green)
+const COLOR_SCALE: Array<[number, number, number]> = [
+  [231, 76, 60],
+  [241, 196, 15],
+  [46, 204, 113]
+];
+
+// Speed shown at the green end of the speed scale, in meters per second (about 110 km/h)
+const FAST_SPEED = 30;
+
+/**
+ * Returns the color at a position on the red-yellow-green scale
+ *
+ * @param value - Position on the scale, clamped to 0 (red) to 1 (green)
+ * @returns [number, number, number] - RGB color
+ */
+export function getScaleColor(value: number): [number, number, number] {
+  const position = Math.min(1, Math.max(0, value)) * (COLOR_SCALE.length - 1);
+  const index = Math.min(Math.floor(position), COLOR_SCALE.length - 2);
+  const ratio = position - index;
+  const [from, to] = [COLOR_SCALE[index], COLOR_SCALE[index + 1]];
+  return [0, 1, 2].map(channel => Math.round(from[channel] + (to[channel] - from[channel]) * ratio)) as [number, number, number];
+}
+
+/**
+ * Returns the color of a route segment for a coloring mode
+ *
+ * @param segment - The route segment
+ * @param mode - Whether to color by battery charge or by speed
+ * @returns [number, number, number] - RGB color, gray if the segment has no value for the mode
+ */
+export function getRouteSegmentColor(segment: RouteSegment, mode: RouteColorMode): [number, number, number] {
+  const value = mode === 'charge' ? segment.charge : segment.speed;
+  if (value === undefined) return UNKNOWN_SEGMENT_COLOR;
+  return getScaleColor(mode === 'charge' ? value / 100 : value / FAST_SPEED);
+}
+
+/**
+ * Splits a route line into segments with their battery charge and speed
+ *
+ * Each annotated road segment becomes one segment; a leg without
+ * annotations becomes a single segment without values.
+ *
+ * @param route - The EV route
+ * @param chargeLevels - Reserves the route was calculated with, in percent
+ * @returns RouteSegment[] - The segments in order, or an empty array if the route has no legs or geometry
+ */
+export function getRouteSegments(
+  route: EvRoute,
+  chargeLevels: Pick<ChargeLevels, 'minChargeAtStation' | 'minChargeAtDestination'>
+): RouteSegment[] {
+  // Legs after the last one that ends at a charging stop are driven toward the destination
+  const lastChargingLeg = getLegChargingStops(route).reduce((last, stop, index) => stop ? index : last, -1);
+
+  const boundaries = [0];
+  const values: Array<Omit<RouteSegment, 'path'>> = [];
+  let legStart = 0;
+
+  route.legs.forEach((leg, index) => {
+    const annotation = leg.annotation;
+    const reserve = index > lastChargingLeg ? chargeLevels.minChargeAtDestination : chargeLevels.minChargeAtStation;
+    const legEnd = legStart + leg.distance;
+
+    if (annotation && annotation.distance.length > 0) {
+      let distance = legStart;
+      annotation.distance.forEach((length, segment) => {
+        distance = Math.min(distance + length, legEnd);
+        const charge = annotation.stateOfCharge?.[segment];
+        boundaries.push(segment === annotation.distance.length - 1 ? legEnd : distance);
+        values.push({
+          charge,
+          speed: annotation.speed[segment],
+          belowReserve: charge !== undefined && charge < reserve
+        });
+      });
+    } else {
+      boundaries.push(legEnd);
+      values.push({ belowReserve: false });
+    }
+    legStart = legEnd;
+  });
+
+  if (legStart <= 0) return [];
+  const paths = splitLineAt(route.geometry, boundaries.map(distance => distance / legStart));
+  return paths.map((path, index) => ({ path, ...values[index] }));
+}
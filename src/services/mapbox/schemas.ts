@@ -0,0 +1,274 @@
+/**
+ * Mapbox Payload Schemas
+ *
+ * Runtime schemas for the Mapbox API responses used by the API routes. The
+ * routes validate upstream payloads against them before using or returning
+ * the data, and the raw Mapbox TypeScript types in types.ts are derived from
+ * them, so the declared types and the checks cannot drift apart.
+ *
+ * Unknown fields are stripped during validation, so only fields declared
+ * here reach the rest of the application.
+ *
+ * API References:
+ * - https://docs.mapbox.com/api/navigation/ev-charge-finder/
+ * - https://docs.mapbox.com/api/navigation/directions/
+ * - https://docs.mapbox.com/api/search/search-box/
+ * - https://docs.mapbox.com/api/maps/tilequery/
+ */
+
+import { z } from 'zod';
+
+// A [longitude, latitude] pair
+const positionSchema = z.tuple([z.number(), z.number()]);
+
+// OCPI coordinates are decimal strings
+const ocpiCoordinatesSchema = z.object({
+  latitude: z.string(),
+  longitude: z.string()
+});
+
+const pointSchema = z.object({
+  type: z.string(),
+  coordinates: positionSchema
+});
+
+// EV Charge Finder API
+
+export const mapboxEvConnectorSchema = z.object({
+  id: z.string(),
+  standard: z.string(),
+  format: z.string(),
+  power_type: z.string(),
+  max_voltage: z.number(),
+  max_amperage: z.number(),
+  max_electric_power: z.number(), // Watts
+  tariff_ids: z.array(z.string()).optional(),
+  last_updated: z.string()
+});
+
+export const mapboxEvseSchema = z.object({
+  uid: z.string(),
+  evse_id: z.string().optional(),
+  status: z.string(),
+  connectors: z.array(mapboxEvConnectorSchema),
+  coordinates: ocpiCoordinatesSchema.optional(),
+  last_updated: z.string()
+});
+
+export const mapboxBusinessDetailsSchema = z.object({
+  name: z.string(),
+  website: z.string().optional()
+});
+
+export const mapboxRegularHoursSchema = z.object({
+  weekday: z.number().int().min(1).max(7), // 1 (Monday) to 7 (Sunday)
+  period_begin: z.string(), // 'HH:MM'
+  period_end: z.string() // 'HH:MM'
+});
+
+export const mapboxLocationSchema = z.object({
+  country_code: z.string(),
+  party_id: z.string(),
+  id: z.string(),
+  publish: z.boolean(),
+  name: z.string(),
+  address: z.string(),
+  city: z.string(),
+  postal_code: z.string().optional(),
+  state: z.string().optional(),
+  country: z.string(),
+  coordinates: ocpiCoordinatesSchema,
+  parking_type: z.string().optional(),
+  evses: z.array(mapboxEvseSchema).optional(),
+  operator: mapboxBusinessDetailsSchema.optional(),
+  owner: mapboxBusinessDetailsSchema.optional(),
+  time_zone: z.string().optional(),
+  opening_times: z.object({
+    twentyfourseven: z.boolean(),
+    regular_hours: z.array(mapboxRegularHoursSchema).optional()
+  }).optional(),
+  last_updated: z.string()
+});
+
+export const mapboxPriceComponentSchema = z.object({
+  type: z.string(), // 'ENERGY', 'FLAT', 'PARKING_TIME' or 'TIME'
+  price: z.number(), // Excluding VAT
+  step_size: z.number()
+});
+
+export const mapboxTariffSchema = z.object({
+  id: z.string(),
+  currency: z.string(),
+  type: z.string().optional(),
+  elements: z.array(z.object({
+    price_components: z.array(mapboxPriceComponentSchema)
+  }))
+});
+
+export const mapboxEvFeatureSchema = z.object({
+  type: z.string(),
+  geometry: pointSchema,
+  properties: z.object({
+    location: mapboxLocationSchema,
+    proximity: z.object({
+      latitude: z.number(),
+      longitude: z.number(),
+      distance: z.number() // Distance in kilometers
+    }).optional() // Only present when the search has a location
+  })
+});
+
+export const mapboxEvResponseSchema = z.object({
+  type: z.string(),
+  features: z.array(mapboxEvFeatureSchema)
+});
+
+export const mapboxEvDetailsResponseSchema = z.object({
+  type: z.string(),
+  geometry: pointSchema,
+  properties: z.object({
+    location: mapboxLocationSchema,
+    tariffs: z.array(mapboxTariffSchema).optional()
+  })
+});
+
+// Directions API with EV routing
+
+export const geoJsonLineStringSchema = z.object({
+  type: z.literal('LineString'),
+  coordinates: z.array(positionSchema)
+});
+
+// Encoded polyline, or a GeoJSON LineString when geometries=geojson
+export const mapboxRouteGeometrySchema = z.union([z.string(), geoJsonLineStringSchema]);
+
+export const mapboxChargingMetadataSchema = z.object({
+  type: z.string(), // 'charging-station', or 'user-provided-charging-station' for stations requested with the waypoint
+  name: z.string(),
+  charge_time: z.number(), // Seconds
+  charge_to: z.number(), // Watt-hours
+  charge_at_arrival: z.number(), // Watt-hours
+  plug_type: z.string(),
+  current_type: z.string().optional(),
+  power_kw: z.number(),
+  station_id: z.string(),
+  provider_names: z.array(z.string()).optional()
+});
+
+export const mapboxDirectionsWaypointSchema = z.object({
+  name: z.string(),
+  location: positionSchema,
+  distance: z.number().optional(),
+  metadata: mapboxChargingMetadataSchema.nullish()
+});
+
+export const mapboxRouteStepSchema = z.object({
+  distance: z.number(),
+  duration: z.number(),
+  geometry: mapboxRouteGeometrySchema,
+  name: z.string(),
+  mode: z.string(),
+  maneuver: z.object({
+    location: positionSchema,
+    bearing_before: z.number(),
+    bearing_after: z.number(),
+    type: z.string(),
+    modifier: z.string().optional(),
+    instruction: z.string()
+  }),
+  intersections: z.array(z.object({
+    location: positionSchema,
+    bearings: z.array(z.number()),
+    entry: z.array(z.boolean()),
+    in: z.number().optional(),
+    out: z.number().optional()
+  })).optional()
+});
+
+export const mapboxRouteLegSchema = z.object({
+  distance: z.number(),
+  duration: z.number(),
+  summary: z.string().optional(),
+  steps: z.array(mapboxRouteStepSchema).optional(),
+  annotation: z.object({
+    distance: z.array(z.number()),
+    duration: z.array(z.number()),
+    speed: z.array(z.number()),
+    state_of_charge: z.array(z.number()).optional()
+  }).optional()
+});
+
+export const mapboxRouteSchema = z.object({
+  distance: z.number(),
+  duration: z.number(),
+  geometry: mapboxRouteGeometrySchema,
+  legs: z.array(mapboxRouteLegSchema),
+  waypoints: z.array(mapboxDirectionsWaypointSchema).optional()
+});
+
+export const mapboxDirectionsResponseSchema = z.object({
+  code: z.string().optional(),
+  routes: z.array(mapboxRouteSchema).optional(),
+  waypoints: z.array(mapboxDirectionsWaypointSchema).optional()
+});
+
+// Search Box API
+
+export const searchSuggestionSchema = z.object({
+  name: z.string(),
+  mapbox_id: z.string(),
+  feature_type: z.string(),
+  address: z.string().optional(),
+  full_address: z.string().optional(),
+  place_formatted: z.string()
+});
+
+export const searchSuggestResponseSchema = z.object({
+  suggestions: z.array(searchSuggestionSchema)
+});
+
+export const searchFeatureSchema = z.object({
+  type: z.string(),
+  geometry: pointSchema,
+  properties: searchSuggestionSchema
+});
+
+export const searchRetrieveResponseSchema = z.object({
+  type: z.string(),
+  features: z.array(searchFeatureSchema)
+});
+
+// Tilequery API, on a tileset of time zone polygons
+
+export const tilequeryTimeZoneResponseSchema = z.object({
+  type: z.string(),
+  features: z.array(z.object({
+    properties: z.object({
+      TZID: z.string() // IANA time zone, e.g. 'America/New_York'
+    })
+  }))
+});
+
+// Types derived from the schemas
+export type MapboxEvConnector = z.infer<typeof mapboxEvConnectorSchema>;
+export type MapboxEvse = z.infer<typeof mapboxEvseSchema>;
+export type MapboxBusinessDetails = z.infer<typeof mapboxBusinessDetailsSchema>;
+export type MapboxRegularHours = z.infer<typeof mapboxRegularHoursSchema>;
+export type MapboxLocation = z.infer<typeof mapboxLocationSchema>;
+export type MapboxPriceComponent = z.infer<typeof mapboxPriceComponentSchema>;
+export type MapboxTariff = z.infer<typeof mapboxTariffSchema>;
+export type MapboxEvFeature = z.infer<typeof mapboxEvFeatureSchema>;
+export type MapboxEvResponse = z.infer<typeof mapboxEvResponseSchema>;
+export type MapboxEvDetailsResponse = z.infer<typeof mapboxEvDetailsResponseSchema>;
+export type GeoJsonLineString = z.infer<typeof geoJsonLineStringSchema>;
+export type MapboxRouteGeometry = z.infer<typeof mapboxRouteGeometrySchema>;
+export type MapboxChargingMetadata = z.infer<typeof mapboxChargingMetadataSchema>;
+export type MapboxDirectionsWaypoint = z.infer<typeof mapboxDirectionsWaypointSchema>;
+export type MapboxRouteStep = z.infer<typeof mapboxRouteStepSchema>;
+export type MapboxRouteLeg = z.infer<typeof mapboxRouteLegSchema>;
+export type MapboxRoute = z.infer<typeof mapboxRouteSchema>;
+export type MapboxDirectionsResponse = z.infer<typeof mapboxDirectionsResponseSchema>;
+export type SearchSuggestion = z.infer<typeof searchSuggestionSchema>;
+export type SearchSuggestResponse = z.infer<typeof searchSuggestResponseSchema>;
+export type SearchRetrieveResponse = z.infer<typeof searchRetrieveResponseSchema>;
+export type TilequeryTimeZoneResponse = z.infer<typeof tilequeryTimeZoneResponseSchema>;
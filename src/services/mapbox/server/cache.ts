@@ -0,0 +1,73 @@
+/**
+ * Server Cache Stores
+ *
+ * Key-value cache interface used by the API routes, with an in-memory
+ * implementation. Deployments that run several server instances can provide
+ * a shared store (for example one backed by DynamoDB or Redis) by
+ * implementing CacheStore and registering it with the cache that uses it.
+ */
+
+/**
+ * A cached value with the time it was stored
+ */
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number; // Epoch milliseconds
+}
+
+/**
+ * Interface for a cache backend
+ *
+ * Implementations must not return entries older than the TTL they were stored with.
+ */
+export interface CacheStore<T> {
+  get(key: string): Promise<CacheEntry<T> | null>;
+  set(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory cache store with TTL expiry and least-recently-used eviction
+ *
+ * Entries live in the memory of a single server instance, so each instance
+ * (or serverless function container) keeps its own cache.
+ */
+export class MemoryCacheStore<T> implements CacheStore<T> {
+  private entries = new Map<string, { entry: CacheEntry<T>; expiresAt: number }>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CacheEntry<T> | null> {
+    const item = this.entries.get(key);
+    if (!item) {
+      return null;
+    }
+    if (item.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    // Re-insert to mark the key as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, item);
+    return item.entry;
+  }
+
+  async set(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { entry, expiresAt: entry.storedAt + ttlMs });
+
+    // Evict the least recently used entries once over capacity
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
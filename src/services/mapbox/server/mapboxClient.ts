@@ -0,0 +1,259 @@
+/**
+ * Mapbox Server Client
+ *
+ * Shared HTTP client used by the server-side API routes to call Mapbox APIs.
+ * It owns the base URL, access token injection, query encoding, request
+ * timeouts, retries with backoff on 429/5xx responses, and the mapping of
+ * upstream failures to a consistent JSON error envelope.
+ *
+ * This module reads MAPBOX_SERVER_TOKEN and must only be imported from
+ * server code (API routes). Setting MAPBOX_API_BASE_URL sends all requests
+ * to another host instead, such as the local stand-in server in
+ * scripts/mapbox-stand-in.
+ */
+
+import { NextResponse } from 'next/server';
+
+const DEFAULT_MAPBOX_API_BASE_URL = 'https://api.mapbox.com';
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 300;
+const MAX_BACKOFF_MS = 5000;
+
+/**
+ * Query parameter values accepted by the client
+ *
+ * Arrays are joined with commas; undefined, null and empty values are omitted.
+ */
+export type MapboxQueryValue = string | number | boolean | string[] | null | undefined;
+
+/**
+ * Options for a single Mapbox API request
+ */
+export interface MapboxRequestOptions {
+  query?: Record<string, MapboxQueryValue>;
+  timeoutMs?: number; // Per-attempt timeout in milliseconds
+  retries?: number; // Retries after the first attempt on 429, 5xx, timeouts and network errors
+}
+
+/**
+ * JSON error envelope returned by every API route
+ */
+export interface ApiErrorBody {
+  error: string; // Human-readable message
+  code: string; // Machine-readable error code, e.g. 'upstream_timeout'
+  status: number; // HTTP status of the response
+}
+
+/**
+ * Error raised for failed Mapbox requests and invalid route input
+ */
+export class MapboxApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'MapboxApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Returns the server-side Mapbox access token
+ *
+ * @throws MapboxApiError - If MAPBOX_SERVER_TOKEN is not configured
+ */
+function getAccessToken(): string {
+  const token = process.env.MAPBOX_SERVER_TOKEN;
+  if (!token) {
+    throw new MapboxApiError(500, 'missing_token', 'Mapbox server token is not configured');
+  }
+  return token;
+}
+
+/**
+ * Returns the base URL of the Mapbox APIs, without a trailing slash
+ */
+function getBaseUrl(): string {
+  return (process.env.MAPBOX_API_BASE_URL || DEFAULT_MAPBOX_API_BASE_URL).replace(/\/+$/, '');
+}
+
+/**
+ * Builds a Mapbox API URL from a path and query parameters, adding the access token
+ *
+ * @param path - API path starting with '/', with any path segments already encoded
+ * @param query - Query parameters to encode
+ * @returns URL - The full request URL
+ */
+function buildUrl(path: string, query: Record<string, MapboxQueryValue> = {}): URL {
+  // Appended rather than resolved, so a base URL with a path prefix keeps it
+  const url = new URL(`${getBaseUrl()}${path}`);
+
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    const encoded = Array.isArray(value) ? value.join(',') : String(value);
+    if (encoded) {
+      url.searchParams.set(key, encoded);
+    }
+  });
+
+  url.searchParams.set('access_token', getAccessToken());
+  return url;
+}
+
+/**
+ * Checks whether a response status is worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Computes the delay before the next attempt, honoring Retry-After when present
+ *
+ * @param attempt - Zero-based number of the attempt that just failed
+ * @param retryAfter - Value of the Retry-After response header, if any
+ * @returns number - Delay in milliseconds
+ */
+function getBackoffDelay(attempt: number, retryAfter?: string | null): number {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (!isNaN(retryAfterSeconds) && retryAfterSeconds >= 0) {
+    return Math.min(retryAfterSeconds * 1000, MAX_BACKOFF_MS);
+  }
+  const exponential = BASE_BACKOFF_MS * Math.pow(2, attempt);
+  const jitter = Math.random() * BASE_BACKOFF_MS;
+  return Math.min(exponential + jitter, MAX_BACKOFF_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Converts a failed upstream response into a MapboxApiError
+ *
+ * Authentication failures are reported as 502 because they are a server
+ * configuration problem, not a problem with the caller's request.
+ */
+async function toUpstreamError(response: Response): Promise<MapboxApiError> {
+  let message = `${response.status} ${response.statusText}`.trim();
+  try {
+    const text = await response.text();
+    console.error('Mapbox API error response:', text);
+    try {
+      const body = JSON.parse(text);
+      if (body && typeof body.message === 'string') {
+        message = body.message;
+      }
+    } catch {
+      if (text) message = text;
+    }
+  } catch (textError) {
+    console.error('Failed to read Mapbox API error response:', textError);
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return new MapboxApiError(502, 'upstream_unauthorized', `Mapbox API error: ${message}`);
+  }
+  if (response.status === 404) {
+    return new MapboxApiError(404, 'not_found', `Mapbox API error: ${message}`);
+  }
+  if (response.status === 429) {
+    return new MapboxApiError(429, 'rate_limited', `Mapbox API error: ${message}`);
+  }
+  if (response.status >= 500) {
+    return new MapboxApiError(502, 'upstream_error', `Mapbox API error: ${message}`);
+  }
+  return new MapboxApiError(response.status, 'upstream_bad_request', `Mapbox API error: ${message}`);
+}
+
+/**
+ * Performs a GET request against a Mapbox API and returns the parsed JSON body
+ *
+ * @param path - API path starting with '/', e.g. '/ev/v1/locations'
+ * @param options - Query parameters, timeout and retry settings
+ * @returns Promise<T> - The parsed response body
+ * @throws MapboxApiError - If the request fails after all retries
+ */
+export async function mapboxGet<T>(path: string, options: MapboxRequestOptions = {}): Promise<T> {
+  const {
+    query,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES
+  } = options;
+  const url = buildUrl(path, query);
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < retries;
+    let response: Response;
+
+    try {
+      response = await fetch(url, {
+        headers: { accept: 'application/json' },
+        signal: AbortSignal.timeout(timeoutMs),
+        cache: 'no-store'
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      if (canRetry) {
+        await sleep(getBackoffDelay(attempt));
+        continue;
+      }
+      console.error(`Mapbox request to ${path} failed:`, error);
+      throw timedOut
+        ? new MapboxApiError(504, 'upstream_timeout', 'Mapbox API request timed out')
+        : new MapboxApiError(502, 'upstream_unavailable', 'Mapbox API is unreachable');
+    }
+
+    if (response.ok) {
+      return await response.json() as T;
+    }
+
+    if (canRetry && isRetryableStatus(response.status)) {
+      await sleep(getBackoffDelay(attempt, response.headers.get('retry-after')));
+      continue;
+    }
+
+    throw await toUpstreamError(response);
+  }
+}
+
+/**
+ * Builds a JSON error response in the shared error envelope
+ *
+ * @param status - HTTP status code
+ * @param code - Machine-readable error code
+ * @param message - Human-readable message
+ * @returns NextResponse - The error response
+ */
+export function errorResponse(status: number, code: string, message: string): NextResponse<ApiErrorBody> {
+  return NextResponse.json({ error: message, code, status }, { status });
+}
+
+/**
+ * Builds a 400 response for invalid or missing request parameters
+ *
+ * @param message - Description of the problem
+ * @returns NextResponse - The error response
+ */
+export function badRequest(message: string): NextResponse<ApiErrorBody> {
+  return errorResponse(400, 'invalid_request', message);
+}
+
+/**
+ * Maps any error thrown in a route handler to an error response
+ *
+ * @param error - The caught error
+ * @param context - Short description of the route, used for logging
+ * @returns NextResponse - The error response
+ */
+export function handleRouteError(error: unknown, context: string): NextResponse<ApiErrorBody> {
+  if (error instanceof MapboxApiError) {
+    return errorResponse(error.status, error.code, error.message);
+  }
+  console.error(`Error in ${context}:`, error);
+  return errorResponse(500, 'internal_error', 'Internal server error');
+}
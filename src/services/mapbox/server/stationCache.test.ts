@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { narrowStationLookup, quantizeStationLookup } from './stationCache';
+import { distanceKm } from '../stationTiles';
+import { ChargingStation } from '../types';
+
+// A station at a position, with the distance the upstream search reported
+const station = (id: string, latitude: number, longitude: number, distance = 0): ChargingStation => ({
+  id,
+  lat: latitude,
+  lng: longitude,
+  name: id,
+  chargerType: ['IEC_62196_T1_COMBO'],
+  powerLevel: 150000,
+  network: 'Electrify America',
+  available: true,
+  evseCount: 2,
+  availableEvseCount: 1,
+  status: 'AVAILABLE',
+  powerTypes: [],
+  connectorTypes: [],
+  address: '1 Main St',
+  distance
+});
+
+describe('quantizeStationLookup', () => {
+  // Near the south-west corner of its tile, so the snapped center moves about 0.7 km north-east
+  const requested = { latitude: 38.9001, longitude: -77.0399, distance: 5, filters: {} };
+
+  it('snaps the center to its tile and keeps the filters', () => {
+    const snapped = quantizeStationLookup(requested);
+
+    expect(snapped.latitude).toBe(38.905);
+    expect(snapped.longitude).toBe(-77.035);
+    expect(snapped.filters).toBe(requested.filters);
+  });
+
+  it('still covers a station at the edge of the requested radius', () => {
+    // 5 km south-west of the requested center, away from the snapped center
+    const offsetKm = requested.distance / Math.SQRT2;
+    const station = {
+      latitude: requested.latitude - offsetKm / 111.32,
+      longitude: requested.longitude - offsetKm / (111.32 * Math.cos(requested.latitude * Math.PI / 180))
+    };
+    expect(distanceKm(requested.latitude, requested.longitude, station.latitude, station.longitude)).toBeLessThanOrEqual(requested.distance);
+
+    const snapped = quantizeStationLookup(requested);
+    const fromSnapped = distanceKm(snapped.latitude, snapped.longitude, station.latitude, station.longitude);
+
+    expect(fromSnapped).toBeGreaterThan(requested.distance);
+    expect(fromSnapped).toBeLessThanOrEqual(snapped.distance);
+  });
+
+  it('does not grow the distance past the largest the API accepts', () => {
+    expect(quantizeStationLookup({ ...requested, distance: 100 }).distance).toBe(100);
+  });
+});
+
+describe('narrowStationLookup', () => {
+  const requested = { latitude: 38.9001, longitude: -77.0399, distance: 5, filters: {} };
+  const snapped = quantizeStationLookup(requested);
+  // Kilometers per degree of longitude at the requested latitude
+  const kmPerLngDegree = 111.32 * Math.cos(requested.latitude * Math.PI / 180);
+
+  it('drops stations outside the requested circle and measures distances from the requested center', () => {
+    // 5.4 km north-east of the requested center: inside the snapped circle, outside the requested one
+    const outside = station('outside', requested.latitude + 5.4 / Math.SQRT2 / 111.32, requested.longitude + 5.4 / Math.SQRT2 / kmPerLngDegree, 4.7);
+    const inside = station('inside', requested.latitude, requested.longitude + 2 / kmPerLngDegree, 1.6);
+    expect(distanceKm(snapped.latitude, snapped.longitude, outside.lat, outside.lng)).toBeLessThanOrEqual(snapped.distance);
+
+    const stations = narrowStationLookup([outside, inside], snapped, requested);
+
+    expect(stations?.map(item => item.id)).toEqual(['inside']);
+    expect(stations?.[0].distance).toBeCloseTo(2, 1);
+  });
+
+  it('keeps the stations nearest the requested center up to the limit', () => {
+    const stations = [3, 1, 4, 2].map(km => station(`${km} km`, requested.latitude, requested.longitude - km / kmPerLngDegree));
+
+    expect(narrowStationLookup(stations, snapped, requested, 2)?.map(item => item.id)).toEqual(['1 km', '2 km']);
+  });
+
+  it('gives up on a result cut off before it covers the requested circle', () => {
+    // 100 stations within 1 km east of the requested center, as returned when the upstream result is cut off
+    const stations = Array.from({ length: 100 }, (_value, index) => station(`${index}`, requested.latitude, requested.longitude + index / 100 / kmPerLngDegree));
+
+    expect(narrowStationLookup(stations, snapped, requested)).toBeNull();
+  });
+
+  it('keeps a result cut off after the stations nearest the requested center', () => {
+    const stations = Array.from({ length: 100 }, (_value, index) => station(`${index}`, requested.latitude, requested.longitude + index / 100 / kmPerLngDegree));
+
+    expect(narrowStationLookup(stations, snapped, requested, 5)?.map(item => item.id)).toEqual(['0', '1', '2', '3', '4']);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Charging Station Tile Cache
+ *
+ * Caches /api/charging-stations results on the server so that repeated
+ * lookups of the same area, by any user, do not each cost a paid Mapbox EV
+ * request. Search centers are snapped to a grid of tiles and the search
+ * distance is rounded up to whole kilometers, so nearby requests share a
+ * cache key. Filter parameters are part of the key. Cached results are
+ * narrowed down to the requested search before they are returned.
+ *
+ * Configuration (environment variables):
+ * - STATION_CACHE_TTL_SECONDS: How long results are reused (default 300, 0 disables the cache)
+ * - STATION_CACHE_TILE_DEGREES: Tile size in degrees (default 0.01, about 1 km)
+ */
+
+import { ChargingStation } from '../types';
+import { STATION_RESULT_LIMIT, distanceKm } from '../stationTiles';
+import { CacheStore, MemoryCacheStore } from './cache';
+
+const DEFAULT_TTL_SECONDS = 300;
+const DEFAULT_TILE_DEGREES = 0.01;
+const KM_PER_DEGREE = 111.32;
+const MAX_DISTANCE_KM = 100; // Largest search distance the EV Charge Finder API accepts
+
+/**
+ * Parameters of a charging station lookup that affect its result
+ */
+export interface StationLookupParams {
+  latitude: number;
+  longitude: number;
+  distance: number; // Search radius in kilometers
+  filters: Record<string, string | null | undefined>; // Raw filter query parameters
+}
+
+/**
+ * Result of a cached lookup
+ */
+export interface CachedLookup<T> {
+  value: T;
+  hit: boolean;
+  ageSeconds: number;
+}
+
+let store: CacheStore<ChargingStation[]> = new MemoryCacheStore<ChargingStation[]>(2000);
+
+// Lookups currently being loaded, so concurrent misses for one key share a single upstream request
+const inFlight = new Map<string, Promise<ChargingStation[]>>();
+
+/**
+ * Replaces the cache backend, e.g. with a store shared between server instances
+ *
+ * @param newStore - The cache store to use
+ */
+export function setStationCacheStore(newStore: CacheStore<ChargingStation[]>): void {
+  store = newStore;
+}
+
+/**
+ * Returns the configured cache TTL in milliseconds
+ */
+export function getStationCacheTtlMs(): number {
+  const seconds = Number(process.env.STATION_CACHE_TTL_SECONDS ?? DEFAULT_TTL_SECONDS);
+  return isNaN(seconds) || seconds < 0 ? DEFAULT_TTL_SECONDS * 1000 : seconds * 1000;
+}
+
+/**
+ * Returns the configured tile size in degrees
+ */
+function getTileDegrees(): number {
+  const degrees = Number(process.env.STATION_CACHE_TILE_DEGREES ?? DEFAULT_TILE_DEGREES);
+  return isNaN(degrees) || degrees <= 0 ? DEFAULT_TILE_DEGREES : degrees;
+}
+
+/**
+ * Snaps a lookup to the center of its tile and rounds the distance up
+ *
+ * The distance grows by how far the center moved, so the snapped search
+ * circle always contains the requested one. The snapped parameters should be
+ * used for the upstream request, so the cached result matches every lookup
+ * that shares the key.
+ *
+ * @param params - The requested lookup
+ * @returns StationLookupParams - The quantized lookup
+ */
+export function quantizeStationLookup(params: StationLookupParams): StationLookupParams {
+  const tile = getTileDegrees();
+  const snap = (value: number) => Number(((Math.floor(value / tile) + 0.5) * tile).toFixed(6));
+
+  const latitude = snap(params.latitude);
+  const longitude = snap(params.longitude);
+
+  // Approximate offset between the requested and snapped centers in kilometers
+  const offsetLatKm = (latitude - params.latitude) * KM_PER_DEGREE;
+  const offsetLngKm = (longitude - params.longitude) * KM_PER_DEGREE * Math.cos(params.latitude * Math.PI / 180);
+  const offsetKm = Math.sqrt(offsetLatKm * offsetLatKm + offsetLngKm * offsetLngKm);
+
+  return {
+    latitude,
+    longitude,
+    distance: Math.min(MAX_DISTANCE_KM, Math.ceil(params.distance + offsetKm)),
+    filters: params.filters
+  };
+}
+
+/**
+ * Narrows the stations found by a quantized lookup down to the requested lookup
+ *
+ * Distances are measured again from the requested center, stations beyond
+ * the requested distance are dropped, and the nearest limit stations are
+ * kept. A quantized result cut off at STATION_RESULT_LIMIT only holds the
+ * stations nearest the snapped center, so it is only used when no station
+ * it may be missing could be among the requested ones.
+ *
+ * @param stations - The stations found by the quantized lookup
+ * @param quantized - The quantized lookup
+ * @param requested - The requested lookup
+ * @param limit - Maximum number of stations to return; all of them when undefined
+ * @returns ChargingStation[] | null - The requested stations, nearest first, or null if the quantized result may be missing some
+ */
+export function narrowStationLookup(
+  stations: ChargingStation[],
+  quantized: StationLookupParams,
+  requested: StationLookupParams,
+  limit?: number
+): ChargingStation[] | null {
+  const nearest = stations
+    .map(station => ({ ...station, distance: distanceKm(requested.latitude, requested.longitude, station.lat, station.lng) }))
+    .filter(station => station.distance <= requested.distance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit);
+
+  if (stations.length >= STATION_RESULT_LIMIT) {
+    // Every station is known up to the farthest one found from the snapped center, less the offset to the requested center
+    const offsetKm = distanceKm(requested.latitude, requested.longitude, quantized.latitude, quantized.longitude);
+    const reachKm = Math.max(...stations.map(station => distanceKm(quantized.latitude, quantized.longitude, station.lat, station.lng))) - offsetKm;
+    const isFull = limit !== undefined && nearest.length === limit;
+    if (requested.distance > reachKm && !(isFull && nearest[nearest.length - 1].distance <= reachKm)) {
+      return null;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Builds the cache key for a quantized lookup
+ *
+ * List-valued filters are sorted so that their order does not matter.
+ *
+ * @param params - A lookup returned by quantizeStationLookup
+ * @returns string - The cache key
+ */
+export function getStationCacheKey(params: StationLookupParams): string {
+  const filters = Object.keys(params.filters)
+    .sort()
+    .filter(name => params.filters[name])
+    .map(name => {
+      const value = (params.filters[name] as string).split(',').map(item => item.trim()).sort().join(',');
+      return `${name}=${value}`;
+    })
+    .join('&');
+
+  return `stations:${params.latitude},${params.longitude}:${params.distance}:${filters}`;
+}
+
+/**
+ * Returns cached stations for a lookup, loading and storing them on a miss
+ *
+ * @param params - A lookup returned by quantizeStationLookup
+ * @param load - Loads the stations from the upstream API
+ * @returns Promise<CachedLookup<ChargingStation[]>> - The stations and cache status
+ */
+export async function getCachedStations(
+  params: StationLookupParams,
+  load: () => Promise<ChargingStation[]>
+): Promise<CachedLookup<ChargingStation[]>> {
+  const ttlMs = getStationCacheTtlMs();
+  if (ttlMs === 0) {
+    return { value: await load(), hit: false, ageSeconds: 0 };
+  }
+
+  const key = getStationCacheKey(params);
+
+  try {
+    const cached = await store.get(key);
+    if (cached) {
+      return {
+        value: cached.value,
+        hit: true,
+        ageSeconds: Math.max(0, Math.floor((Date.now() - cached.storedAt) / 1000))
+      };
+    }
+  } catch (error) {
+    // A failing cache backend should not take the endpoint down
+    console.error('Station cache read failed:', error);
+  }
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = load()
+      .then(async value => {
+        try {
+          await store.set(key, { value, storedAt: Date.now() }, ttlMs);
+        } catch (error) {
+          console.error('Station cache write failed:', error);
+        }
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+
+  return { value: await pending, hit: false, ageSeconds: 0 };
+}
@@ -0,0 +1,60 @@
+/**
+ * Time Zone Lookup
+ *
+ * Finds the IANA time zone of a location with the Mapbox Tilequery API, on
+ * a tileset of time zone polygons, so route times can be shown in the local
+ * time of the route ends. Results are cached per location rounded to about
+ * 1 km, since time zone borders rarely move.
+ *
+ * Configuration (environment variables):
+ * - TIME_ZONE_TILESET: Tileset with a TZID property on each polygon (default examples.4ze9z6tv)
+ */
+
+import { tilequeryTimeZoneResponseSchema } from '../schemas';
+import { isValidTimeZone } from '../routeSchedule';
+import { mapboxGet } from './mapboxClient';
+import { parseUpstream } from './validation';
+import { MemoryCacheStore } from './cache';
+
+const DEFAULT_TIME_ZONE_TILESET = 'examples.4ze9z6tv';
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const store = new MemoryCacheStore<string>(1000);
+
+/**
+ * Looks up the time zone of a location
+ *
+ * Failures are logged and reported as null: a missing time zone only means
+ * times are shown in the viewer's time zone instead.
+ *
+ * @param coordinate - The location as longitude,latitude
+ * @returns Promise<string | null> - The IANA time zone, or null if it could not be found
+ */
+export async function lookupTimeZone(coordinate: string): Promise<string | null> {
+  const [longitude, latitude] = coordinate.split(',').map(Number);
+  const key = `${longitude.toFixed(2)},${latitude.toFixed(2)}`;
+
+  const cached = await store.get(key);
+  if (cached) {
+    return cached.value;
+  }
+
+  try {
+    const tileset = process.env.TIME_ZONE_TILESET || DEFAULT_TIME_ZONE_TILESET;
+    const raw = await mapboxGet<unknown>(`/v4/${tileset}/tilequery/${longitude},${latitude}.json`, {
+      query: { limit: 1 },
+      retries: 1
+    });
+    const data = parseUpstream(tilequeryTimeZoneResponseSchema, raw, 'tilequery response');
+
+    const timeZone = data.features[0]?.properties.TZID;
+    if (!timeZone || !isValidTimeZone(timeZone)) {
+      return null;
+    }
+    await store.set(key, { value: timeZone, storedAt: Date.now() }, CACHE_TTL_MS);
+    return timeZone;
+  } catch (error) {
+    console.warn('Time zone lookup failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import evLocations from '../../../../scripts/mapbox-stand-in/fixtures/ev-locations.json';
+import directionsRecordings from '../../../../scripts/mapbox-stand-in/fixtures/directions-ev.json';
+import searchboxPlaces from '../../../../scripts/mapbox-stand-in/fixtures/searchbox-places.json';
+import {
+  mapboxDirectionsResponseSchema,
+  mapboxEvDetailsResponseSchema,
+  mapboxEvResponseSchema,
+  searchRetrieveResponseSchema
+} from '../schemas';
+import { MapboxApiError } from './mapboxClient';
+import { parseUpstream, parseUpstreamCollection } from './validation';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseUpstream', () => {
+  it('strips fields that are not in the schema', () => {
+    const [feature] = searchboxPlaces.features;
+    const data = parseUpstream(searchRetrieveResponseSchema, { type: 'FeatureCollection', features: [feature] }, 'search retrieve response');
+
+    expect(data.features[0].properties).not.toHaveProperty('language');
+    expect(data.features[0].properties.name).toBe(feature.properties.name);
+  });
+
+  it('throws a 502 MapboxApiError when the payload does not match', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const parse = () => parseUpstream(mapboxEvDetailsResponseSchema, { type: 'Feature' }, 'EV location details response');
+
+    expect(parse).toThrow(MapboxApiError);
+    expect(parse).toThrow(expect.objectContaining({ status: 502, code: 'upstream_invalid_response' }));
+  });
+});
+
+describe('parseUpstreamCollection', () => {
+  it('drops and logs invalid records and keeps the rest', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const [first, second] = evLocations.features;
+    const broken = {
+      ...second,
+      properties: { ...second.properties, location: { ...second.properties.location, coordinates: undefined } }
+    };
+
+    const data = parseUpstreamCollection(
+      mapboxEvResponseSchema,
+      'features',
+      { type: 'FeatureCollection', features: [first, broken] },
+      'EV locations response',
+      'EV location'
+    );
+
+    expect(data.features).toHaveLength(1);
+    expect(data.features[0].properties.location.id).toBe(first.properties.location.id);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain(`EV location #1 (${second.properties.location.id})`);
+  });
+
+  it('keeps an optional collection missing', () => {
+    const data = parseUpstreamCollection(mapboxDirectionsResponseSchema, 'routes', { code: 'NoRoute' }, 'directions response', 'route');
+
+    expect(data).toEqual({ code: 'NoRoute', routes: undefined });
+  });
+
+  it('rejects a response whose envelope does not match', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => parseUpstreamCollection(
+      mapboxEvResponseSchema,
+      'features',
+      { type: 'FeatureCollection', features: 'none' },
+      'EV locations response',
+      'EV location'
+    )).toThrow(expect.objectContaining({ status: 502, code: 'upstream_invalid_response' }));
+  });
+});
+
+describe('stand-in fixtures', () => {
+  it('match the upstream schemas', () => {
+    expect(mapboxEvResponseSchema.safeParse(evLocations).success).toBe(true);
+    evLocations.features.forEach(feature => {
+      expect(mapboxEvDetailsResponseSchema.safeParse(feature).success).toBe(true);
+    });
+    directionsRecordings.forEach(recording => {
+      expect(mapboxDirectionsResponseSchema.safeParse(recording.response).success).toBe(true);
+    });
+    expect(searchRetrieveResponseSchema.safeParse(searchboxPlaces).success).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Upstream Payload Validation
+ *
+ * Helpers used by the API routes to check Mapbox responses against the
+ * schemas in ../schemas.ts before using them. Collections are validated
+ * record by record: a malformed record is logged and dropped, and the rest
+ * of the response is still served. A response whose envelope does not match
+ * is reported as a 502 in the shared error envelope.
+ */
+
+import { z } from 'zod';
+import { MapboxApiError } from './mapboxClient';
+
+/**
+ * Formats validation issues as "path: message" strings for logging
+ */
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Returns the identifier of a record for log messages, if it has one
+ */
+function getRecordId(record: unknown): string | undefined {
+  if (!record || typeof record !== 'object') return undefined;
+  const value = record as {
+    id?: unknown;
+    mapbox_id?: unknown;
+    properties?: { mapbox_id?: unknown; location?: { id?: unknown } };
+  };
+  const id = value.id ?? value.mapbox_id ?? value.properties?.location?.id ?? value.properties?.mapbox_id;
+  return typeof id === 'string' ? id : undefined;
+}
+
+/**
+ * Validates a whole upstream payload
+ *
+ * @param schema - The schema the payload must match
+ * @param data - The parsed response body
+ * @param context - Description of the payload, used in logs and the error message
+ * @returns The validated payload, with unknown fields removed
+ * @throws MapboxApiError - 502 'upstream_invalid_response' if the payload does not match
+ */
+export function parseUpstream<T extends z.ZodTypeAny>(schema: T, data: unknown, context: string): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    console.error(`Invalid ${context} from Mapbox:`, formatIssues(result.error));
+    throw new MapboxApiError(502, 'upstream_invalid_response', `Mapbox returned an invalid ${context}`);
+  }
+  return result.data;
+}
+
+/**
+ * Validates a list of upstream records one by one, dropping and logging the invalid ones
+ *
+ * @param schema - The schema each record must match
+ * @param records - The records to validate
+ * @param context - Description of a record, used in logs
+ * @returns The valid records, with unknown fields removed
+ */
+export function parseUpstreamRecords<T extends z.ZodTypeAny>(schema: T, records: unknown[], context: string): z.infer<T>[] {
+  const valid: z.infer<T>[] = [];
+
+  records.forEach((record, index) => {
+    const result = schema.safeParse(record);
+    if (result.success) {
+      valid.push(result.data);
+      return;
+    }
+    const id = getRecordId(record);
+    console.warn(
+      `Dropping invalid ${context} #${index}${id ? ` (${id})` : ''} from Mapbox:`,
+      formatIssues(result.error)
+    );
+  });
+
+  return valid;
+}
+
+/**
+ * Validates a payload whose main content is a list of records
+ *
+ * The envelope (every field except the list) must match; the records in the
+ * list are validated individually with parseUpstreamRecords.
+ *
+ * @param schema - Object schema of the whole payload
+ * @param key - Name of the field that holds the records; it must be an array schema, optionally optional
+ * @param data - The parsed response body
+ * @param context - Description of the payload, used in logs and the error message
+ * @param recordContext - Description of a single record, used in logs
+ * @returns The validated payload, keeping only the valid records
+ * @throws MapboxApiError - 502 'upstream_invalid_response' if the envelope does not match
+ */
+export function parseUpstreamCollection<T extends z.AnyZodObject>(
+  schema: T,
+  key: keyof z.infer<T> & string,
+  data: unknown,
+  context: string,
+  recordContext: string
+): z.infer<T> {
+  const field = schema.shape[key] as z.ZodTypeAny;
+  const isOptional = field instanceof z.ZodOptional;
+  const listSchema = (isOptional ? (field as z.ZodOptional<z.ZodTypeAny>).unwrap() : field) as z.ZodArray<z.ZodTypeAny>;
+  const looseList = isOptional ? z.array(z.unknown()).optional() : z.array(z.unknown());
+
+  const envelope = parseUpstream(schema.extend({ [key]: looseList }), data, context);
+  const records = envelope[key] as unknown[] | undefined;
+
+  return {
+    ...envelope,
+    [key]: records === undefined ? undefined : parseUpstreamRecords(listSchema.element, records, recordContext)
+  };
+}
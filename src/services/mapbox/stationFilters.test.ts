@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_STATION_FILTERS, POWER_LEVEL_FILTERS, matchesStationFilters } from './stationFilters';
+import { ChargingStation } from './types';
+
+// A station with one power type of the given maximum power in watts
+const station = (maxPower: number): ChargingStation => ({
+  id: `station-${maxPower}`,
+  lat: 38.9,
+  lng: -77.03,
+  name: 'Station',
+  chargerType: ['IEC_62196_T1'],
+  powerLevel: maxPower,
+  network: 'ChargePoint',
+  available: true,
+  evseCount: 1,
+  availableEvseCount: 1,
+  status: 'AVAILABLE',
+  powerTypes: [{ powerType: maxPower >= 25000 ? 'DC' : 'AC_1_PHASE', evseCount: 1, availableEvseCount: 1, maxPower }],
+  connectorTypes: [{ standard: 'IEC_62196_T1', powerType: maxPower >= 25000 ? 'DC' : 'AC_1_PHASE', maxPower }],
+  address: '1 Main St'
+});
+
+// Keys of the power levels a station matches on its own
+const matchingPowerLevels = (maxPower: number) => POWER_LEVEL_FILTERS
+  .filter(option => matchesStationFilters(station(maxPower), { ...DEFAULT_STATION_FILTERS, powerLevels: [option.key] }))
+  .map(option => option.key);
+
+describe('matchesStationFilters', () => {
+  it('puts a station at a power level boundary in the higher level only', () => {
+    expect(matchingPowerLevels(2000)).toEqual(['level2']);
+    expect(matchingPowerLevels(25000)).toEqual(['dcfc']);
+  });
+
+  it('matches one power level just below each boundary', () => {
+    expect(matchingPowerLevels(1999)).toEqual(['level1']);
+    expect(matchingPowerLevels(24999)).toEqual(['level2']);
+  });
+
+  it('matches every station without power level filters', () => {
+    expect(matchesStationFilters(station(2000), DEFAULT_STATION_FILTERS)).toBe(true);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Charging Station Filters
+ *
+ * This module translates the filter selections on the map page into
+ * EV Charge Finder API query options, and applies the same filters to
+ * stations that are already cached on the client.
+ *
+ * API Reference: https://docs.mapbox.com/api/navigation/ev-charge-finder/
+ */
+
+import {
+  AvailabilityMode,
+  ChargingStation,
+  ChargingStationSearchOptions,
+  StationFilters
+} from './types';
+
+/**
+ * Charger type filter options mapped to OCPI connector standards
+ */
+export const CHARGER_TYPE_FILTERS: Array<{ key: string; label: string; standards: string[] }> = [
+  { key: 'ccs', label: 'CCS (Combined Charging System)', standards: ['IEC_62196_T1_COMBO', 'IEC_62196_T2_COMBO'] },
+  { key: 'chademo', label: 'CHAdeMO', standards: ['CHADEMO'] },
+  { key: 'j1772', label: 'J1772', standards: ['IEC_62196_T1'] },
+  { key: 'tesla', label: 'Tesla Supercharger', standards: ['TESLA_S', 'TESLA_R'] },
+  { key: 'nacs', label: 'NACS', standards: ['TESLA_S'] }
+];
+
+/**
+ * Power level filter options as ranges of charging power in watts
+ *
+ * Each range includes minPower and excludes maxPower, so a station at a
+ * boundary matches one level only.
+ */
+export const POWER_LEVEL_FILTERS: Array<{ key: string; label: string; minPower: number; maxPower: number }> = [
+  { key: 'level1', label: 'Level 1 (120V)', minPower: 0, maxPower: 2000 },
+  { key: 'level2', label: 'Level 2 (240V)', minPower: 2000, maxPower: 25000 },
+  { key: 'dcfc', label: 'DC Fast Charging', minPower: 25000, maxPower: 1000000 } // Up to megawatt charging
+];
+
+/**
+ * Network filter options mapped to charge point operator names
+ *
+ * The 'other' option has no operator name; it matches every operator
+ * that is not listed here.
+ */
+export const NETWORK_FILTERS: Array<{ key: string; label: string; operator?: string }> = [
+  { key: 'electrifyAmerica', label: 'Electrify America', operator: 'Electrify America' },
+  { key: 'chargepoint', label: 'ChargePoint', operator: 'ChargePoint' },
+  { key: 'evgo', label: 'EVgo', operator: 'EVgo' },
+  { key: 'tesla', label: 'Tesla', operator: 'Tesla' },
+  { key: 'other', label: 'Other' }
+];
+
+/**
+ * Availability options: stations with at least one available charger, or every station
+ */
+export const AVAILABILITY_FILTERS: Array<{ key: AvailabilityMode; label: string }> = [
+  { key: 'all', label: 'All stations' },
+  { key: 'available', label: 'Available only' }
+];
+
+/**
+ * Empty filter selection, which matches every station
+ */
+export const DEFAULT_STATION_FILTERS: StationFilters = {
+  chargerTypes: [],
+  powerLevels: [],
+  networks: [],
+  availability: 'all'
+};
+
+/**
+ * Builds the EV Charge Finder API query options for a filter selection
+ *
+ * The API only accepts a single power range, so multiple power levels are
+ * sent as the range that spans all of them and narrowed down on the client
+ * by matchesStationFilters.
+ *
+ * @param filters - The selected station filters
+ * @returns ChargingStationSearchOptions - Query options for fetchChargingStations
+ */
+export function buildStationSearchOptions(filters: StationFilters): ChargingStationSearchOptions {
+  const options: ChargingStationSearchOptions = {};
+
+  const standards = CHARGER_TYPE_FILTERS
+    .filter(option => filters.chargerTypes.includes(option.key))
+    .flatMap(option => option.standards);
+  if (standards.length > 0) {
+    options.connectorTypes = Array.from(new Set(standards));
+  }
+
+  const powerLevels = POWER_LEVEL_FILTERS.filter(option => filters.powerLevels.includes(option.key));
+  if (powerLevels.length > 0) {
+    options.minChargingPower = Math.min(...powerLevels.map(option => option.minPower));
+    options.maxChargingPower = Math.max(...powerLevels.map(option => option.maxPower));
+  }
+
+  const namedNetworks = NETWORK_FILTERS.filter(option => option.operator);
+  const selectedNetworks = namedNetworks.filter(option => filters.networks.includes(option.key));
+  const includeOther = filters.networks.includes('other');
+
+  if (filters.networks.length > 0 && !includeOther) {
+    // Only the selected operators
+    options.operators = selectedNetworks.map(option => option.operator as string);
+  } else if (includeOther && selectedNetworks.length < namedNetworks.length) {
+    // Everyone except the listed operators that were left unchecked
+    options.excludeOperators = namedNetworks
+      .filter(option => !filters.networks.includes(option.key))
+      .map(option => option.operator as string);
+  }
+
+  if (filters.availability === 'available') {
+    options.availability = 'AVAILABLE';
+  }
+
+  return options;
+}
+
+/**
+ * Checks whether a station matches a filter selection
+ *
+ * @param station - The charging station to check
+ * @param filters - The selected station filters
+ * @returns boolean - True if the station should be shown
+ */
+export function matchesStationFilters(station: ChargingStation, filters: StationFilters): boolean {
+  if (filters.availability === 'available' && !station.available) {
+    return false;
+  }
+
+  if (filters.chargerTypes.length > 0) {
+    const standards = CHARGER_TYPE_FILTERS
+      .filter(option => filters.chargerTypes.includes(option.key))
+      .flatMap(option => option.standards);
+    if (!station.chargerType.some(type => standards.includes(type))) {
+      return false;
+    }
+  }
+
+  if (filters.powerLevels.length > 0) {
+    // A site with both AC and DC chargers matches each of their power levels
+    const powers = station.powerTypes.length > 0
+      ? station.powerTypes.map(powerType => powerType.maxPower)
+      : [station.powerLevel];
+    const inRange = POWER_LEVEL_FILTERS
+      .filter(option => filters.powerLevels.includes(option.key))
+      .some(option => powers.some(power => power >= option.minPower && power < option.maxPower));
+    if (!inRange) {
+      return false;
+    }
+  }
+
+  if (filters.networks.length > 0) {
+    const network = station.network.toLowerCase();
+    const listed = NETWORK_FILTERS.find(option => option.operator?.toLowerCase() === network);
+    const key = listed ? listed.key : 'other';
+    if (!filters.networks.includes(key)) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatStationStatus,
+  getStationStatus,
+  getStationStatusColor,
+  toStationStatus
+} from './stationStatus';
+import { StationStatus } from './types';
+
+describe('toStationStatus', () => {
+  it('keeps the statuses it knows', () => {
+    expect(toStationStatus('AVAILABLE')).toBe('AVAILABLE');
+    expect(toStationStatus('CHARGING')).toBe('CHARGING');
+    expect(toStationStatus('RESERVED')).toBe('RESERVED');
+  });
+
+  it('maps out-of-service OCPI statuses to unavailable', () => {
+    ['BLOCKED', 'INOPERATIVE', 'OUTOFORDER', 'PLANNED', 'REMOVED'].forEach(status => {
+      expect(toStationStatus(status)).toBe('UNAVAILABLE');
+    });
+  });
+
+  it('maps unrecognized statuses to unknown', () => {
+    expect(toStationStatus('SOMETHING_ELSE')).toBe('UNKNOWN');
+  });
+});
+
+describe('getStationStatus', () => {
+  it('is available when any EVSE is available', () => {
+    expect(getStationStatus(['OUTOFORDER', 'CHARGING', 'AVAILABLE'])).toBe('AVAILABLE');
+  });
+
+  it('is in use when every working EVSE is charging', () => {
+    expect(getStationStatus(['CHARGING', 'INOPERATIVE', 'CHARGING'])).toBe('CHARGING');
+  });
+
+  it('prefers unknown over unavailable', () => {
+    expect(getStationStatus(['OUTOFORDER', 'UNKNOWN'])).toBe('UNKNOWN');
+    expect(getStationStatus(['OUTOFORDER', 'BLOCKED'])).toBe('UNAVAILABLE');
+  });
+
+  it('is unknown for a station without EVSEs', () => {
+    expect(getStationStatus([])).toBe('UNKNOWN');
+  });
+});
+
+describe('formatStationStatus', () => {
+  it('labels known statuses and passes others through', () => {
+    expect(formatStationStatus('CHARGING')).toBe('In Use');
+    expect(formatStationStatus('OUTOFORDER')).toBe('OUTOFORDER');
+  });
+});
+
+describe('getStationStatusColor', () => {
+  it('falls back to the unknown color for a missing status', () => {
+    expect(getStationStatusColor(undefined as unknown as StationStatus)).toEqual(getStationStatusColor('UNKNOWN'));
+    expect(getStationStatusColor('AVAILABLE')).not.toEqual(getStationStatusColor('UNAVAILABLE'));
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Charging Station Status
+ *
+ * Display labels and marker colors for the OCPI EVSE statuses the app
+ * distinguishes, and the summary status of a station that styles its map
+ * marker. OCPI statuses for chargers that are out of service (BLOCKED,
+ * INOPERATIVE, OUTOFORDER, PLANNED, REMOVED) are shown as unavailable.
+ *
+ * OCPI Reference: https://github.com/ocpi/ocpi/blob/2.2.1/mod_locations.asciidoc#mod_locations_status_enum
+ */
+
+import { StationStatus } from './types';
+
+/**
+ * Station statuses with their labels and marker colors
+ *
+ * The order is the priority used by getStationStatus: a station takes the
+ * first status that any of its EVSEs has.
+ */
+export const STATION_STATUSES: Array<{ status: StationStatus; label: string; color: [number, number, number] }> = [
+  { status: 'AVAILABLE', label: 'Available', color: [46, 204, 113] },
+  { status: 'CHARGING', label: 'In Use', color: [52, 152, 219] },
+  { status: 'OCCUPIED', label: 'Occupied', color: [243, 156, 18] },
+  { status: 'RESERVED', label: 'Reserved', color: [241, 196, 15] },
+  { status: 'UNKNOWN', label: 'Unknown', color: [149, 165, 166] },
+  { status: 'UNAVAILABLE', label: 'Unavailable', color: [231, 76, 60] }
+];
+
+// OCPI statuses of chargers that cannot be used
+const OUT_OF_SERVICE_STATUSES = ['BLOCKED', 'INOPERATIVE', 'OUTOFORDER', 'PLANNED', 'REMOVED'];
+
+/**
+ * Maps an OCPI EVSE status to one of the station statuses
+ *
+ * @param status - The EVSE status from the API
+ * @returns StationStatus - The matching station status, 'UNKNOWN' if it is not recognized
+ */
+export function toStationStatus(status: string): StationStatus {
+  if (OUT_OF_SERVICE_STATUSES.includes(status)) {
+    return 'UNAVAILABLE';
+  }
+  const known = STATION_STATUSES.find(option => option.status === status);
+  return known ? known.status : 'UNKNOWN';
+}
+
+/**
+ * Summarizes the statuses of a station's EVSEs
+ *
+ * @param evseStatuses - The OCPI status of each EVSE
+ * @returns StationStatus - The highest priority status, 'UNKNOWN' for a station without EVSEs
+ */
+export function getStationStatus(evseStatuses: string[]): StationStatus {
+  const statuses = new Set(evseStatuses.map(toStationStatus));
+  const best = STATION_STATUSES.find(option => statuses.has(option.status));
+  return best ? best.status : 'UNKNOWN';
+}
+
+/**
+ * Formats an EVSE or station status for display
+ *
+ * @param status - An OCPI EVSE status or a station status
+ * @returns string - The status label, or the status itself if it has no label
+ */
+export function formatStationStatus(status: string): string {
+  return STATION_STATUSES.find(option => option.status === status)?.label || status;
+}
+
+/**
+ * Returns the marker color of a station status
+ *
+ * @param status - The station status
+ * @returns [number, number, number] - RGB color, the 'UNKNOWN' color if the status is not recognized
+ */
+export function getStationStatusColor(status: StationStatus): [number, number, number] {
+  const option = STATION_STATUSES.find(item => item.status === status)
+    || STATION_STATUSES.find(item => item.status === 'UNKNOWN');
+  return option ? option.color : [0, 0, 0];
+}
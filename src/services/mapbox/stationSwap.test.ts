@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatDurationChange,
+  getAlternativeStations,
+  getSwapRequest,
+  getWaypointsWithStation,
+  toPinnedChargingStation
+} from './stationSwap';
+import { ChargingStation, ChargingWaypoint, EvRoute, EvRouteRequest, PinnedChargingStation } from './types';
+
+// A charging stop at a station
+const chargingStop = (stationId: string, location: [number, number], pinned?: boolean): ChargingWaypoint => ({
+  type: 'charging-station',
+  name: stationId,
+  chargeTime: 1200,
+  chargeTo: 60000,
+  chargeAtArrival: 15000,
+  plugType: 'ccs_combo_type1',
+  currentType: 'dc',
+  powerKw: 150,
+  stationId,
+  location,
+  ...(pinned ? { pinned } : {})
+});
+
+// A station found around a charging stop, with one EVSE per connector type
+const station = (id: string, distance: number, connectorTypes: ChargingStation['connectorTypes']): ChargingStation => ({
+  id,
+  lat: 39.64,
+  lng: -75.69,
+  name: id,
+  chargerType: Array.from(new Set(connectorTypes.map(connectorType => connectorType.standard))),
+  powerLevel: Math.max(...connectorTypes.map(connectorType => connectorType.maxPower)),
+  network: 'Electrify America',
+  available: true,
+  evseCount: connectorTypes.length,
+  availableEvseCount: connectorTypes.length,
+  status: 'AVAILABLE',
+  powerTypes: connectorTypes.map(({ powerType, maxPower }) => ({ powerType, evseCount: 1, availableEvseCount: 1, maxPower })),
+  connectorTypes,
+  address: '1 Main St',
+  distance
+});
+
+const dc = (maxPower: number, standard = 'IEC_62196_T1_COMBO') => ({ standard, powerType: 'DC', maxPower });
+const ac = (maxPower: number, standard = 'IEC_62196_T1') => ({ standard, powerType: 'AC_1_PHASE', maxPower });
+
+// Washington to New York through Philadelphia, charging before and after Philadelphia
+const pinnedStop = chargingStop('pinned-1', [-76.3, 39.4], true);
+const autoStop = chargingStop('auto-1', [-74.7, 40.2]);
+const route = {
+  distance: 365000,
+  duration: 16200,
+  geometry: { type: 'LineString', coordinates: [] },
+  legs: [],
+  waypoints: [
+    { name: 'Washington', location: [-77.0369, 38.9072] },
+    { name: '', location: pinnedStop.location, metadata: { ...pinnedStop } },
+    { name: 'Philadelphia', location: [-75.1652, 39.9526] },
+    { name: '', location: autoStop.location, metadata: { ...autoStop } },
+    { name: 'New York', location: [-74.006, 40.7128] }
+  ],
+  chargingWaypoints: [pinnedStop, autoStop]
+} as EvRoute;
+
+describe('getAlternativeStations', () => {
+  it('leaves out the stop\'s own station and sorts the others by distance', () => {
+    const stations = [station('far', 4.2, [dc(150000)]), station('auto-1', 0, [dc(350000)]), station('near', 0.8, [dc(50000)])];
+
+    expect(getAlternativeStations(stations, autoStop).map(item => item.id)).toEqual(['near', 'far']);
+  });
+});
+
+describe('toPinnedChargingStation', () => {
+  it('charges at the fastest DC power, or AC for stations without DC chargers', () => {
+    expect(toPinnedChargingStation(station('dc-1', 1, [ac(19200), dc(150000)]), ['ccs_combo_type1'])).toEqual({
+      stationId: 'dc-1',
+      location: [-75.69, 39.64],
+      powerKw: 150,
+      currentType: 'dc'
+    });
+    expect(toPinnedChargingStation(station('ac-1', 1, [ac(7200)]), ['ccs_combo_type1'])).toMatchObject({ powerKw: 7, currentType: 'ac' });
+  });
+
+  it('charges at the fastest power of the connectors the vehicle can use', () => {
+    const mixed = station('mixed-1', 1, [dc(350000), dc(50000, 'CHADEMO'), ac(11520, 'TESLA_R')]);
+
+    expect(toPinnedChargingStation(mixed, ['chademo'])).toMatchObject({ powerKw: 50, currentType: 'dc' });
+    expect(toPinnedChargingStation(mixed, ['tesla'])).toMatchObject({ powerKw: 12, currentType: 'ac' });
+  });
+
+  it('charges at the station\'s fastest power when none of its connectors match', () => {
+    expect(toPinnedChargingStation(station('dc-2', 1, [ac(19200), dc(150000)]), ['chademo'])).toMatchObject({
+      powerKw: 150,
+      currentType: 'dc'
+    });
+  });
+});
+
+describe('getWaypointsWithStation', () => {
+  const replacement: PinnedChargingStation = { stationId: 'chosen', location: [-74.8, 40.1], powerKw: 50, currentType: 'dc' };
+
+  it('puts the station in place of the stop, keeping user waypoints and pinned stations', () => {
+    expect(getWaypointsWithStation(route, autoStop, replacement)).toEqual([
+      { stationId: 'pinned-1', location: [-76.3, 39.4], powerKw: 150, currentType: 'dc' },
+      [-75.1652, 39.9526],
+      replacement
+    ]);
+  });
+
+  it('leaves out the charging stops the router chose', () => {
+    expect(getWaypointsWithStation(route, pinnedStop, replacement)).toEqual([replacement, [-75.1652, 39.9526]]);
+  });
+});
+
+describe('getSwapRequest', () => {
+  const replacement: PinnedChargingStation = { stationId: 'chosen', location: [-74.8, 40.1], powerKw: 50, currentType: 'dc' };
+
+  // The request the route was planned with
+  const planned: EvRouteRequest = {
+    start: [-77.0369, 38.9072],
+    end: [-74.006, 40.7128],
+    waypoints: [[-75.1652, 39.9526]],
+    vehicleParams: { vehicleType: 'tesla_model3', initialCharge: 80, minCharge: 20, minChargeAtStation: 10, connectorTypes: ['tesla'] },
+    timing: { mode: 'depart_at', time: '2025-07-04T09:00' },
+    exclude: ['toll']
+  };
+
+  it('keeps the planned request and replaces the stop\'s waypoint', () => {
+    expect(getSwapRequest(planned, route, autoStop, replacement)).toEqual({
+      ...planned,
+      waypoints: [
+        { stationId: 'pinned-1', location: [-76.3, 39.4], powerKw: 150, currentType: 'dc' },
+        [-75.1652, 39.9526],
+        replacement
+      ]
+    });
+  });
+});
+
+describe('formatDurationChange', () => {
+  it('signs the change and ignores changes under a minute', () => {
+    expect(formatDurationChange(12 * 60)).toBe('+12 minutes');
+    expect(formatDurationChange(-(3600 + 5 * 60))).toBe('-1 hour 5 minutes');
+    expect(formatDurationChange(-30)).toBe('No change');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Charging Stop Swaps
+ *
+ * Replaces a charging stop picked by the router with a nearby station the
+ * driver prefers. The chosen station is pinned as a waypoint of the route
+ * request, so the router charges there and plans the rest of the trip
+ * around it.
+ */
+
+import { ChargingStation, ChargingWaypoint, EvRoute, EvRouteRequest, PinnedChargingStation, RouteWaypoint } from './types';
+import { formatDuration } from './evRouting';
+import { toConnectorStandards } from './vehicleProfiles';
+
+/**
+ * Search radius around a charging stop for alternative stations, in kilometers
+ */
+export const ALTERNATIVE_STATION_RADIUS_KM = 5;
+
+/**
+ * Lists the stations that can replace a charging stop, nearest first
+ *
+ * @param stations - Stations found around the stop
+ * @param stop - The charging stop to replace
+ * @returns ChargingStation[] - The stations other than the stop's own
+ */
+export function getAlternativeStations(stations: ChargingStation[], stop: ChargingWaypoint): ChargingStation[] {
+  return stations
+    .filter(station => station.id !== stop.stationId)
+    .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+}
+
+/**
+ * Describes a station as a charging station to pin on a route
+ *
+ * The station charges at the fastest power of the connectors the vehicle
+ * can use, preferring DC over AC. When none of its connectors match, it
+ * charges at its fastest power.
+ *
+ * @param station - The station
+ * @param connectorTypes - Directions API connector types of the vehicle, e.g. 'ccs_combo_type1'
+ * @returns PinnedChargingStation - The station to charge at
+ */
+export function toPinnedChargingStation(station: ChargingStation, connectorTypes: string[]): PinnedChargingStation {
+  const standards = toConnectorStandards(connectorTypes);
+  const usable = station.connectorTypes.filter(connectorType => standards.includes(connectorType.standard));
+  const dc = usable.filter(connectorType => connectorType.powerType === 'DC');
+  const fastest = dc.length > 0 ? dc : usable;
+  const maxPower = fastest.length > 0 ? Math.max(...fastest.map(connectorType => connectorType.maxPower)) : station.powerLevel;
+  const hasDc = usable.length > 0 ? dc.length > 0 : station.powerTypes.some(powerType => powerType.powerType === 'DC');
+
+  return {
+    stationId: station.id,
+    location: [station.lng, station.lat],
+    powerKw: Math.round(maxPower / 1000),
+    currentType: hasDc ? 'dc' : 'ac'
+  };
+}
+
+/**
+ * Returns the intermediate waypoints that request a route charging at a station instead of one of its stops
+ *
+ * The route's user waypoints and earlier pinned stations are kept in
+ * order, and the station takes the place of the replaced stop. Other
+ * charging stops are left out, so the router can choose them again.
+ *
+ * @param route - The route
+ * @param stop - The charging stop of the route to replace
+ * @param station - The station to charge at instead
+ * @returns RouteWaypoint[] - The waypoints between the start and the end
+ */
+export function getWaypointsWithStation(route: EvRoute, stop: ChargingWaypoint, station: PinnedChargingStation): RouteWaypoint[] {
+  let chargingIndex = 0;
+
+  return route.waypoints.slice(1, -1).flatMap((waypoint): RouteWaypoint[] => {
+    if (waypoint.metadata?.type !== 'charging-station') {
+      return [waypoint.location];
+    }
+
+    const chargingStop = route.chargingWaypoints[chargingIndex++];
+    if (chargingStop === stop) {
+      return [station];
+    }
+    if (chargingStop?.pinned) {
+      return [{
+        stationId: chargingStop.stationId,
+        location: chargingStop.location,
+        powerKw: chargingStop.powerKw,
+        currentType: chargingStop.currentType === 'ac' ? 'ac' : 'dc'
+      }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Returns the request for a route charging at a station instead of one of its stops
+ *
+ * Everything but the waypoints is taken from the request the route was
+ * calculated with, so the new route is the same trip and its total time
+ * can be compared with the route's.
+ *
+ * @param request - The request the route was calculated with
+ * @param route - The route
+ * @param stop - The charging stop of the route to replace
+ * @param station - The station to charge at instead
+ * @returns EvRouteRequest - The request for the new route
+ */
+export function getSwapRequest(
+  request: EvRouteRequest,
+  route: EvRoute,
+  stop: ChargingWaypoint,
+  station: PinnedChargingStation
+): EvRouteRequest {
+  return { ...request, waypoints: getWaypointsWithStation(route, stop, station) };
+}
+
+/**
+ * Formats the change in a duration, such as the total time of a route after a swap
+ *
+ * @param seconds - The change in seconds; positive when the duration grew
+ * @returns string - e.g. "+12 minutes", "-1 hour 5 minutes" or "No change" within a minute
+ */
+export function formatDurationChange(seconds: number): string {
+  if (Math.abs(seconds) < 60) {
+    return 'No change';
+  }
+  return `${seconds > 0 ? '+' : '-'}${formatDuration(Math.abs(seconds))}`;
+}
@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  MAX_STATION_TILE_ZOOM,
+  STATION_RESULT_LIMIT,
+  STATION_TILE_ZOOM,
+  StationTile,
+  boundsIntersect,
+  expandBounds,
+  fetchTileStations,
+  getChildTiles,
+  getCoveringTiles,
+  getTileAt,
+  getTileBounds,
+  getTileKey,
+  getTileSearchArea,
+  isInBounds,
+  wrapBounds
+} from './stationTiles';
+import { requestChargingStations } from './chargingStations';
+import { ChargingStation } from './types';
+
+vi.mock('./chargingStations', () => ({ requestChargingStations: vi.fn() }));
+
+const mockedRequest = vi.mocked(requestChargingStations);
+
+afterEach(() => {
+  vi.resetAllMocks();
+  vi.restoreAllMocks();
+});
+
+// A station at a position
+const station = (id: string, lat: number, lng: number): ChargingStation => ({
+  id,
+  lat,
+  lng,
+  name: id,
+  chargerType: ['IEC_62196_T1_COMBO'],
+  powerLevel: 150000,
+  network: 'Electrify America',
+  available: true,
+  evseCount: 1,
+  availableEvseCount: 1,
+  status: 'AVAILABLE',
+  powerTypes: [],
+  connectorTypes: [],
+  address: '1 Main St'
+});
+
+// A search result at the API's result limit
+const cappedResult = () => Array.from({ length: STATION_RESULT_LIMIT }, (_value, index) => station(`capped-${index}`, 0, 0));
+
+// Fiji, across the antimeridian
+const acrossAntimeridian = { north: -16.5, south: -17.5, west: 179.5, east: -179.5 };
+
+describe('getCoveringTiles', () => {
+  it('covers every tile of a small viewport', () => {
+    const tile = getTileAt(38.9, -77.03);
+    const bounds = getTileBounds(tile);
+    const inset = { north: bounds.north - 0.001, south: bounds.south + 0.001, west: bounds.west + 0.001, east: bounds.east - 0.001 };
+
+    expect(getCoveringTiles(inset)).toEqual([tile]);
+  });
+
+  it('stops at 36 tiles for a large viewport', () => {
+    const tiles = getCoveringTiles({ north: 40, south: 38, west: -78, east: -76 });
+
+    expect(tiles).toHaveLength(36);
+    expect(new Set(tiles.map(getTileKey)).size).toBe(36);
+    expect(tiles.every(tile => tile.z === STATION_TILE_ZOOM)).toBe(true);
+  });
+
+  it('wraps around to tile x = 0 across the antimeridian', () => {
+    const n = Math.pow(2, STATION_TILE_ZOOM);
+    const bounds = { north: -16.99, south: -17, west: 179.95, east: 180.05 };
+
+    expect(getCoveringTiles(bounds).map(tile => tile.x)).toEqual([n - 1, 0]);
+    expect(getCoveringTiles(wrapBounds(bounds))).toEqual(getCoveringTiles(bounds));
+  });
+});
+
+describe('wrapBounds', () => {
+  it('wraps longitudes past 180 so west is greater than east', () => {
+    expect(wrapBounds({ ...acrossAntimeridian, east: 180.5 })).toEqual(acrossAntimeridian);
+  });
+
+  it('keeps the edges of a full-width viewport apart', () => {
+    expect(wrapBounds({ north: 80, south: -80, west: -200, east: 200 })).toMatchObject({ west: -180, east: 180 });
+    expect(wrapBounds({ north: 80, south: -80, west: -180, east: 180 })).toMatchObject({ west: -180, east: 180 });
+  });
+});
+
+describe('isInBounds', () => {
+  it('matches points on both sides of the antimeridian', () => {
+    expect(isInBounds(-17, 179.9, acrossAntimeridian)).toBe(true);
+    expect(isInBounds(-17, -179.9, acrossAntimeridian)).toBe(true);
+    expect(isInBounds(-17, 0, acrossAntimeridian)).toBe(false);
+  });
+});
+
+describe('expandBounds', () => {
+  it('pads both sides across the antimeridian', () => {
+    const expanded = expandBounds(acrossAntimeridian, 0.5);
+
+    expect(expanded.north).toBeCloseTo(-16);
+    expect(expanded.south).toBeCloseTo(-18);
+    expect(expanded.west).toBeCloseTo(179);
+    expect(expanded.east).toBeCloseTo(-179);
+  });
+});
+
+describe('boundsIntersect', () => {
+  it('finds overlaps on either side of the antimeridian', () => {
+    const west = { north: -16, south: -18, west: 179, east: 179.8 };
+    const east = { north: -16, south: -18, west: -179.8, east: -179 };
+
+    expect(boundsIntersect(west, acrossAntimeridian)).toBe(true);
+    expect(boundsIntersect(acrossAntimeridian, east)).toBe(true);
+    expect(boundsIntersect({ ...east, west: 0, east: 1 }, acrossAntimeridian)).toBe(false);
+  });
+});
+
+describe('fetchTileStations', () => {
+  it('splits a tile at the result limit into its children down to the deepest zoom', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockedRequest.mockResolvedValue(cappedResult());
+
+    const tile = getTileAt(38.9, -77.03, MAX_STATION_TILE_ZOOM - 1);
+    await fetchTileStations(tile);
+
+    const searches = [tile, ...getChildTiles(tile)].map(getTileSearchArea);
+    expect(mockedRequest.mock.calls.map(([lat, lng, radiusKm]) => ({ lat, lng, radiusKm }))).toEqual(searches);
+    expect(mockedRequest.mock.calls.every(call => call[3]?.limit === STATION_RESULT_LIMIT)).toBe(true);
+    expect(warn).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not split past the deepest zoom', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockedRequest.mockResolvedValue(cappedResult());
+
+    await fetchTileStations(getTileAt(38.9, -77.03));
+
+    // Every tile from STATION_TILE_ZOOM down to MAX_STATION_TILE_ZOOM is searched once
+    const levels = MAX_STATION_TILE_ZOOM - STATION_TILE_ZOOM + 1;
+    expect(mockedRequest).toHaveBeenCalledTimes((Math.pow(4, levels) - 1) / 3);
+  });
+
+  it('returns each station once when the children\'s searches overlap', async () => {
+    const tile: StationTile = getTileAt(38.9, -77.03, MAX_STATION_TILE_ZOOM - 1);
+    // The center and north-west corner of every child, so some sit on the edges the children share
+    const stations = getChildTiles(tile).flatMap(child => {
+      const bounds = getTileBounds(child);
+      const { lat, lng } = getTileSearchArea(child);
+      return [station(`${getTileKey(child)}-center`, lat, lng), station(`${getTileKey(child)}-corner`, bounds.north, bounds.west)];
+    });
+    mockedRequest.mockResolvedValueOnce(cappedResult()).mockResolvedValue(stations);
+
+    const found = await fetchTileStations(tile);
+
+    expect(found.map(item => item.id).sort()).toEqual(stations.map(item => item.id).sort());
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Viewport Station Tiles
+ *
+ * Helpers for loading charging stations by the visible map area. The
+ * viewport is covered with Web Mercator tiles; each tile is fetched as the
+ * smallest search circle that contains it, and tiles whose result hits the
+ * API's result limit are split into their four child tiles so dense areas
+ * are loaded completely.
+ *
+ * Bounds that cross the antimeridian may be given with west greater than
+ * east, or with longitudes past 180 as Mapbox GL reports them; the helpers
+ * here wrap them into -180 to 180 first.
+ *
+ * API Reference: https://docs.mapbox.com/api/navigation/ev-charge-finder/
+ */
+
+import {
+  ChargingStation,
+  ChargingStationSearchOptions,
+  MapBounds
+} from './types';
+import { requestChargingStations } from './chargingStations';
+
+/**
+ * Interface for a Web Mercator tile
+ */
+export interface StationTile {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Zoom level of the tiles that cover the viewport
+export const STATION_TILE_ZOOM = 12;
+// Deepest zoom level that capped tiles are split to
+export const MAX_STATION_TILE_ZOOM = 16;
+// Maximum number of results the EV Charge Finder API returns per request
+export const STATION_RESULT_LIMIT = 100;
+// Upper bound on the number of tiles loaded for one viewport
+const MAX_COVERING_TILES = 36;
+
+/**
+ * Returns a unique key for a tile
+ */
+export function getTileKey(tile: StationTile): string {
+  return `${tile.z}/${tile.x}/${tile.y}`;
+}
+
+function longitudeToTileX(lng: number, z: number): number {
+  const n = Math.pow(2, z);
+  return Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)));
+}
+
+function latitudeToTileY(lat: number, z: number): number {
+  const n = Math.pow(2, z);
+  const clamped = Math.max(-85.0511, Math.min(85.0511, lat));
+  const latRad = (clamped * Math.PI) / 180;
+  const y = ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n;
+  return Math.min(n - 1, Math.max(0, Math.floor(y)));
+}
+
+function tileXToLongitude(x: number, z: number): number {
+  return (x / Math.pow(2, z)) * 360 - 180;
+}
+
+function tileYToLatitude(y: number, z: number): number {
+  const n = Math.PI - (2 * Math.PI * y) / Math.pow(2, z);
+  return (180 / Math.PI) * Math.atan(Math.sinh(n));
+}
+
+function wrapLongitude(lng: number): number {
+  return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Wraps the longitudes of bounds into -180 to 180
+ *
+ * Bounds that cross the antimeridian come out with west greater than east,
+ * and bounds 360 degrees wide or more cover every longitude.
+ *
+ * @param bounds - The bounds, e.g. as reported by the map
+ * @returns MapBounds - The wrapped bounds
+ */
+export function wrapBounds(bounds: MapBounds): MapBounds {
+  if (bounds.east - bounds.west >= 360) {
+    return { ...bounds, west: -180, east: 180 };
+  }
+  // West wraps into [-180, 180) and east into (-180, 180], so the edges of the map stay apart
+  return { ...bounds, west: wrapLongitude(bounds.west), east: -wrapLongitude(-bounds.east) };
+}
+
+// Splits wrapped bounds that cross the antimeridian into the parts either side of it
+function splitAtAntimeridian(bounds: MapBounds): MapBounds[] {
+  if (bounds.west <= bounds.east) {
+    return [bounds];
+  }
+  return [{ ...bounds, east: 180 }, { ...bounds, west: -180 }];
+}
+
+/**
+ * Returns the tile that contains a point
+ *
+ * @param lat - Latitude of the point
+ * @param lng - Longitude of the point
+ * @param z - Tile zoom level (default: STATION_TILE_ZOOM)
+ * @returns StationTile - The containing tile
+ */
+export function getTileAt(lat: number, lng: number, z: number = STATION_TILE_ZOOM): StationTile {
+  return { x: longitudeToTileX(lng, z), y: latitudeToTileY(lat, z), z };
+}
+
+/**
+ * Returns the geographic bounds of a tile
+ */
+export function getTileBounds(tile: StationTile): MapBounds {
+  return {
+    north: tileYToLatitude(tile.y, tile.z),
+    south: tileYToLatitude(tile.y + 1, tile.z),
+    west: tileXToLongitude(tile.x, tile.z),
+    east: tileXToLongitude(tile.x + 1, tile.z)
+  };
+}
+
+/**
+ * Returns the four child tiles of a tile
+ */
+export function getChildTiles(tile: StationTile): StationTile[] {
+  const z = tile.z + 1;
+  const x = tile.x * 2;
+  const y = tile.y * 2;
+  return [
+    { x, y, z },
+    { x: x + 1, y, z },
+    { x, y: y + 1, z },
+    { x: x + 1, y: y + 1, z }
+  ];
+}
+
+/**
+ * Returns the tiles at STATION_TILE_ZOOM that cover the given bounds
+ *
+ * @param bounds - The visible map bounds
+ * @returns StationTile[] - The covering tiles, at most MAX_COVERING_TILES
+ */
+export function getCoveringTiles(bounds: MapBounds): StationTile[] {
+  const z = STATION_TILE_ZOOM;
+  const n = Math.pow(2, z);
+  const { west, east } = wrapBounds(bounds);
+  const minX = longitudeToTileX(west, z);
+  const maxX = longitudeToTileX(east, z);
+  const minY = latitudeToTileY(bounds.north, z);
+  const maxY = latitudeToTileY(bounds.south, z);
+
+  // Bounds that cross the antimeridian wrap around to tile x = 0
+  const columns = maxX >= minX ? maxX - minX + 1 : n - minX + maxX + 1;
+
+  const tiles: StationTile[] = [];
+  for (let column = 0; column < columns; column++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({ x: (minX + column) % n, y, z });
+      if (tiles.length >= MAX_COVERING_TILES) {
+        return tiles;
+      }
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Grows bounds by a factor of their size on every side
+ *
+ * @param bounds - The bounds to expand
+ * @param factor - Fraction of the width/height added on each side (0.5 adds half)
+ * @returns MapBounds - The expanded bounds
+ */
+export function expandBounds(bounds: MapBounds, factor: number): MapBounds {
+  const { west, east } = wrapBounds(bounds);
+  const width = west <= east ? east - west : east + 360 - west;
+  const latPadding = (bounds.north - bounds.south) * factor;
+  const lngPadding = width * factor;
+  return wrapBounds({
+    north: Math.min(90, bounds.north + latPadding),
+    south: Math.max(-90, bounds.south - latPadding),
+    west: west - lngPadding,
+    east: west + width + lngPadding
+  });
+}
+
+/**
+ * Checks whether a point lies within bounds
+ */
+export function isInBounds(lat: number, lng: number, bounds: MapBounds): boolean {
+  return lat >= bounds.south && lat <= bounds.north &&
+    splitAtAntimeridian(wrapBounds(bounds)).some(part => lng >= part.west && lng <= part.east);
+}
+
+/**
+ * Checks whether two bounds overlap
+ */
+export function boundsIntersect(a: MapBounds, b: MapBounds): boolean {
+  const bParts = splitAtAntimeridian(wrapBounds(b));
+  return splitAtAntimeridian(wrapBounds(a)).some(aPart => bParts.some(bPart =>
+    aPart.south <= bPart.north && aPart.north >= bPart.south && aPart.west <= bPart.east && aPart.east >= bPart.west
+  ));
+}
+
+/**
+ * Returns the great-circle distance between two points in kilometers (Haversine formula)
+ */
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371; // Radius of the Earth in km
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Returns the center of a tile and the radius of the smallest circle around it that contains the tile
+ *
+ * @param tile - The tile
+ * @returns The search center and radius in kilometers
+ */
+export function getTileSearchArea(tile: StationTile): { lat: number; lng: number; radiusKm: number } {
+  const bounds = getTileBounds(tile);
+  const lat = (bounds.north + bounds.south) / 2;
+  const lng = (bounds.east + bounds.west) / 2;
+  const radiusKm = Math.max(
+    distanceKm(lat, lng, bounds.north, bounds.west),
+    distanceKm(lat, lng, bounds.south, bounds.west)
+  );
+  // Round up to 100 m so the circle always contains the tile corners
+  return { lat, lng, radiusKm: Math.ceil(radiusKm * 10) / 10 };
+}
+
+/**
+ * Fetches every charging station within a tile
+ *
+ * When the API returns STATION_RESULT_LIMIT results the tile may have more
+ * stations than were returned, so it is split into child tiles which are
+ * fetched instead, down to MAX_STATION_TILE_ZOOM.
+ *
+ * @param tile - The tile to load
+ * @param options - Search options; limit is always set to STATION_RESULT_LIMIT
+ * @returns Promise<ChargingStation[]> - Stations located inside the tile
+ * @throws Error - If a request fails
+ */
+export async function fetchTileStations(
+  tile: StationTile,
+  options: ChargingStationSearchOptions = {}
+): Promise<ChargingStation[]> {
+  const { lat, lng, radiusKm } = getTileSearchArea(tile);
+  const stations = await requestChargingStations(lat, lng, radiusKm, {
+    ...options,
+    limit: STATION_RESULT_LIMIT
+  });
+
+  if (stations.length >= STATION_RESULT_LIMIT) {
+    if (tile.z < MAX_STATION_TILE_ZOOM) {
+      const children = await Promise.all(
+        getChildTiles(tile).map(child => fetchTileStations(child, options))
+      );
+      return children.flat();
+    }
+    console.warn(`Tile ${getTileKey(tile)} still returns ${stations.length} stations at the deepest zoom; some may be missing`);
+  }
+
+  // The search circle extends past the tile, so keep only the tile's own stations
+  const bounds = getTileBounds(tile);
+  return stations.filter(station =>
+    station.lat <= bounds.north && station.lat > bounds.south &&
+    station.lng >= bounds.west && station.lng < bounds.east
+  );
+}
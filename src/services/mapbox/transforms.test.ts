@@ -0,0 +1,405 @@
+import { describe, expect, it } from 'vitest';
+import evLocations from '../../../scripts/mapbox-stand-in/fixtures/ev-locations.json';
+import directionsRecordings from '../../../scripts/mapbox-stand-in/fixtures/directions-ev.json';
+import {
+  toChargingStation,
+  toChargingStationDetails,
+  toChargingWaypoint,
+  toEvRoute,
+  toEvRoutes
+} from './transforms';
+import {
+  MapboxDirectionsResponse,
+  MapboxDirectionsWaypoint,
+  MapboxEvDetailsResponse,
+  MapboxEvFeature,
+  MapboxLocation
+} from './types';
+
+// Returns the fixture location details response for a station name
+function fixtureDetails(name: string): MapboxEvDetailsResponse {
+  const feature = evLocations.features.find(item => item.properties.location.name === name);
+  if (!feature) {
+    throw new Error(`No fixture station named ${name}`);
+  }
+  return feature as unknown as MapboxEvDetailsResponse;
+}
+
+// Returns a fixture station as a search result feature
+function fixtureSearchFeature(name: string, distance = 1.5): MapboxEvFeature {
+  const { geometry, properties } = fixtureDetails(name);
+  return {
+    type: 'Feature',
+    geometry,
+    properties: {
+      location: properties.location,
+      proximity: { latitude: 38.9072, longitude: -77.0369, distance }
+    }
+  };
+}
+
+// A location with only the required fields
+const minimalLocation: MapboxLocation = {
+  country_code: 'US',
+  party_id: 'TST',
+  id: 'minimal-location',
+  publish: true,
+  name: 'Minimal Station',
+  address: '1 Test St',
+  city: 'Testville',
+  country: 'USA',
+  coordinates: { latitude: '38.900000', longitude: '-77.000000' },
+  last_updated: '2025-03-14T15:00:00Z'
+};
+
+const recordedRoute = directionsRecordings[0].response as unknown as MapboxDirectionsResponse;
+
+describe('toChargingStation', () => {
+  it('aggregates every EVSE and connector of a multi-EVSE site', () => {
+    const station = toChargingStation(fixtureSearchFeature('CityCenterDC'));
+
+    expect(station).toMatchObject({
+      name: 'CityCenterDC',
+      lat: 38.9006,
+      lng: -77.0251,
+      network: 'EVgo',
+      evseCount: 3,
+      availableEvseCount: 2,
+      available: true,
+      status: 'AVAILABLE',
+      powerLevel: 50000,
+      distance: 1.5
+    });
+    expect(station.chargerType.sort()).toEqual(['CHADEMO', 'IEC_62196_T1_COMBO']);
+    expect(station.powerTypes).toEqual([
+      { powerType: 'DC', evseCount: 3, availableEvseCount: 2, maxPower: 50000 }
+    ]);
+  });
+
+  it('reports the highest connector power across EVSEs', () => {
+    const station = toChargingStation(fixtureSearchFeature('Pentagon City Mall'));
+
+    expect(station.powerLevel).toBe(350000);
+    expect(station.evseCount).toBe(4);
+    expect(station.availableEvseCount).toBe(3);
+  });
+
+  it('breaks down sites with both AC and DC chargers by power type', () => {
+    const station = toChargingStation(fixtureSearchFeature('Tysons Corner Center'));
+
+    expect(station.powerTypes).toEqual([
+      { powerType: 'DC', evseCount: 12, availableEvseCount: 7, maxPower: 250000 },
+      { powerType: 'AC_1_PHASE', evseCount: 2, availableEvseCount: 2, maxPower: 11520 }
+    ]);
+  });
+
+  it('counts an EVSE once per power type when it has several connectors', () => {
+    const feature = fixtureSearchFeature('CityCenterDC');
+    feature.properties.location = {
+      ...minimalLocation,
+      evses: [{
+        uid: '1',
+        status: 'AVAILABLE',
+        last_updated: '2025-03-14T15:00:00Z',
+        connectors: [
+          { id: '1', standard: 'IEC_62196_T1_COMBO', format: 'CABLE', power_type: 'DC', max_voltage: 500, max_amperage: 300, max_electric_power: 150000, last_updated: '' },
+          { id: '2', standard: 'CHADEMO', format: 'CABLE', power_type: 'DC', max_voltage: 500, max_amperage: 125, max_electric_power: 50000, last_updated: '' },
+          { id: '3', standard: 'IEC_62196_T1', format: 'CABLE', power_type: 'AC_1_PHASE', max_voltage: 240, max_amperage: 30, max_electric_power: 7200, last_updated: '' }
+        ]
+      }]
+    };
+
+    const station = toChargingStation(feature);
+
+    expect(station.evseCount).toBe(1);
+    expect(station.powerTypes).toEqual([
+      { powerType: 'DC', evseCount: 1, availableEvseCount: 1, maxPower: 150000 },
+      { powerType: 'AC_1_PHASE', evseCount: 1, availableEvseCount: 1, maxPower: 7200 }
+    ]);
+  });
+
+  it('breaks down the fastest power of each connector standard', () => {
+    const feature = fixtureSearchFeature('CityCenterDC');
+    feature.properties.location = {
+      ...minimalLocation,
+      evses: [1, 2].map(uid => ({
+        uid: String(uid),
+        status: 'AVAILABLE',
+        last_updated: '2025-03-14T15:00:00Z',
+        connectors: [
+          { id: '1', standard: 'IEC_62196_T1_COMBO', format: 'CABLE', power_type: 'DC', max_voltage: 500, max_amperage: 300, max_electric_power: uid * 75000, last_updated: '' },
+          { id: '2', standard: 'CHADEMO', format: 'CABLE', power_type: 'DC', max_voltage: 500, max_amperage: 125, max_electric_power: 50000, last_updated: '' }
+        ]
+      }))
+    };
+
+    expect(toChargingStation(feature).connectorTypes).toEqual([
+      { standard: 'IEC_62196_T1_COMBO', powerType: 'DC', maxPower: 150000 },
+      { standard: 'CHADEMO', powerType: 'DC', maxPower: 50000 }
+    ]);
+  });
+
+  it('handles a location without EVSEs, operator or proximity', () => {
+    const station = toChargingStation({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [-77, 38.9] },
+      properties: { location: minimalLocation }
+    } as unknown as MapboxEvFeature);
+
+    expect(station).toMatchObject({
+      id: 'minimal-location',
+      network: 'Unknown',
+      evseCount: 0,
+      availableEvseCount: 0,
+      available: false,
+      status: 'UNKNOWN',
+      powerLevel: 0,
+      chargerType: [],
+      powerTypes: [],
+      connectorTypes: [],
+      distance: undefined
+    });
+  });
+});
+
+describe('toChargingStationDetails', () => {
+  it('maps a full location with tariffs and opening hours', () => {
+    const details = toChargingStationDetails(fixtureDetails('Silver Spring Library'));
+
+    expect(details).toMatchObject({
+      name: 'Silver Spring Library',
+      postalCode: '20910',
+      coordinates: { latitude: 38.9973, longitude: -77.0259 },
+      operator: { name: 'Montgomery County', website: undefined },
+      owner: { name: 'Montgomery County' },
+      parkingType: 'ON_STREET',
+      openingTimes: { twentyfourseven: false }
+    });
+    expect(details?.openingTimes?.regularHours).toHaveLength(7);
+    expect(details?.openingTimes?.regularHours?.[0]).toEqual({ weekday: 1, periodBegin: '06:00', periodEnd: '22:00' });
+    expect(details?.evses).toHaveLength(4);
+    expect(details?.evses[3]).toMatchObject({ status: 'PLANNED' });
+    expect(details?.evses[0].connectors[0]).toEqual({
+      id: '1',
+      standard: 'IEC_62196_T1',
+      format: 'CABLE',
+      powerType: 'AC_1_PHASE',
+      maxVoltage: 240,
+      maxAmperage: 30,
+      maxElectricPower: 7200
+    });
+  });
+
+  it('maps every tariff element and price component', () => {
+    const details = toChargingStationDetails(fixtureDetails('Whole Foods Market P Street'));
+
+    expect(details?.tariffs).toHaveLength(1);
+    expect(details?.tariffs?.[0]).toMatchObject({ currency: 'USD', type: 'AD_HOC_PAYMENT' });
+    expect(details?.tariffs?.[0].elements).toEqual([
+      { priceComponents: [{ type: 'ENERGY', price: 0.56, stepSize: 1 }] },
+      { priceComponents: [{ type: 'PARKING_TIME', price: 24, stepSize: 60 }] }
+    ]);
+  });
+
+  it('handles a location without optional fields', () => {
+    const details = toChargingStationDetails({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [-77, 38.9] },
+      properties: { location: minimalLocation }
+    });
+
+    expect(details).toMatchObject({
+      id: 'minimal-location',
+      postalCode: '',
+      operator: { name: 'Unknown' },
+      owner: undefined,
+      evses: [],
+      openingTimes: undefined,
+      parkingType: undefined,
+      tariffs: []
+    });
+  });
+
+  it('returns null when the response has no location', () => {
+    expect(toChargingStationDetails({} as MapboxEvDetailsResponse)).toBeNull();
+  });
+});
+
+describe('toChargingWaypoint', () => {
+  const metadata = {
+    type: 'charging-station',
+    name: 'Delaware Welcome Center',
+    charge_time: 550,
+    charge_to: 56000,
+    charge_at_arrival: 26564,
+    plug_type: 'ccs_combo_type1',
+    current_type: 'dc',
+    power_kw: 350,
+    station_id: 'station-1',
+    provider_names: ['Electrify America']
+  };
+
+  it('maps a waypoint with charging metadata', () => {
+    const waypoint = toChargingWaypoint({ name: '', location: [-75.6927, 39.6392], metadata });
+
+    expect(waypoint).toEqual({
+      type: 'charging-station',
+      name: 'Delaware Welcome Center',
+      chargeTime: 550,
+      chargeTo: 56000,
+      chargeAtArrival: 26564,
+      plugType: 'ccs_combo_type1',
+      currentType: 'dc',
+      powerKw: 350,
+      stationId: 'station-1',
+      providerNames: ['Electrify America'],
+      location: [-75.6927, 39.6392]
+    });
+  });
+
+  it('marks charging stations requested by the user as pinned', () => {
+    const waypoint = toChargingWaypoint({
+      name: '',
+      location: [-75.6927, 39.6392],
+      metadata: { ...metadata, type: 'user-provided-charging-station' }
+    });
+
+    expect(waypoint).toMatchObject({ type: 'charging-station', stationId: 'station-1', pinned: true });
+  });
+
+  it('defaults a missing current type to an empty string', () => {
+    const waypoint = toChargingWaypoint({ name: '', location: [0, 0], metadata: { ...metadata, current_type: undefined } });
+
+    expect(waypoint?.currentType).toBe('');
+  });
+
+  it('returns null for waypoints without charging metadata', () => {
+    expect(toChargingWaypoint({ name: 'Broadway', location: [-74.006, 40.7128] })).toBeNull();
+    expect(toChargingWaypoint({ name: 'Broadway', location: [-74.006, 40.7128], metadata: null })).toBeNull();
+    expect(toChargingWaypoint({
+      name: 'Broadway',
+      location: [-74.006, 40.7128],
+      metadata: { ...metadata, type: 'user-waypoint' }
+    } as MapboxDirectionsWaypoint)).toBeNull();
+  });
+});
+
+describe('toEvRoute', () => {
+  it('maps a recorded route with a charging stop', () => {
+    const route = toEvRoute(recordedRoute);
+
+    expect(route).not.toBeNull();
+    expect(route?.distance).toBe(recordedRoute.routes?.[0].distance);
+    expect(route?.legs).toHaveLength(2);
+    expect(route?.waypoints).toHaveLength(3);
+    expect(route?.waypoints[0].metadata).toBeUndefined();
+    expect(route?.waypoints[1].metadata).toMatchObject({
+      type: 'charging-station',
+      name: 'Delaware Welcome Center',
+      powerKw: 350,
+      currentType: 'dc'
+    });
+    expect(route?.waypoints[2].metadata).toBeUndefined();
+    expect(route?.chargingWaypoints).toHaveLength(1);
+    expect(route?.chargingWaypoints[0]).toMatchObject({
+      name: 'Delaware Welcome Center',
+      providerNames: ['Electrify America'],
+      location: [-75.6927, 39.6392]
+    });
+  });
+
+  it('maps steps, maneuvers and annotations', () => {
+    const route = toEvRoute(recordedRoute);
+    const leg = route?.legs[0];
+    const rawLeg = recordedRoute.routes?.[0].legs[0];
+
+    expect(leg?.summary).toBe(rawLeg?.summary);
+    expect(leg?.steps[0].maneuver).toMatchObject({ type: 'depart', bearingBefore: 0 });
+    expect(leg?.steps[1].maneuver).toMatchObject({ type: 'turn', modifier: 'left' });
+    expect(leg?.annotation?.stateOfCharge).toEqual(rawLeg?.annotation?.state_of_charge);
+    expect(leg?.annotation?.distance).toHaveLength(leg?.annotation?.stateOfCharge?.length ?? -1);
+  });
+
+  it('keeps the full GeoJSON geometry of the route and its steps', () => {
+    const route = toEvRoute(recordedRoute);
+    const rawRoute = recordedRoute.routes?.[0];
+
+    expect(route?.geometry).toEqual(rawRoute?.geometry);
+    expect(route?.geometry.coordinates.length).toBeGreaterThan(route?.legs.flatMap(leg => leg.steps).length ?? 0);
+    expect(route?.legs[0].steps[0].geometry.type).toBe('LineString');
+  });
+
+  it('decodes polyline6 geometries', () => {
+    const [rawRoute] = recordedRoute.routes ?? [];
+    const evRoute = toEvRoute({
+      ...recordedRoute,
+      routes: [{ ...rawRoute, geometry: '_sueiAfu}|qC_utk@ok`qA_{o`Awi}eB' }]
+    });
+
+    expect(evRoute?.geometry.type).toBe('LineString');
+    expect(evRoute?.geometry.coordinates).toHaveLength(3);
+    expect(evRoute?.geometry.coordinates[0][0]).toBeCloseTo(-77.0369, 6);
+  });
+
+  it('falls back to the route waypoints when the response has none', () => {
+    const [route] = recordedRoute.routes ?? [];
+    const evRoute = toEvRoute({ routes: [{ ...route, waypoints: recordedRoute.waypoints }] });
+
+    expect(evRoute?.chargingWaypoints).toHaveLength(1);
+  });
+
+  it('handles legs without steps or annotations and routes without charging stops', () => {
+    const evRoute = toEvRoute({
+      routes: [{
+        distance: 1000,
+        duration: 120,
+        geometry: '',
+        legs: [{ distance: 1000, duration: 120 }]
+      }],
+      waypoints: [
+        { name: 'Start', location: [-77.03, 38.9] },
+        { name: 'End', location: [-77.02, 38.9] }
+      ]
+    });
+
+    expect(evRoute?.legs).toEqual([{ distance: 1000, duration: 120, summary: '', steps: [], annotation: undefined }]);
+    expect(evRoute?.chargingWaypoints).toEqual([]);
+    expect(evRoute?.waypoints.map(waypoint => waypoint.metadata)).toEqual([undefined, undefined]);
+  });
+
+  it('returns null when there is no route', () => {
+    expect(toEvRoute({ code: 'NoRoute', routes: [] })).toBeNull();
+    expect(toEvRoute({ code: 'NoRoute' })).toBeNull();
+  });
+});
+
+describe('toEvRoutes', () => {
+  const [recorded] = recordedRoute.routes ?? [];
+  const [start, chargingStop, end] = recordedRoute.waypoints ?? [];
+
+  it('maps every route with its own charging stops', () => {
+    const routes = toEvRoutes({
+      routes: [
+        { ...recorded, waypoints: [start, chargingStop, end] },
+        { ...recorded, distance: 400000, waypoints: [start, end] }
+      ]
+    });
+
+    expect(routes).toHaveLength(2);
+    expect(routes[0].chargingWaypoints.map(stop => stop.name)).toEqual(['Delaware Welcome Center']);
+    expect(routes[1].distance).toBe(400000);
+    expect(routes[1].waypoints).toHaveLength(2);
+    expect(routes[1].chargingWaypoints).toEqual([]);
+  });
+
+  it('shares the top-level waypoints between routes without their own', () => {
+    const routes = toEvRoutes({ ...recordedRoute, routes: [recorded, recorded] });
+
+    expect(routes.map(route => route.chargingWaypoints.length)).toEqual([1, 1]);
+  });
+
+  it('returns an empty list when there is no route', () => {
+    expect(toEvRoutes({ code: 'NoRoute', routes: [] })).toEqual([]);
+    expect(toEvRoutes({ code: 'NoRoute' })).toEqual([]);
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Mapbox Response Transforms
+ *
+ * Pure functions that convert raw Mapbox API payloads into the application's
+ * data models. The API routes and the client services both use them, so a
+ * change in an upstream field only needs to be handled here.
+ */
+
+import {
+  ChargingStation,
+  ChargingStationConnectorType,
+  ChargingStationDetails,
+  ChargingStationPowerType,
+  ChargingWaypoint,
+  EvRoute,
+  MapboxDirectionsResponse,
+  MapboxDirectionsWaypoint,
+  MapboxRoute,
+  MapboxEvDetailsResponse,
+  MapboxEvFeature
+} from './types';
+import { getStationStatus } from './stationStatus';
+import { toLineString } from './geometry';
+
+/**
+ * Builds a ChargingStation summary from every EVSE and connector of a location
+ *
+ * @param feature - A feature from the EV Charge Finder API response
+ * @returns ChargingStation - The station summary
+ */
+export function toChargingStation(feature: MapboxEvFeature): ChargingStation {
+  const location = feature.properties.location;
+  const evses = location.evses || [];
+
+  const standards = new Set<string>();
+  const powerTypes = new Map<string, ChargingStationPowerType>();
+  const connectorTypes = new Map<string, ChargingStationConnectorType>();
+  let powerLevel = 0;
+  let availableEvseCount = 0;
+
+  evses.forEach(evse => {
+    const isAvailable = evse.status === 'AVAILABLE';
+    if (isAvailable) availableEvseCount++;
+
+    // Count each EVSE once per power type, even if it has several connectors of that type
+    const evsePowerTypes = new Set<string>();
+
+    (evse.connectors || []).forEach(connector => {
+      const power = connector.max_electric_power || 0;
+      standards.add(connector.standard);
+      powerLevel = Math.max(powerLevel, power);
+
+      const summary = powerTypes.get(connector.power_type) || {
+        powerType: connector.power_type,
+        evseCount: 0,
+        availableEvseCount: 0,
+        maxPower: 0
+      };
+      summary.maxPower = Math.max(summary.maxPower, power);
+      if (!evsePowerTypes.has(connector.power_type)) {
+        evsePowerTypes.add(connector.power_type);
+        summary.evseCount++;
+        if (isAvailable) summary.availableEvseCount++;
+      }
+      powerTypes.set(connector.power_type, summary);
+
+      const connectorKey = `${connector.standard}/${connector.power_type}`;
+      const connectorType = connectorTypes.get(connectorKey) || {
+        standard: connector.standard,
+        powerType: connector.power_type,
+        maxPower: 0
+      };
+      connectorType.maxPower = Math.max(connectorType.maxPower, power);
+      connectorTypes.set(connectorKey, connectorType);
+    });
+  });
+
+  return {
+    id: location.id,
+    lat: parseFloat(location.coordinates.latitude),
+    lng: parseFloat(location.coordinates.longitude),
+    name: location.name,
+    chargerType: Array.from(standards),
+    powerLevel,
+    network: location.operator?.name || 'Unknown',
+    available: availableEvseCount > 0,
+    evseCount: evses.length,
+    availableEvseCount,
+    status: getStationStatus(evses.map(evse => evse.status)),
+    powerTypes: Array.from(powerTypes.values()),
+    connectorTypes: Array.from(connectorTypes.values()),
+    address: location.address,
+    city: location.city,
+    state: location.state,
+    postalCode: location.postal_code,
+    country: location.country,
+    distance: feature.properties.proximity?.distance
+  };
+}
+
+/**
+ * Converts an EV Charge Finder location details response to ChargingStationDetails
+ *
+ * @param data - The location details response
+ * @returns ChargingStationDetails | null - The station details, or null if the response has no location
+ */
+export function toChargingStationDetails(data: MapboxEvDetailsResponse): ChargingStationDetails | null {
+  const location = data?.properties?.location;
+  if (!location) {
+    return null;
+  }
+  const tariffs = data.properties.tariffs || [];
+
+  return {
+    id: location.id,
+    name: location.name,
+    address: location.address,
+    city: location.city,
+    postalCode: location.postal_code || '',
+    country: location.country,
+    coordinates: {
+      latitude: parseFloat(location.coordinates.latitude),
+      longitude: parseFloat(location.coordinates.longitude)
+    },
+    operator: {
+      name: location.operator?.name || 'Unknown',
+      website: location.operator?.website
+    },
+    owner: location.owner ? {
+      name: location.owner.name,
+      website: location.owner.website
+    } : undefined,
+    evses: (location.evses || []).map(evse => ({
+      uid: evse.uid,
+      status: evse.status,
+      connectors: (evse.connectors || []).map(connector => ({
+        id: connector.id,
+        standard: connector.standard,
+        format: connector.format,
+        powerType: connector.power_type,
+        maxVoltage: connector.max_voltage,
+        maxAmperage: connector.max_amperage,
+        maxElectricPower: connector.max_electric_power
+      }))
+    })),
+    openingTimes: location.opening_times ? {
+      twentyfourseven: location.opening_times.twentyfourseven,
+      regularHours: location.opening_times.regular_hours ?
+        location.opening_times.regular_hours.map(hour => ({
+          weekday: hour.weekday,
+          periodBegin: hour.period_begin,
+          periodEnd: hour.period_end
+        })) : undefined
+    } : undefined,
+    parkingType: location.parking_type,
+    tariffs: tariffs.map(tariff => ({
+      id: tariff.id,
+      currency: tariff.currency,
+      elements: (tariff.elements || []).map(element => ({
+        priceComponents: (element.price_components || []).map(component => ({
+          type: component.type,
+          price: component.price,
+          stepSize: component.step_size
+        }))
+      })),
+      type: tariff.type || ''
+    }))
+  };
+}
+
+// Waypoint metadata type of the charging stations requested with the waypoints.charging_station_* parameters
+const USER_PROVIDED_CHARGING_STATION = 'user-provided-charging-station';
+
+/**
+ * Checks whether a Directions API waypoint metadata type is a charging stop,
+ * chosen by the router or requested by the user
+ */
+function isChargingStopType(type: string): boolean {
+  return type === 'charging-station' || type === USER_PROVIDED_CHARGING_STATION;
+}
+
+/**
+ * Converts a Directions API waypoint to a ChargingWaypoint
+ *
+ * Charging stations requested by the user are marked as pinned.
+ *
+ * @param waypoint - A waypoint from the Directions API response
+ * @returns ChargingWaypoint | null - The charging stop, or null if the waypoint is not a charging station
+ */
+export function toChargingWaypoint(waypoint: MapboxDirectionsWaypoint): ChargingWaypoint | null {
+  const metadata = waypoint.metadata;
+  if (!metadata || !isChargingStopType(metadata.type)) {
+    return null;
+  }
+
+  return {
+    type: 'charging-station',
+    name: metadata.name,
+    chargeTime: metadata.charge_time,
+    chargeTo: metadata.charge_to,
+    chargeAtArrival: metadata.charge_at_arrival,
+    plugType: metadata.plug_type,
+    currentType: metadata.current_type || '',
+    powerKw: metadata.power_kw,
+    stationId: metadata.station_id,
+    providerNames: metadata.provider_names,
+    location: waypoint.location,
+    ...(metadata.type === USER_PROVIDED_CHARGING_STATION ? { pinned: true } : {})
+  };
+}
+
+/**
+ * Converts every route of a Directions API response with EV routing to an EvRoute
+ *
+ * Each route's own waypoints are used when the response has them
+ * (waypoints_per_route), since alternatives charge at different stations;
+ * otherwise the waypoints at the top level of the response.
+ *
+ * @param data - The Directions API response
+ * @returns EvRoute[] - The routes in the order returned, recommended route first
+ */
+export function toEvRoutes(data: MapboxDirectionsResponse): EvRoute[] {
+  return (data?.routes || []).map(route => toEvRouteFrom(route, route.waypoints || data.waypoints || []));
+}
+
+/**
+ * Converts a Directions API response with EV routing to an EvRoute
+ *
+ * Only the first route is used; see toEvRoutes for the alternatives.
+ *
+ * @param data - The Directions API response
+ * @returns EvRoute | null - The route, or null if the response has no routes
+ */
+export function toEvRoute(data: MapboxDirectionsResponse): EvRoute | null {
+  return toEvRoutes(data)[0] ?? null;
+}
+
+/**
+ * Converts a single Directions API route and its waypoints to an EvRoute
+ */
+function toEvRouteFrom(route: MapboxRoute, waypointsSource: MapboxDirectionsWaypoint[]): EvRoute {
+  return {
+    distance: route.distance,
+    duration: route.duration,
+    geometry: toLineString(route.geometry),
+    legs: (route.legs || []).map(leg => ({
+      distance: leg.distance,
+      duration: leg.duration,
+      summary: leg.summary || '',
+      steps: (leg.steps || []).map(step => ({
+        distance: step.distance,
+        duration: step.duration,
+        geometry: toLineString(step.geometry),
+        name: step.name,
+        mode: step.mode,
+        maneuver: {
+          location: step.maneuver.location,
+          bearingBefore: step.maneuver.bearing_before,
+          bearingAfter: step.maneuver.bearing_after,
+          type: step.maneuver.type,
+          modifier: step.maneuver.modifier,
+          instruction: step.maneuver.instruction
+        },
+        intersections: (step.intersections || []).map(intersection => ({
+          location: intersection.location,
+          bearings: intersection.bearings,
+          entry: intersection.entry,
+          in: intersection.in,
+          out: intersection.out
+        }))
+      })),
+      annotation: leg.annotation ? {
+        distance: leg.annotation.distance,
+        duration: leg.annotation.duration,
+        speed: leg.annotation.speed,
+        stateOfCharge: leg.annotation.state_of_charge
+      } : undefined
+    })),
+    waypoints: waypointsSource.map(waypoint => ({
+      name: waypoint.name,
+      location: waypoint.location,
+      metadata: waypoint.metadata ? {
+        // Both kinds of charging stops are 'charging-station'; chargingWaypoints tells pinned ones apart
+        type: isChargingStopType(waypoint.metadata.type) ? 'charging-station' : waypoint.metadata.type,
+        name: waypoint.metadata.name,
+        chargeTime: waypoint.metadata.charge_time,
+        chargeTo: waypoint.metadata.charge_to,
+        chargeAtArrival: waypoint.metadata.charge_at_arrival,
+        plugType: waypoint.metadata.plug_type,
+        currentType: waypoint.metadata.current_type || '',
+        powerKw: waypoint.metadata.power_kw,
+        stationId: waypoint.metadata.station_id,
+        providerNames: waypoint.metadata.provider_names
+      } : undefined
+    })),
+    chargingWaypoints: waypointsSource
+      .map(toChargingWaypoint)
+      .filter((waypoint): waypoint is ChargingWaypoint => waypoint !== null)
+  };
+}
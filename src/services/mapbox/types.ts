@@ -2,6 +2,8 @@
  * Type definitions for Mapbox API services
  */
 
+import type { GeoJsonLineString } from './schemas';
+
 /**
  * Interface for a charging station
  */
@@ -10,10 +12,15 @@ export interface ChargingStation {
   lat: number;
   lng: number;
   name: string;
-  chargerType: string[];
-  powerLevel: number;
+  chargerType: string[]; // Distinct connector standards across all EVSEs
+  powerLevel: number; // Maximum power across all connectors in watts
   network: string;
-  available: boolean;
+  available: boolean; // True if at least one EVSE is available
+  evseCount: number; // Total number of EVSEs at the station
+  availableEvseCount: number; // Number of EVSEs with status AVAILABLE
+  status: StationStatus; // Summary of the EVSE statuses, used to style the map marker
+  powerTypes: ChargingStationPowerType[]; // Breakdown by power type
+  connectorTypes: ChargingStationConnectorType[]; // Breakdown by connector standard and power type
   address: string;
   city?: string;
   state?: string;
@@ -22,6 +29,71 @@ export interface ChargingStation {
   distance?: number; // Distance from search point in km
 }
 
+/**
+ * Summary status of a charging station, derived from its OCPI EVSE statuses
+ */
+export type StationStatus = 'AVAILABLE' | 'CHARGING' | 'OCCUPIED' | 'RESERVED' | 'UNAVAILABLE' | 'UNKNOWN';
+
+/**
+ * Interface for the per-power-type breakdown of a charging station
+ */
+export interface ChargingStationPowerType {
+  powerType: string; // 'AC_1_PHASE', 'AC_3_PHASE', 'DC', etc.
+  evseCount: number; // EVSEs with at least one connector of this power type
+  availableEvseCount: number; // Of those, the EVSEs with status AVAILABLE
+  maxPower: number; // Maximum power of this power type in watts
+}
+
+/**
+ * Interface for the per-connector-standard breakdown of a charging station
+ */
+export interface ChargingStationConnectorType {
+  standard: string; // OCPI connector standard, e.g. 'IEC_62196_T1_COMBO'
+  powerType: string; // 'AC_1_PHASE', 'AC_3_PHASE', 'DC', etc.
+  maxPower: number; // Maximum power of the connectors of this standard and power type in watts
+}
+
+/**
+ * Interface for optional charging station search parameters
+ */
+export interface ChargingStationSearchOptions {
+  limit?: number;
+  connectorTypes?: string[]; // OCPI connector standards, e.g. 'IEC_62196_T1_COMBO'
+  operators?: string[];
+  excludeOperators?: string[];
+  minChargingPower?: number; // Minimum charging power in watts
+  maxChargingPower?: number; // Maximum charging power in watts
+  availability?: string;
+}
+
+/**
+ * Interface for geographic bounds, e.g. the visible map area
+ */
+export interface MapBounds {
+  north: number; // Latitude of the northern edge
+  south: number; // Latitude of the southern edge
+  east: number; // Longitude of the eastern edge
+  west: number; // Longitude of the western edge
+}
+
+/**
+ * Which stations the map shows: only those with an available charger, or all of them
+ */
+export type AvailabilityMode = 'available' | 'all';
+
+/**
+ * Interface for the station filters selected on the map page
+ *
+ * Each list holds option keys from the filter tables in stationFilters.ts.
+ * An empty list means the group is not filtered.
+ */
+export interface StationFilters {
+  chargerTypes: string[];
+  powerLevels: string[];
+  networks: string[];
+  availability: AvailabilityMode;
+}
+
 /**
  * Interface for detailed charging station information
  */
@@ -66,37 +138,86 @@ export interface ChargingStationDetails {
     }>;
   };
   parkingType?: string;
-  tariffs?: Array<{
-    id: string;
-    currency: string;
-    elements: Array<{
-      priceComponents: Array<{
-        type: string;
-        price: number;
-        stepSize: number;
-      }>;
-    }>;
-    type: string;
+  tariffs?: ChargingTariff[];
+}
+
+/**
+ * Interface for an OCPI price component of a charging tariff
+ */
+export interface ChargingPriceComponent {
+  type: string; // 'ENERGY' (per kWh), 'TIME' (per hour charging), 'PARKING_TIME' (per hour not charging) or 'FLAT' (per session)
+  price: number; // Excluding VAT
+  stepSize: number; // Billing increment: Wh for ENERGY, seconds for TIME and PARKING_TIME
+}
+
+/**
+ * Interface for an OCPI charging tariff of a station
+ */
+export interface ChargingTariff {
+  id: string;
+  currency: string; // ISO 4217 code
+  elements: Array<{
+    priceComponents: ChargingPriceComponent[];
   }>;
+  type: string; // e.g. 'AD_HOC_PAYMENT'; empty when not given
+}
+
+/**
+ * Interface for an estimated charging cost in one currency, excluding VAT
+ */
+export interface ChargingCost {
+  currency: string;
+  amount: number;
+}
+
+/**
+ * Interface for the estimated charging cost of a trip
+ *
+ * Stops with a known cost are summed per currency; stops without a usable
+ * tariff are counted, as their cost is unknown.
+ */
+export interface TripChargingCost {
+  totals: ChargingCost[];
+  unknownStops: number;
 }
 
 /**
  * Interface for EV route charging waypoint
+ *
+ * Battery charges are energies in Wh, as returned by the Directions API;
+ * getChargingStopEnergy converts them to percent of the battery capacity.
  */
 export interface ChargingWaypoint {
   type: string; // 'charging-station'
   name: string;
-  chargeTime: number; // Time in seconds to charge
-  chargeTo: number; // Watt-hours to charge to
-  chargeAtArrival: number; // Battery charge in Watt-hours on arrival
+  chargeTime: number; // Charge time in seconds
+  chargeTo: number; // Battery charge on departure in Wh
+  chargeAtArrival: number; // Battery charge on arrival in Wh
   plugType: string; // e.g., 'ccs_combo_type2'
   currentType: string; // e.g., 'dc'
-  powerKw: number; // Maximum power in kW
+  powerKw: number; // Maximum power of the charger in kW
   stationId: string;
   providerNames?: string[];
   location: [number, number]; // [longitude, latitude]
+  pinned?: boolean; // True for stations chosen by the user rather than the router
 }
 
+/**
+ * Interface for a charging station the route must charge at, chosen by the user
+ */
+export interface PinnedChargingStation {
+  stationId: string;
+  location: [number, number]; // [longitude, latitude]
+  powerKw: number; // Maximum power of the charger in kW
+  currentType: 'ac' | 'dc';
+}
+
+/**
+ * An intermediate waypoint of a route request: a location to pass through,
+ * or a charging station to charge at
+ */
+export type RouteWaypoint = [number, number] | PinnedChargingStation;
+
 /**
  * Interface for EV route leg
  */
@@ -119,7 +240,7 @@ export interface RouteLeg {
 export interface RouteStep {
   distance: number; // Distance in meters
   duration: number; // Duration in seconds
-  geometry: string; // Encoded polyline
+  geometry: GeoJsonLineString; // Line of the step, decoded from the Directions API geometry
   name: string;
   mode: string; // 'driving', 'ferry', etc.
   maneuver: {
@@ -145,7 +266,7 @@ export interface RouteStep {
 export interface EvRoute {
   distance: number; // Total distance in meters
   duration: number; // Total duration in seconds
-  geometry: string; // Encoded polyline of the entire route
+  geometry: GeoJsonLineString; // Full-resolution line of the entire route, decoded from the Directions API geometry
   legs: RouteLeg[];
   waypoints: Array<{
     name: string;
@@ -153,9 +274,9 @@ export interface EvRoute {
     metadata?: {
       type: string; // 'charging-station' for charging waypoints
       name: string;
-      chargeTime: number;
-      chargeTo: number;
-      chargeAtArrival: number;
+      chargeTime: number; // Seconds
+      chargeTo: number; // Wh
+      chargeAtArrival: number; // Wh
       plugType: string;
       currentType: string;
       powerKw: number;
@@ -164,17 +285,167 @@ export interface EvRoute {
     };
   }>;
   chargingWaypoints: ChargingWaypoint[];
+  timeZones?: RouteTimeZones; // Time zones of the start and the destination, when they could be looked up
+}
+
+/**
+ * The parts of a route that are exported to files
+ *
+ * EvRoute satisfies it; only the waypoint metadata type is needed to tell
+ * charging stops from user waypoints.
+ */
+export interface ExportableRoute {
+  distance: number; // Total distance in meters
+  duration: number; // Total duration in seconds, including charging
+  geometry: GeoJsonLineString;
+  waypoints: Array<{
+    name: string;
+    location: [number, number]; // [longitude, latitude]
+    metadata?: { type: string };
+  }>;
+  chargingWaypoints: ChargingWaypoint[];
+}
+
+/**
+ * A track imported from a GPX or GeoJSON file, to plan a route along
+ */
+export interface ImportedTrack {
+  name?: string; // Name from the file, if it has one
+  geometry: GeoJsonLineString;
+}
+
+/**
+ * File formats routes can be exported to
+ */
+export type RouteExportFormat = 'gpx' | 'kml' | 'geojson';
+
+/**
+ * IANA time zones of the ends of a route, e.g. 'America/New_York'
+ */
+export interface RouteTimeZones {
+  origin?: string;
+  destination?: string;
+}
+
+/**
+ * When a route is driven: leaving when it is calculated, or at a chosen time
+ */
+export type DepartureMode = 'now' | RouteTiming['mode'];
+
+/**
+ * When a route should be driven
+ *
+ * The time is a local time without a time zone, YYYY-MM-DDThh:mm: the time
+ * at the start for 'depart_at', and at the destination for 'arrive_by'.
+ */
+export interface RouteTiming {
+  mode: 'depart_at' | 'arrive_by';
+  time: string;
+}
+
+/**
+ * Road features a route can avoid, as named by the Directions API exclude parameter
+ */
+export type RouteExclusion = 'toll' | 'ferry' | 'motorway';
+
+/**
+ * Interface for the estimated times of a route
+ */
+export interface RouteSchedule {
+  departure: Date;
+  arrival: Date;
+  chargingStops: Array<{
+    chargingStop: ChargingWaypoint;
+    arrival: Date;
+    departure: Date; // Arrival plus the charge time
+  }>;
+}
+
+/**
+ * Interface for one part of a trip, between two consecutive user waypoints
+ *
+ * A trip leg spans one or more route legs: the Directions API splits the
+ * route at every charging stop it inserts.
+ */
+export interface TripLeg {
+  startIndex: number; // Index of the starting waypoint in EvRoute.waypoints
+  endIndex: number; // Index of the ending waypoint in EvRoute.waypoints
+  distance: number; // Distance in meters
+  duration: number; // Driving duration in seconds, without charging
+  chargingTime: number; // Time spent charging in seconds
+  chargingStops: ChargingWaypoint[]; // Charging stops on the way, in order
+  legs: RouteLeg[];
+}
+
+/**
+ * Interface for a leg of a route in the turn-by-turn itinerary
+ */
+export interface ItineraryLeg {
+  distance: number; // Distance in meters
+  duration: number; // Driving duration in seconds
+  steps: RouteStep[]; // Maneuvers in order
+  chargingStop?: ChargingWaypoint; // Charging stop the leg ends at, if any
+}
+
+/**
+ * Interface for a ferry crossing on a route: consecutive steps with mode 'ferry'
+ */
+export interface FerryCrossing {
+  name: string; // Name of the ferry line; empty when the steps have none
+  distance: number; // Distance in meters
+  duration: number; // Duration in seconds, including boarding as estimated by the Directions API
+  location: [number, number]; // Where the crossing starts, as [longitude, latitude]
+}
+
+/**
+ * Interface for a point of the battery charge profile along a route
+ *
+ * A charging stop appears as two points at the same distance: the charge on
+ * arrival, and the charge on departure, which carries the stop.
+ */
+export interface ChargeProfilePoint {
+  distance: number; // Distance from the start of the route in meters
+  charge: number; // Battery charge in percent
+  chargingStop?: ChargingWaypoint; // Set on the departure point of a charging stop
+}
+
+/**
+ * Interface for the battery charge and energy of a charging stop
+ */
+export interface ChargingStopEnergy {
+  arrivalWh: number; // Battery charge on arrival
+  arrivalPercent: number; // Battery charge on arrival in percent of the capacity
+  departureWh: number; // Battery charge on departure
+  departurePercent: number; // Battery charge on departure in percent of the capacity
+  energyAddedWh: number;
+  averagePowerKw?: number; // Energy added over the charge time; undefined without a charge time
+}
+
+/**
+ * What the segments of a route line are colored by
+ */
+export type RouteColorMode = 'charge' | 'speed';
+
+/**
+ * Interface for a piece of a route line with its annotation values
+ */
+export interface RouteSegment {
+  path: Array<[number, number]>; // [longitude, latitude] positions
+  charge?: number; // Battery charge at the end of the segment in percent, if annotated
+  speed?: number; // Average speed in meters per second, if annotated
+  belowReserve: boolean; // Whether the charge is below the reserve that applies to this part of the route
 }
 
 /**
  * Interface for EV vehicle parameters
  */
 export interface EvVehicleParams {
-  vehicleType?: string; // e.g., 'tesla_model3'
-  range?: number; // Range in meters
+  vehicleType?: string; // Vehicle profile ID from vehicleProfiles.ts, e.g., 'tesla_model3'
+  range?: number; // Range in meters, only used for the custom vehicle
   initialCharge?: number; // Initial charge in percentage (0-100)
   maxCharge?: number; // Maximum charge in percentage (0-100)
-  minCharge?: number; // Minimum charge in percentage (0-100)
+  minCharge?: number; // Minimum charge at the destination in percentage (0-100)
+  minChargeAtStation?: number; // Minimum charge on arrival at a charging station in percentage (0-100)
   /**
    * Connector types supported by the vehicle
    * Valid values:
@@ -192,76 +463,62 @@ export interface EvVehicleParams {
   connectorTypes?: string[];
 }
 
-// Interfaces for the Mapbox EV Charge Finder API response
-export interface MapboxEvConnector {
-  id: string;
-  standard: string;
-  format: string;
-  power_type: string;
-  max_voltage: number;
-  max_amperage: number;
-  max_electric_power: number;
-  last_updated: string;
-}
-
-export interface MapboxEvse {
-  uid: string;
-  evse_id: string;
-  status: string;
-  connectors: MapboxEvConnector[];
-  coordinates: {
-    latitude: string;
-    longitude: string;
-  };
-  last_updated: string;
+/**
+ * Interface for the parameters a set of EV routes is calculated with, as passed to calculateEvRoutes
+ */
+export interface EvRouteRequest {
+  start: [number, number]; // [longitude, latitude]
+  end: [number, number]; // [longitude, latitude]
+  waypoints: RouteWaypoint[]; // Intermediate destinations and charging stations, in visiting order
+  vehicleParams: EvVehicleParams;
+  timing?: RouteTiming; // Without it the route leaves now
+  exclude: RouteExclusion[];
 }
 
-export interface MapboxLocation {
-  country_code: string;
-  party_id: string;
-  id: string;
-  publish: boolean;
+/**
+ * Interface for a vehicle profile, used to build the Directions API EV parameters
+ */
+export interface VehicleProfile {
+  id: string; // e.g., 'tesla_model3'
   name: string;
-  address: string;
-  city: string;
-  postal_code: string;
-  state: string;
-  country: string;
-  coordinates: {
-    latitude: string;
-    longitude: string;
-  };
-  evses: MapboxEvse[];
-  operator: {
-    name: string;
-  };
-  owner?: {
-    name: string;
-  };
-  time_zone: string;
-  opening_times: {
-    twentyfourseven: boolean;
-  };
-  last_updated: string;
+  batteryCapacity: number; // Usable battery capacity in Wh
+  consumptionCurve: Array<[number, number]>; // [speed in km/h, consumption in Wh/km]
+  chargingCurve: Array<[number, number]>; // [battery charge in Wh, maximum DC charging power in W]
+  maxAcChargingPower: number; // Maximum AC charging power in W
+  connectorTypes: string[]; // Native Directions API connector types, e.g. 'ccs_combo_type1'
 }
 
-export interface MapboxEvFeature {
-  type: string;
-  geometry: {
-    type: string;
-    coordinates: [number, number]; // [longitude, latitude]
-  };
-  properties: {
-    location: MapboxLocation;
-    proximity: {
-      latitude: number;
-      longitude: number;
-      distance: number; // Distance in kilometers
-    };
-  };
+/**
+ * Interface for the battery charge levels of a route, in percent of the battery capacity
+ */
+export interface ChargeLevels {
+  initialCharge: number; // Charge at departure
+  minChargeAtDestination: number; // Reserve to keep on arrival at the destination
+  minChargeAtStation: number; // Reserve to keep on arrival at a charging station
+  maxCharge: number; // Highest charge to charge to
 }
 
-export interface MapboxEvResponse {
-  type: string;
-  features: MapboxEvFeature[];
-}
+// Raw Mapbox API payload types, derived from the runtime schemas in schemas.ts
+export type {
+  MapboxEvConnector,
+  MapboxEvse,
+  MapboxBusinessDetails,
+  MapboxRegularHours,
+  MapboxLocation,
+  MapboxPriceComponent,
+  MapboxTariff,
+  MapboxEvFeature,
+  MapboxEvResponse,
+  MapboxEvDetailsResponse,
+  GeoJsonLineString,
+  MapboxRouteGeometry,
+  MapboxChargingMetadata,
+  MapboxDirectionsWaypoint,
+  MapboxRouteStep,
+  MapboxRouteLeg,
+  MapboxRoute,
+  MapboxDirectionsResponse,
+  SearchSuggestion,
+  SearchSuggestResponse,
+  SearchRetrieveResponse
+} from './schemas';
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CUSTOM_VEHICLE_ID,
+  DEFAULT_VEHICLE_PROFILE,
+  VEHICLE_CONNECTOR_OPTIONS,
+  VEHICLE_PROFILES,
+  getConsumptionAt,
+  getDefaultConnectorKeys,
+  getVehicleProfile,
+  toChargeWh,
+  toConnectorStandards,
+  toDirectionsEvParams,
+  withRange
+} from './vehicleProfiles';
+import { VehicleProfile } from './types';
+
+const testProfile: VehicleProfile = {
+  id: 'test',
+  name: 'Test EV',
+  batteryCapacity: 60000,
+  consumptionCurve: [[50, 120], [100, 160]],
+  chargingCurve: [[10000, 100000], [50000, 40000]],
+  maxAcChargingPower: 7200,
+  connectorTypes: ['ccs_combo_type1']
+};
+
+describe('VEHICLE_PROFILES', () => {
+  it('has unique IDs', () => {
+    const ids = VEHICLE_PROFILES.map(profile => profile.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).not.toContain(CUSTOM_VEHICLE_ID);
+  });
+
+  it('has curves the Directions API accepts', () => {
+    const connectorTypes = VEHICLE_CONNECTOR_OPTIONS.map(option => option.connectorType);
+
+    [DEFAULT_VEHICLE_PROFILE, ...VEHICLE_PROFILES].forEach(profile => {
+      // Points must be in increasing order, with charge levels within the battery capacity
+      const speeds = profile.consumptionCurve.map(([speed]) => speed);
+      const charges = profile.chargingCurve.map(([charge]) => charge);
+      expect(speeds).toEqual([...speeds].sort((a, b) => a - b));
+      expect(charges).toEqual([...charges].sort((a, b) => a - b));
+      expect(Math.max(...charges)).toBeLessThanOrEqual(profile.batteryCapacity);
+      expect(profile.connectorTypes.length).toBeGreaterThan(0);
+      profile.connectorTypes.forEach(type => expect(connectorTypes).toContain(type));
+    });
+  });
+});
+
+describe('getVehicleProfile', () => {
+  it('finds a profile by ID', () => {
+    expect(getVehicleProfile('kia_ev6')?.name).toBe('Kia EV6');
+  });
+
+  it('uses the default profile without a vehicle or for the custom option', () => {
+    expect(getVehicleProfile(null)).toBe(DEFAULT_VEHICLE_PROFILE);
+    expect(getVehicleProfile('')).toBe(DEFAULT_VEHICLE_PROFILE);
+    expect(getVehicleProfile(CUSTOM_VEHICLE_ID)).toBe(DEFAULT_VEHICLE_PROFILE);
+  });
+
+  it('returns undefined for an unknown vehicle', () => {
+    expect(getVehicleProfile('delorean')).toBeUndefined();
+  });
+});
+
+describe('getDefaultConnectorKeys', () => {
+  it('checks every option for the vehicle connectors', () => {
+    expect(getDefaultConnectorKeys(getVehicleProfile('tesla_model3')!)).toEqual(['tesla', 'nacs']);
+    expect(getDefaultConnectorKeys(getVehicleProfile('nissan_leaf')!)).toEqual(['chademo']);
+    expect(getDefaultConnectorKeys(DEFAULT_VEHICLE_PROFILE)).toEqual(['ccs', 'j1772']);
+  });
+});
+
+describe('toConnectorStandards', () => {
+  it('lists the OCPI standards of the connector types once each', () => {
+    expect(toConnectorStandards(['ccs_combo_type1', 'tesla', 'tesla'])).toEqual(['IEC_62196_T1_COMBO', 'TESLA_S', 'TESLA_R']);
+    expect(toConnectorStandards(['flux_capacitor'])).toEqual([]);
+  });
+});
+
+describe('getConsumptionAt', () => {
+  it('interpolates between curve points and clamps outside the curve', () => {
+    expect(getConsumptionAt(testProfile, 75)).toBe(140);
+    expect(getConsumptionAt(testProfile, 100)).toBe(160);
+    expect(getConsumptionAt(testProfile, 20)).toBe(120);
+    expect(getConsumptionAt(testProfile, 130)).toBe(160);
+  });
+});
+
+describe('withRange', () => {
+  it('scales the consumption curve so a full battery lasts for the range at highway speed', () => {
+    const profile = withRange(testProfile, 300000);
+
+    // 60 kWh over 300 km is 200 Wh/km at 100 km/h, 1.25 times the original curve
+    expect(profile.consumptionCurve).toEqual([[50, 150], [100, 200]]);
+    expect(profile.batteryCapacity).toBe(testProfile.batteryCapacity);
+    expect(testProfile.consumptionCurve).toEqual([[50, 120], [100, 160]]);
+  });
+});
+
+describe('toChargeWh', () => {
+  it('converts percent of the battery capacity to Wh', () => {
+    expect(toChargeWh(80, testProfile)).toBe(48000);
+    expect(toChargeWh(0, testProfile)).toBe(0);
+    expect(toChargeWh(12.5, DEFAULT_VEHICLE_PROFILE)).toBe(8750);
+  });
+});
+
+describe('toDirectionsEvParams', () => {
+  it('formats the profile and default charge levels as Directions API parameters', () => {
+    expect(toDirectionsEvParams(testProfile)).toEqual({
+      ev_max_charge: 60000,
+      ev_initial_charge: 48000,
+      ev_min_charge_at_destination: 9000,
+      ev_min_charge_at_charging_station: 9000,
+      energy_consumption_curve: '50,120;100,160',
+      ev_charging_curve: '10000,100000;50000,40000',
+      ev_max_ac_charging_power: 7200
+    });
+  });
+
+  it('converts the given charge levels to Wh', () => {
+    const params = toDirectionsEvParams(testProfile, {
+      initialCharge: 50,
+      minChargeAtDestination: 20,
+      minChargeAtStation: 5,
+      maxCharge: 100
+    });
+
+    expect(params).toMatchObject({
+      ev_initial_charge: 30000,
+      ev_min_charge_at_destination: 12000,
+      ev_min_charge_at_charging_station: 3000
+    });
+  });
+
+  it('cuts the charging curve off at a maximum charge below 100%', () => {
+    const levels = { initialCharge: 50, minChargeAtDestination: 10, minChargeAtStation: 10, maxCharge: 80 };
+
+    expect(toDirectionsEvParams(testProfile, levels)).toMatchObject({
+      ev_max_charge: 48000,
+      ev_charging_curve: '10000,100000'
+    });
+    expect(toDirectionsEvParams(testProfile, { ...levels, initialCharge: 10, maxCharge: 15 })).toMatchObject({
+      ev_max_charge: 9000,
+      ev_charging_curve: '9000,100000'
+    });
+  });
+});
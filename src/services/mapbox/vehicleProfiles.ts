@@ -0,0 +1,267 @@
+/**
+ * Vehicle Profiles
+ *
+ * Battery, consumption and charging data for the vehicles offered on the
+ * route planner, and their translation into Directions API EV parameters.
+ * Figures are approximate values for recent US models and are meant to
+ * give realistic charging stops, not exact predictions.
+ *
+ * API Reference: https://docs.mapbox.com/api/navigation/directions/#electric-vehicle-routing
+ */
+
+import { ChargeLevels, VehicleProfile } from './types';
+
+/**
+ * Vehicle ID of the "Other" option, which uses DEFAULT_VEHICLE_PROFILE
+ */
+export const CUSTOM_VEHICLE_ID = 'other';
+
+/**
+ * Charge levels used when a route request does not specify them
+ */
+export const DEFAULT_CHARGE_LEVELS: ChargeLevels = {
+  initialCharge: 80,
+  minChargeAtDestination: 15,
+  minChargeAtStation: 15,
+  maxCharge: 100
+};
+
+// Speed at which a custom range is assumed to be reached, in km/h
+const RANGE_REFERENCE_SPEED = 100;
+
+/**
+ * Generic mid-size EV used when no vehicle is selected
+ */
+export const DEFAULT_VEHICLE_PROFILE: VehicleProfile = {
+  id: 'generic',
+  name: 'Generic EV',
+  batteryCapacity: 70000,
+  consumptionCurve: [[10, 300], [20, 130], [40, 100], [60, 110], [80, 120], [100, 140], [120, 160], [140, 180]],
+  chargingCurve: [[7000, 250000], [14000, 220000], [21000, 180000], [28000, 140000], [35000, 100000], [42000, 80000], [49000, 60000], [63000, 40000]],
+  maxAcChargingPower: 11500,
+  connectorTypes: ['ccs_combo_type2', 'ccs_combo_type1']
+};
+
+/**
+ * Vehicles that can be selected on the route planner
+ */
+export const VEHICLE_PROFILES: VehicleProfile[] = [
+  {
+    id: 'tesla_model3',
+    name: 'Tesla Model 3',
+    batteryCapacity: 75000,
+    consumptionCurve: [[10, 276], [20, 138], [40, 104], [60, 104], [80, 120], [100, 145], [120, 177], [140, 218]],
+    chargingCurve: [[7500, 250000], [15000, 238000], [22500, 212000], [30000, 175000], [37500, 150000], [45000, 125000], [52500, 95000], [60000, 62000], [67500, 30000]],
+    maxAcChargingPower: 11500,
+    connectorTypes: ['tesla']
+  },
+  {
+    id: 'tesla_modely',
+    name: 'Tesla Model Y',
+    batteryCapacity: 75000,
+    consumptionCurve: [[10, 314], [20, 157], [40, 119], [60, 119], [80, 137], [100, 165], [120, 201], [140, 248]],
+    chargingCurve: [[7500, 250000], [15000, 238000], [22500, 212000], [30000, 175000], [37500, 150000], [45000, 125000], [52500, 95000], [60000, 62000], [67500, 30000]],
+    maxAcChargingPower: 11500,
+    connectorTypes: ['tesla']
+  },
+  {
+    id: 'chevy_bolt',
+    name: 'Chevy Bolt',
+    batteryCapacity: 65000,
+    consumptionCurve: [[10, 304], [20, 152], [40, 115], [60, 115], [80, 133], [100, 160], [120, 195], [140, 240]],
+    chargingCurve: [[6500, 55000], [13000, 55000], [19500, 55000], [26000, 55000], [32500, 47000], [39000, 38000], [45500, 30000], [52000, 22000], [58500, 11000]],
+    maxAcChargingPower: 11500,
+    connectorTypes: ['ccs_combo_type1']
+  },
+  {
+    id: 'nissan_leaf',
+    name: 'Nissan Leaf',
+    batteryCapacity: 59000,
+    consumptionCurve: [[10, 323], [20, 162], [40, 122], [60, 122], [80, 141], [100, 170], [120, 207], [140, 255]],
+    chargingCurve: [[5900, 100000], [11800, 95000], [17700, 85000], [23600, 70000], [29500, 60000], [35400, 50000], [41300, 38000], [47200, 25000], [53100, 12000]],
+    maxAcChargingPower: 6600,
+    connectorTypes: ['chademo']
+  },
+  {
+    id: 'ford_mach_e',
+    name: 'Ford Mustang Mach-E',
+    batteryCapacity: 88000,
+    consumptionCurve: [[10, 361], [20, 180], [40, 137], [60, 137], [80, 158], [100, 190], [120, 232], [140, 285]],
+    chargingCurve: [[8800, 150000], [17600, 142000], [26400, 128000], [35200, 105000], [44000, 90000], [52800, 75000], [61600, 57000], [70400, 38000], [79200, 18000]],
+    maxAcChargingPower: 11000,
+    connectorTypes: ['ccs_combo_type1']
+  },
+  {
+    id: 'hyundai_ioniq5',
+    name: 'Hyundai IONIQ 5',
+    batteryCapacity: 74000,
+    consumptionCurve: [[10, 342], [20, 171], [40, 130], [60, 130], [80, 149], [100, 180], [120, 220], [140, 270]],
+    chargingCurve: [[7400, 235000], [14800, 235000], [22200, 223000], [29600, 212000], [37000, 200000], [44400, 188000], [51800, 164000], [59200, 106000], [66600, 47000]],
+    maxAcChargingPower: 10900,
+    connectorTypes: ['ccs_combo_type1']
+  },
+  {
+    id: 'kia_ev6',
+    name: 'Kia EV6',
+    batteryCapacity: 74000,
+    consumptionCurve: [[10, 332], [20, 166], [40, 126], [60, 126], [80, 145], [100, 175], [120, 214], [140, 262]],
+    chargingCurve: [[7400, 235000], [14800, 235000], [22200, 223000], [29600, 212000], [37000, 200000], [44400, 188000], [51800, 164000], [59200, 106000], [66600, 47000]],
+    maxAcChargingPower: 10900,
+    connectorTypes: ['ccs_combo_type1']
+  },
+  {
+    id: 'rivian_r1t',
+    name: 'Rivian R1T',
+    batteryCapacity: 128900,
+    consumptionCurve: [[10, 494], [20, 247], [40, 187], [60, 187], [80, 216], [100, 260], [120, 317], [140, 390]],
+    chargingCurve: [[12890, 220000], [25780, 209000], [38670, 187000], [51560, 154000], [64450, 132000], [77340, 110000], [90230, 84000], [103120, 55000], [116010, 26000]],
+    maxAcChargingPower: 11500,
+    connectorTypes: ['ccs_combo_type1']
+  }
+];
+
+/**
+ * Connector checkbox options on the route planner mapped to Directions API connector types
+ */
+export const VEHICLE_CONNECTOR_OPTIONS: Array<{ key: string; label: string; connectorType: string }> = [
+  { key: 'ccs', label: 'CCS Combo Type 2 (European)', connectorType: 'ccs_combo_type2' },
+  { key: 'chademo', label: 'CHAdeMO', connectorType: 'chademo' },
+  { key: 'j1772', label: 'CCS Combo Type 1 (J-plug)', connectorType: 'ccs_combo_type1' },
+  { key: 'tesla', label: 'Tesla', connectorType: 'tesla' },
+  { key: 'nacs', label: 'NACS (Maps to Tesla)', connectorType: 'tesla' } // NACS is not directly supported by the Mapbox API
+];
+
+/**
+ * OCPI connector standards of each Directions API connector type, for finding stations a vehicle can charge at
+ */
+export const EV_CONNECTOR_STANDARDS: Record<string, string[]> = {
+  ccs_combo_type1: ['IEC_62196_T1_COMBO'],
+  ccs_combo_type2: ['IEC_62196_T2_COMBO'],
+  chademo: ['CHADEMO'],
+  tesla: ['TESLA_S', 'TESLA_R']
+};
+
+/**
+ * Converts Directions API connector types to the OCPI connector standards of the EV Charge Finder API
+ *
+ * @param connectorTypes - Directions API connector types, e.g. 'ccs_combo_type1'
+ * @returns string[] - The distinct OCPI standards; unknown types are skipped
+ */
+export function toConnectorStandards(connectorTypes: string[]): string[] {
+  return Array.from(new Set(connectorTypes.flatMap(type => EV_CONNECTOR_STANDARDS[type] ?? [])));
+}
+
+/**
+ * Looks up a vehicle profile by ID
+ *
+ * @param id - The vehicle ID; empty or CUSTOM_VEHICLE_ID selects the default profile
+ * @returns VehicleProfile | undefined - The profile, or undefined if the ID is not known
+ */
+export function getVehicleProfile(id?: string | null): VehicleProfile | undefined {
+  if (!id || id === CUSTOM_VEHICLE_ID) {
+    return DEFAULT_VEHICLE_PROFILE;
+  }
+  return VEHICLE_PROFILES.find(profile => profile.id === id);
+}
+
+/**
+ * Returns the connector checkbox options that match a vehicle's native connectors
+ *
+ * @param profile - The vehicle profile
+ * @returns string[] - Keys of the options in VEHICLE_CONNECTOR_OPTIONS to check by default
+ */
+export function getDefaultConnectorKeys(profile: VehicleProfile): string[] {
+  return VEHICLE_CONNECTOR_OPTIONS
+    .filter(option => profile.connectorTypes.includes(option.connectorType))
+    .map(option => option.key);
+}
+
+/**
+ * Returns a vehicle's energy consumption at a speed, interpolating between curve points
+ *
+ * @param profile - The vehicle profile
+ * @param speed - Speed in km/h
+ * @returns number - Consumption in Wh/km; speeds outside the curve use its first or last point
+ */
+export function getConsumptionAt(profile: VehicleProfile, speed: number): number {
+  const curve = profile.consumptionCurve;
+  if (speed <= curve[0][0]) return curve[0][1];
+
+  for (let i = 1; i < curve.length; i++) {
+    const [speedA, consumptionA] = curve[i - 1];
+    const [speedB, consumptionB] = curve[i];
+    if (speed <= speedB) {
+      return consumptionA + (consumptionB - consumptionA) * (speed - speedA) / (speedB - speedA);
+    }
+  }
+
+  return curve[curve.length - 1][1];
+}
+
+/**
+ * Adapts a profile to a custom range by scaling its consumption curve
+ *
+ * The curve keeps its shape and is scaled so that a full battery lasts for
+ * the given range at highway speed (RANGE_REFERENCE_SPEED).
+ *
+ * @param profile - The vehicle profile, usually DEFAULT_VEHICLE_PROFILE
+ * @param range - Range on a full battery in meters
+ * @returns VehicleProfile - The profile with the scaled consumption curve
+ */
+export function withRange(profile: VehicleProfile, range: number): VehicleProfile {
+  const consumption = profile.batteryCapacity / (range / 1000);
+  const scale = consumption / getConsumptionAt(profile, RANGE_REFERENCE_SPEED);
+
+  return {
+    ...profile,
+    consumptionCurve: profile.consumptionCurve.map(([speed, value]) => [speed, Math.round(value * scale)])
+  };
+}
+
+/**
+ * Converts a percentage of a vehicle's battery capacity to watt-hours
+ *
+ * @param percent - Charge in percent (0-100)
+ * @param profile - The vehicle profile
+ * @returns number - Charge in Wh
+ */
+export function toChargeWh(percent: number, profile: VehicleProfile): number {
+  return Math.round(profile.batteryCapacity * percent / 100);
+}
+
+/**
+ * Formats a curve as the semicolon-separated list of "x,y" pairs the Directions API expects
+ */
+function formatCurve(curve: Array<[number, number]>): string {
+  return curve.map(point => point.join(',')).join(';');
+}
+
+/**
+ * Builds the vehicle-specific Directions API EV parameters for a profile
+ *
+ * Charge levels are converted from percent to Wh of the battery capacity.
+ * A maximum charge below 100% is sent as a smaller ev_max_charge, so the
+ * charging curve is cut off at that level.
+ *
+ * @param profile - The vehicle profile
+ * @param levels - Charge levels in percent; assumed to be validated
+ * @returns Query parameters for battery size, charge levels, consumption and charging
+ */
+export function toDirectionsEvParams(
+  profile: VehicleProfile,
+  levels: ChargeLevels = DEFAULT_CHARGE_LEVELS
+): Record<string, string | number> {
+  const maxCharge = toChargeWh(levels.maxCharge, profile);
+  const chargingCurve = profile.chargingCurve.filter(([charge]) => charge <= maxCharge);
+
+  return {
+    ev_max_charge: maxCharge,
+    ev_initial_charge: toChargeWh(levels.initialCharge, profile),
+    ev_min_charge_at_destination: toChargeWh(levels.minChargeAtDestination, profile),
+    ev_min_charge_at_charging_station: toChargeWh(levels.minChargeAtStation, profile),
+    energy_consumption_curve: formatCurve(profile.consumptionCurve),
+    // Keep at least one point, at the maximum charge, if the whole curve is above it
+    ev_charging_curve: formatCurve(chargingCurve.length > 0 ? chargingCurve : [[maxCharge, profile.chargingCurve[0][1]]]),
+    ev_max_ac_charging_power: profile.maxAcChargingPower
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import searchPlaces from '../../scripts/mapbox-stand-in/fixtures/searchbox-places.json';
+import { SearchRetrieveResponse } from './mapbox';
+import { toLocationDetail } from './searchService';
+
+// Returns a retrieve response for a fixture place
+function retrieveResponse(name: string): SearchRetrieveResponse {
+  const feature = searchPlaces.features.find(item => item.properties.name === name);
+  return { type: 'FeatureCollection', features: feature ? [feature] : [] } as unknown as SearchRetrieveResponse;
+}
+
+describe('toLocationDetail', () => {
+  it('maps an address feature', () => {
+    expect(toLocationDetail(retrieveResponse('Union Station'))).toEqual({
+      name: 'Union Station',
+      coordinates: { latitude: 38.8977, longitude: -77.0063 },
+      address: '50 Massachusetts Ave NE',
+      full_address: '50 Massachusetts Ave NE, Washington, District of Columbia 20002, United States',
+      place_formatted: '50 Massachusetts Ave NE, Washington, District of Columbia 20002, United States'
+    });
+  });
+
+  it('leaves a missing address undefined', () => {
+    const detail = toLocationDetail(retrieveResponse('Baltimore'));
+
+    expect(detail?.coordinates).toEqual({ latitude: 39.2904, longitude: -76.6122 });
+    expect(detail?.address).toBeUndefined();
+    expect(detail?.place_formatted).toBe('Maryland, United States');
+  });
+
+  it('returns null when there are no features', () => {
+    expect(toLocationDetail({ type: 'FeatureCollection', features: [] })).toBeNull();
+    expect(toLocationDetail({} as SearchRetrieveResponse)).toBeNull();
+  });
+});
@@ -1,4 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
+import type { SearchRetrieveResponse } from './mapbox/schemas';
 
 /**
  * Interface for location search suggestions
@@ -26,6 +27,31 @@ export interface LocationDetail {
   place_formatted: string;
 }
 
+/**
+ * Converts a Search Box API retrieve response to a LocationDetail
+ * 
+ * @param data - The retrieve response
+ * @returns LocationDetail | null - Details of the first feature, or null if there is none
+ */
+export function toLocationDetail(data: SearchRetrieveResponse): LocationDetail | null {
+  if (!data?.features || data.features.length === 0) {
+    return null;
+  }
+  
+  const feature = data.features[0];
+  
+  return {
+    name: feature.properties.name,
+    coordinates: {
+      latitude: feature.geometry.coordinates[1],
+      longitude: feature.geometry.coordinates[0]
+    },
+    address: feature.properties.address,
+    full_address: feature.properties.full_address,
+    place_formatted: feature.properties.place_formatted
+  };
+}
+
 /**
  * Class to manage search session tokens
  * This ensures that suggest and retrieve calls are properly grouped for billing
@@ -142,22 +168,7 @@ export async function getLocationDetails(mapboxId: string): Promise<LocationDeta
     sessionManager.refreshSessionToken();
     
     // Extract and transform the location details
-    if (data.features && data.features.length > 0) {
-      const feature = data.features[0];
-      
-      return {
-        name: feature.properties.name,
-        coordinates: {
-          latitude: feature.geometry.coordinates[1],
-          longitude: feature.geometry.coordinates[0]
-        },
-        address: feature.properties.address,
-        full_address: feature.properties.full_address,
-        place_formatted: feature.properties.place_formatted
-      };
-    }
-    
-    return null;
+    return toLocationDetail(data);
   } catch (error) {
     console.error('Error fetching location details:', error);
     return null;